@@ -9,273 +9,257 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
-import { Download, RefreshCw, Eye, EyeOff, BarChart2 } from "lucide-react";
+import { Download, RefreshCw, Eye, EyeOff, BarChart2, AlertTriangle, Copy, GripVertical, Trash2, X } from "lucide-react";
 import { Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ResponsiveContainer, Tooltip as RechartsTooltip, Legend } from "recharts";
 import html2canvas from "html2canvas";
+import CriteriaEditor from "./CriteriaEditor";
+import ScoringSettings from "./ScoringSettings";
+import AssessorsPanel from "./AssessorsPanel";
+import CsvImport from "./CsvImport";
+import SensitivityPanel from "./SensitivityPanel";
+import UncertaintyPanel from "./UncertaintyPanel";
+import PairwisePanel from "./PairwisePanel";
+import { AGGREGATION_METHODS, formatScore, rankUseCases, type ScoringConfig } from "@/lib/scoring";
+import { adjustedFeasibility, type ReadinessAdjustment } from "@/lib/readinessAdjustment";
+import type { ReadinessScores } from "./Scoring_Readiness";
+import { applyConsensus, assessorName, criterionSpread, type AssessmentConfig } from "@/lib/assessors";
+import type { PairwiseConfig } from "@/lib/ahp";
+import {
+  csvFieldsForUseCases,
+  downloadCsv,
+  readUseCaseRows,
+  toUseCaseCsv,
+  type ColumnMapping,
+  type UseCaseRow,
+} from "@/lib/csv";
+import { scoreRange, setRange } from "@/lib/uncertainty";
+import { MAX_USE_CASES, MIN_USE_CASES, duplicateNameIds, nextUseCaseId } from "@/lib/project";
+import { COLORS, emptyScores, type Criterion, type UseCase } from "@/lib/useCases";
 
 /**
  * AI Use Case Spider Chart Generator
- * - Fill 8 use cases (name, description, and 8 criteria scored 1-10)
+ * - Fill 2–10 use cases (name, description, and the project's criteria scored 1-10)
+ * - Add, remove and reorder criteria per project
  * - Toggle visibility per use case on the overlay radar chart
  * - See per-use-case spider chart & a comparison overlay
  * - Export PNG of the comparison chart; export/import JSON
  */
 
-export const CRITERIA: {
-  key: keyof UseCase["scores"];
-  label: string;
-  group: "Impact" | "Feasibility";
-  descriptions: { 0: string; 5: string; 10: string };
-}[] = [
-  {
-    key: "increasesProductivity",
-    label: "Increases Productivity",
-    group: "Impact",
-    descriptions: {
-      0: "Use case offers no measurable productivity improvement",
-      5: "Moderate improvement in productivity",
-      10: "Use case could offer significant productivity boost across organization",
-    },
-  },
-  {
-    key: "reducesCosts",
-    label: "Reduces Costs",
-    group: "Impact",
-    descriptions: {
-      0: "Use case offers no cost savings",
-      5: "Moderate savings in some processes",
-      10: "Use case offers major cost reductions across operations",
-    },
-  },
-  {
-    key: "benefitsPublic",
-    label: "Benefits Public",
-    group: "Impact",
-    descriptions: {
-      0: "Use case offers no public benefit",
-      5: "Some benefit for limited groups",
-      10: "Use case offers wide-reaching public benefit",
-    },
-  },
-  {
-    key: "increaseRevenue",
-    label: "Increase Revenue",
-    group: "Impact",
-    descriptions: {
-      0: "No measurable effect on revenue",
-      5: "Some revenue potential in limited areas",
-      10: "Strong potential to significantly increase revenue",
-    },
-  },
-  {
-    key: "strategicImpact",
-    label: "Strategic Impact",
-    group: "Impact",
-    descriptions: {
-      0: "No contribution to strategic objectives",
-      5: "Moderate alignment with some strategic priorities",
-      10: "High alignment with major strategic goals of the organization",
-    },
-  },
-  {
-    key: "dataReady",
-    label: "Data Ready",
-    group: "Feasibility",
-    descriptions: {
-      0: "Use case does not require much clean, structured, ready-to-use data",
-      5: "Partial / incomplete data requirements",
-      10: "Use case requires high-quality, ready-to-use data",
-    },
-  },
-  {
-    key: "techMature",
-    label: "Technology Mature",
-    group: "Feasibility",
-    descriptions: {
-      0: "Use case needs technology that is immature or still experimental and not ready to use",
-      5: "Use case requires technology that is semi-reliable but requires adaptation",
-      10: "Use case requires technology that is fully mature and reliable",
-    },
-  },
-  {
-    key: "lowImplementationCost",
-    label: "Resource-Efficient",
-    group: "Feasibility",
-    descriptions: {
-      0: "Extremely costly to implement use case",
-      5: "Moderate resources required",
-      10: "Very low implementation cost of use case",
-    },
-  },
-  {
-    key: "reusable",
-    label: "Reusable",
-    group: "Feasibility",
-    descriptions: {
-      0: "Use case is not reusable",
-      5: "Use case is reusable with modifications",
-      10: "Use case is highly reusable across multiple contexts",
-    },
-  },
-  {
-    key: "noRisk",
-    label: "No Risk",
-    group: "Feasibility",
-    descriptions: {
-      0: "High risks (legal, ethical, reputational) associated with developing and deploying use case",
-      5: "Some risks associated with developing and deploying use case but are overall manageable",
-      10: "Minimal or no risks associated with developing and deploying use case",
-    },
-  },
-];
-
-const COLORS = [
-  "#e6194B", // Red
-  "#3cb44b", // Green
-  "#808000", // Olive
-  "#4363d8", // Blue
-  "#f58231", // Orange
-  "#911eb4", // Purple
-  "#42d4f4", // Cyan
-  "#f032e6", // Magenta
-  "#469990", // Teal
-  "#9A6324", // Brown
-];
-
-export type UseCase = {
-  id: number;
-  name: string;
-  description: string;
-  visible: boolean;
-  scores: {
-    dataReady: number;
-    techMature: number;
-    lowImplementationCost: number;
-    reusable: number;
-    increasesProductivity: number;
-    reducesCosts: number;
-    benefitsPublic: number;
-    noRisk: number;
-    increaseRevenue: number;
-    strategicImpact: number; 
-  };
-};
-
-const emptyScores = () => ({
-  dataReady: 5,
-  techMature: 5,
-  lowImplementationCost: 5,
-  reusable: 5,
-  increasesProductivity: 5,
-  reducesCosts: 5,
-  benefitsPublic: 5,
-  noRisk: 5,
-  increaseRevenue: 5,
-  strategicImpact: 5, 
-});
-
-export const defaultUseCases: UseCase[] = new Array(8).fill(null).map((_, i) => ({
-  id: i,
-  name: `Use Case ${i + 1}`,
-  description: "",
-  visible: true,
-  scores: emptyScores(),
-}));
+export type { Criterion, CriterionGroup, UseCase } from "@/lib/useCases";
 
 function clamp01to10(n: number) {
   if (Number.isNaN(n)) return 0;
   return Math.max(1, Math.min(10, Math.round(n)));
 }
 
-function toRadarData(useCase: UseCase) {
-  return CRITERIA.map((c) => ({ criterion: c.label, value: useCase.scores[c.key] }));
-}
+// Comparison chart series are keyed by id so equal or empty names don't merge
+const seriesKey = (u: UseCase) => `uc-${u.id}`;
 
-function averageScore(u: UseCase) {
-  const vals = Object.values(u.scores);
-  return Math.round(vals.reduce((a, b) => a + b, 0) / vals.length);
+function toRadarData(useCase: UseCase, criteria: Criterion[], assessment: AssessmentConfig) {
+  return criteria.map((c) => {
+    const spread = criterionSpread(useCase, c.key, assessment);
+    const { low, high } = scoreRange(useCase, c.key);
+    return { criterion: c.label, value: useCase.scores[c.key], min: spread?.min, max: spread?.max, low, high };
+  });
 }
 
-function rank(useCases: UseCase[]) {
-  return [...useCases]
-    .map((u) => ({ ...u, avg: averageScore(u) }))
-    .sort((a, b) => b.avg - a.avg)
-    .map((u, idx) => ({ rank: idx + 1, name: u.name || `Use Case ${u.id + 1}` , avg: u.avg }));
+// Ranges on the detail chart (assessor min–max, uncertainty low–high): the ring between
+// the series' own value (outer edge) and `lowKey` (inner edge) on each axis
+function RangeBand({
+  points,
+  fill,
+  lowKey = "min",
+  dashed = false,
+}: {
+  points?: { x: number; y: number; cx?: number; cy?: number; value?: number; payload?: Record<string, unknown> }[];
+  fill?: string;
+  lowKey?: string;
+  dashed?: boolean;
+}) {
+  if (!points?.length) return <g />;
+  const outer = points.map((p) => [p.x, p.y]);
+  const inner = points.map((p) => {
+    const low = Number(p.payload?.[lowKey] ?? 0);
+    const high = Number(p.value ?? 0);
+    const t = high > 0 ? low / high : 0; // radius axis starts at 0, so scaling toward the centre is linear
+    return [p.cx! + (p.x - p.cx!) * t, p.cy! + (p.y - p.cy!) * t];
+  });
+  const ring = (pts: number[][]) => `M${pts.map(([x, y]) => `${x},${y}`).join("L")}Z`;
+  return (
+    <path
+      d={`${ring(outer)}${ring(inner)}`}
+      fill={fill}
+      fillOpacity={dashed ? 0.12 : 0.25}
+      fillRule="evenodd"
+      stroke={dashed ? fill : "none"}
+      strokeDasharray={dashed ? "3 3" : undefined}
+    />
+  );
 }
 
-export default function AISpiderCharts({useCases, setUseCases,}: {useCases: UseCase[];setUseCases: React.Dispatch<React.SetStateAction<UseCase[]>>;ß}) {
-  const [selected, setSelected] = useState<number>(0); // local UI-only state is fine
+export default function AISpiderCharts({
+  useCases,
+  setUseCases,
+  onReplaceUseCases,
+  criteria,
+  onCriteriaChange,
+  scoring,
+  onScoringChange,
+  readinessScores,
+  readinessAdjustment,
+  assessment,
+  onAssessmentChange,
+  pairwise,
+  onPairwiseChange,
+  onApplyPairwiseWeights,
+}: {
+  useCases: UseCase[];
+  setUseCases: React.Dispatch<React.SetStateAction<UseCase[]>>;
+  onReplaceUseCases: (next: UseCase[]) => void;
+  criteria: Criterion[];
+  onCriteriaChange: (next: Criterion[]) => void;
+  scoring: ScoringConfig;
+  onScoringChange: (next: ScoringConfig) => void;
+  readinessScores: ReadinessScores;
+  readinessAdjustment: ReadinessAdjustment;
+  assessment: AssessmentConfig;
+  onAssessmentChange: (next: AssessmentConfig) => void;
+  pairwise: PairwiseConfig;
+  onPairwiseChange: (next: PairwiseConfig) => void;
+  onApplyPairwiseWeights: (next: { criteria: Criterion[]; groupWeights: ScoringConfig["groupWeights"] }) => void;
+}) {
+  const [selectedId, setSelectedId] = useState<number>(useCases[0]?.id ?? 0); // local UI-only state is fine
+  const [dragId, setDragId] = useState<number | null>(null); // tab being dragged to a new position
   const [selectedDimension, setSelectedDimension] = useState<string | null>(null); // state for selected dimension
+  const [scoringAs, setScoringAs] = useState<string | null>(null); // assessor id; null = consensus
+
+  const activeAssessor = assessment.assessors.find((a) => a.id === scoringAs) ?? null;
+  // With assessors, the consensus is derived and can only be changed through an assessor's scores
+  const consensusView = assessment.assessors.length > 0 && !activeAssessor;
+  const shownScore = (u: UseCase, key: string) =>
+    activeAssessor ? u.assessorScores?.[activeAssessor.id]?.[key] ?? u.scores[key] : u.scores[key];
 
   const chartRef = useRef<HTMLDivElement>(null);
 
   // Add use case
   function addUseCase() {
-    if (useCases.length >= 10) return;
+    if (useCases.length >= MAX_USE_CASES) return;
+    const id = nextUseCaseId(useCases);
+    setUseCases((prev) => [
+      ...prev,
+      {
+        id,
+        name: `Use Case ${id + 1}`,
+        description: "",
+        visible: true,
+        scores: emptyScores(criteria),
+      },
+    ]);
+    setSelectedId(id); // select new tab
+  }
+
+  // Copy of a use case (scores and assessor scores included), placed right after it
+  function duplicateUseCase(source: UseCase) {
+    if (useCases.length >= MAX_USE_CASES) return;
+    const id = nextUseCaseId(useCases);
     setUseCases((prev) => {
-      const next = [
-        ...prev,
-        {
-          id: prev.length,
-          name: `Use Case ${prev.length + 1}`,
-          description: "",
-          visible: true,
-          scores: emptyScores(),
-        },
-      ];
+      const next = [...prev];
+      next.splice(prev.indexOf(source) + 1, 0, {
+        ...source,
+        id,
+        name: `${source.name || `Use Case ${source.id + 1}`} (copy)`.slice(0, 30),
+      });
       return next;
     });
-    setSelected(useCases.length); // select new tab
+    setSelectedId(id);
+  }
+
+  // Remove any use case; the others keep their ids (and so their colors, numbers and board positions)
+  function removeUseCase(target: UseCase) {
+    if (useCases.length <= MIN_USE_CASES) return;
+    if (!window.confirm(`Delete "${target.name || `Use Case ${target.id + 1}`}"? Its board position is removed too.`)) return;
+    const idx = useCases.indexOf(target);
+    const neighbor = useCases[idx + 1] ?? useCases[idx - 1];
+    setUseCases((prev) => prev.filter((u) => u.id !== target.id));
+    setSelectedId(neighbor.id); // keep a valid tab selected
   }
 
-  // Remove use case
-  function removeUseCase() {
-    if (useCases.length <= 2) return;
+  // Drag-and-drop on the tabs: the dragged use case takes the drop target's position
+  function moveUseCase(fromId: number, toId: number) {
     setUseCases((prev) => {
-      const next = prev.slice(0, -1);
-      return next.map((u, i) => ({ ...u, id: i })); // reindex IDs
+      const from = prev.findIndex((u) => u.id === fromId);
+      const to = prev.findIndex((u) => u.id === toId);
+      if (from < 0 || to < 0 || from === to) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
     });
-    setSelected((s) => Math.min(s, useCases.length - 2)); // keep valid tab selected
   }
 
   const comparisonData = useMemo(() => {
     // Build an array of objects keyed by criterion for the overlay chart
-    return CRITERIA.map(({ label, key }) => {
+    return criteria.map(({ label, key }) => {
       const row: any = { criterion: label };
       useCases.forEach((u) => {
-        row[u.name || `Use Case ${u.id + 1}`] = u.scores[key];
+        row[seriesKey(u)] = u.scores[key];
       });
       return row;
     });
-  }, [useCases]);
+  }, [useCases, criteria]);
 
-  const ranks = useMemo(() => rank(useCases), [useCases]);
+  const ranks = useMemo(() => rankUseCases(useCases, criteria, scoring), [useCases, criteria, scoring]);
+  const duplicateNames = useMemo(() => duplicateNameIds(useCases), [useCases]);
 
-  function updateScore(idx: number, key: keyof UseCase["scores"], value: number) {
-    setUseCases((prev) => {
-      const next = [...prev];
-      next[idx] = {
-        ...next[idx],
-        scores: { ...next[idx].scores, [key]: clamp01to10(value) },
-      };
-      return next;
-    });
+  // --- CSV import/export ---
+  const csvFields = useMemo(() => csvFieldsForUseCases(criteria), [criteria]);
+  const readCsvRows = useMemo(
+    () => (rows: string[][], mapping: ColumnMapping) => readUseCaseRows(rows, mapping, criteria),
+    [criteria]
+  );
+
+  function replaceFromCsv(rows: UseCaseRow[]) {
+    onReplaceUseCases(rows.slice(0, MAX_USE_CASES).map((r, i) => ({ ...r, id: i })));
+    setSelectedId(0);
   }
 
-  function updateMeta(idx: number, field: "name" | "description", value: string) {
-    setUseCases((prev) => {
-      const next = [...prev];
-      next[idx] = { ...next[idx], [field]: value } as UseCase;
-      return next;
-    });
+  function appendFromCsv(rows: UseCaseRow[]) {
+    setUseCases((prev) =>
+      rows.slice(0, MAX_USE_CASES - prev.length).reduce((acc, r) => [...acc, { ...r, id: nextUseCaseId(acc) }], prev)
+    );
+  }
+  const methodLabel = AGGREGATION_METHODS.find((m) => m.value === scoring.method)?.label ?? "Weighted mean";
+
+  function updateScore(id: number, key: Criterion["key"], value: number) {
+    setUseCases((prev) =>
+      prev.map((u) => {
+        if (u.id !== id) return u;
+        if (!activeAssessor) return { ...u, scores: { ...u.scores, [key]: clamp01to10(value) } };
+        const own = u.assessorScores?.[activeAssessor.id] ?? u.scores;
+        const updated = {
+          ...u,
+          assessorScores: { ...u.assessorScores, [activeAssessor.id]: { ...own, [key]: clamp01to10(value) } },
+        };
+        return applyConsensus([updated], criteria, assessment)[0];
+      })
+    );
   }
 
-  function toggleVisible(idx: number) {
-    setUseCases((prev) => {
-      const next = [...prev];
-      next[idx] = { ...next[idx], visible: !next[idx].visible };
-      return next;
-    });
+  function updateMeta(id: number, field: "name" | "description", value: string) {
+    setUseCases((prev) => prev.map((u) => (u.id === id ? { ...u, [field]: value } : u)));
+  }
+
+  // One criterion's scores for every use case at once (from the pairwise comparison)
+  function applyCriterionScores(key: Criterion["key"], byId: Record<number, number>) {
+    setUseCases((prev) => prev.map((u) => ({ ...u, scores: { ...u.scores, [key]: byId[u.id] ?? u.scores[key] } })));
+  }
+
+  function updateRange(id: number, key: Criterion["key"], range: { low: number; high: number } | null) {
+    setUseCases((prev) => prev.map((u) => (u.id === id ? setRange(u, key, range) : u)));
+  }
+
+  function toggleVisible(id: number) {
+    setUseCases((prev) => prev.map((u) => (u.id === id ? { ...u, visible: !u.visible } : u)));
   }
 
   async function downloadPNG() {
@@ -316,7 +300,7 @@ export default function AISpiderCharts({useCases, setUseCases,}: {useCases: UseC
             name: u.name ?? `Use Case ${i + 1}`,
             description: u.description ?? "",
             visible: typeof u.visible === "boolean" ? u.visible : true,
-            scores: { ...emptyScores(), ...(u.scores ?? {}) },
+            scores: { ...emptyScores(criteria), ...(u.scores ?? {}) },
           })));
         } else {
           alert("Expected an array of 8 use cases in the file.");
@@ -378,13 +362,14 @@ export default function AISpiderCharts({useCases, setUseCases,}: {useCases: UseC
   );
   
 // Create a new payload based on your useCases data
-const legendPayload = useCases.map((u, i) => ({
+const legendPayload = useCases.map((u) => ({
   value: u.name || `Use Case ${u.id + 1}`,
-  color: COLORS[i % COLORS.length],
+  color: COLORS[u.id % COLORS.length],
   // You might need other properties like 'id' and 'type' for advanced customization
 }));
 
-  const active = useCases[selected];
+  const active = useCases.find((u) => u.id === selectedId) ?? useCases[0];
+  const activeRank = ranks.find((r) => r.id === active?.id);
   const detailRef = useRef<HTMLDivElement>(null);
 
   return (
@@ -394,7 +379,7 @@ const legendPayload = useCases.map((u, i) => ({
           <header className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
             <div>
               <h1 className="text-3xl font-bold tracking-tight">Step 2: AI Use Case Ideation and Evaluation</h1>
-              <p className="text-slate-600">Enter and describe up to eight use cases, rate them on eight criteria (1-10), and visualize the results as spider charts.</p>
+              <p className="text-slate-600">Enter and describe up to ten use cases, rate them on the project's criteria (1-10), and visualize the results as spider charts.</p>
             </div>
           </header>
 
@@ -406,74 +391,160 @@ const legendPayload = useCases.map((u, i) => ({
             </AlertDescription>
           </Alert>
 
+          <CriteriaEditor criteria={criteria} onChange={onCriteriaChange} />
+          <ScoringSettings
+            criteria={criteria}
+            config={scoring}
+            onConfigChange={onScoringChange}
+            onCriteriaChange={onCriteriaChange}
+          />
+          <PairwisePanel
+            criteria={criteria}
+            useCases={useCases}
+            scoring={scoring}
+            pairwise={pairwise}
+            onChange={onPairwiseChange}
+            onApplyWeights={onApplyPairwiseWeights}
+            onApplyScores={applyCriterionScores}
+            scoresLocked={assessment.assessors.length > 0}
+          />
+          <AssessorsPanel
+            config={assessment}
+            onChange={onAssessmentChange}
+            useCases={useCases}
+            criteria={criteria}
+          />
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Spreadsheet (CSV)</CardTitle>
+              <p className="text-sm text-slate-600">
+                One row per use case: Name, Description, Visible and a 1–10 column per criterion. Export a template, fill it
+                in, then import it here.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Button variant="outline" onClick={() => downloadCsv("ai-use-cases.csv", toUseCaseCsv(useCases, criteria))}>
+                <Download className="mr-2 h-4 w-4" /> Export use cases (.csv)
+              </Button>
+              <CsvImport<UseCaseRow>
+                label="Import use cases (.csv)"
+                fields={csvFields}
+                readRows={readCsvRows}
+                previewColumns={["Name", "Visible", ...criteria.map((c) => c.label)]}
+                previewCells={(r) => [r.name, r.visible ? "yes" : "no", ...criteria.map((c) => r.scores[c.key])]}
+                actions={[
+                  {
+                    label: "Replace use cases",
+                    onApply: replaceFromCsv,
+                    blockedReason: (n) => (n < MIN_USE_CASES ? `Needs at least ${MIN_USE_CASES} valid rows.` : null),
+                    note: (n) =>
+                      `${n > MAX_USE_CASES ? `Only the first ${MAX_USE_CASES} rows will be used. ` : ""}` +
+                      "Board positions, roadmap schedules and pairwise judgments of the current use cases are cleared.",
+                  },
+                  {
+                    label: "Add to existing",
+                    onApply: appendFromCsv,
+                    blockedReason: () =>
+                      useCases.length >= MAX_USE_CASES ? `Already at the maximum of ${MAX_USE_CASES} use cases.` : null,
+                    note: (n) =>
+                      n > MAX_USE_CASES - useCases.length
+                        ? `Only ${MAX_USE_CASES - useCases.length} more fit; extra rows are dropped.`
+                        : null,
+                  },
+                ]}
+              />
+            </CardContent>
+          </Card>
+
           <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
             {/* Left: Data Entry */}
             <Card className="order-2 lg:order-1">
               <CardHeader>
                 <CardTitle>Use Cases</CardTitle>
-                <div className="flex gap-2">
-                  <Button
-                    variant="outline"
-                    size="icon"
-                    onClick={removeUseCase}
-                    disabled={useCases.length <= 2}
-                  >
-                    –
-                  </Button>
+                <div className="flex items-center gap-2">
                   <Button
                     variant="outline"
                     size="icon"
                     onClick={addUseCase}
-                    disabled={useCases.length >= 10}
+                    disabled={useCases.length >= MAX_USE_CASES}
+                    aria-label="Add use case"
                   >
                     +
                   </Button>
+                  <span className="text-xs text-slate-500">Drag tabs to reorder.</span>
                 </div>
               </CardHeader>
               <CardContent className="space-y-4">
-                <Tabs value={String(selected)} onValueChange={(v) => setSelected(Number(v))}>
+                <Tabs value={String(active?.id)} onValueChange={(v) => setSelectedId(Number(v))}>
                   <TabsList className="flex w-full flex-wrap justify-center gap-2 mb-10" style={{minHeight: "18rem" }}>
-                    {useCases.map((u, i) => (
+                    {useCases.map((u) => (
                           <TabsTrigger
                             key={u.id}
-                            value={String(i)}
+                            value={String(u.id)}
+                            draggable
+                            onDragStart={(e) => {
+                              setDragId(u.id);
+                              e.dataTransfer.effectAllowed = "move";
+                            }}
+                            onDragOver={(e) => e.preventDefault()}
+                            onDrop={(e) => {
+                              e.preventDefault();
+                              if (dragId !== null) moveUseCase(dragId, u.id);
+                              setDragId(null);
+                            }}
+                            onDragEnd={() => setDragId(null)}
                             className={`
                               whitespace-normal break-words text-center px-3 py-2 max-w-[10rem]
-                              border-2 
-                              ${selected === i 
+                              border-2 cursor-grab
+                              ${active?.id === u.id 
                                 ? "bg-opacity-20" 
                                 : "bg-transparent"}
+                              ${dragId === u.id ? "opacity-50" : ""}
                             `}
                             style={{
-                              color: COLORS[i % COLORS.length],                                // hard text color
-                              borderColor: selected === i ? COLORS[i % COLORS.length] : "transparent",
-                              backgroundColor: selected === i ? `${COLORS[i % COLORS.length]}33` : "transparent", 
+                              color: COLORS[u.id % COLORS.length],                                // hard text color
+                              borderColor: active?.id === u.id ? COLORS[u.id % COLORS.length] : "transparent",
+                              backgroundColor: active?.id === u.id ? `${COLORS[u.id % COLORS.length]}33` : "transparent", 
                               // ^ 33 = ~20% opacity hex for softer fill
                             }}
                           >
-                            {u.name || `Use Case ${i + 1}`}
+                            <GripVertical className="mr-1 h-3 w-3 shrink-0 opacity-40" />
+                            {u.name || `Use Case ${u.id + 1}`}
+                            {duplicateNames.has(u.id) && (
+                              <AlertTriangle className="ml-1 h-3 w-3 shrink-0 text-amber-600" aria-label="Duplicate name" />
+                            )}
                           </TabsTrigger>
                     ))}
                   </TabsList>
                   {useCases.map((u, i) => (
-                    <TabsContent key={u.id} value={String(i)} className="space-y-4">
+                    <TabsContent key={u.id} value={String(u.id)} className="space-y-4">
                       <div className="grid grid-cols-1 gap-y-6 gap-x-4 md:grid-cols-2 md:items-start">
                         <div className="space-y-2">
                           <Label htmlFor={`name-${i}`}>Name</Label>
                           <Input
                             id={`name-${i}`}
                             value={u.name}
-                            onChange={(e) => updateMeta(i, "name", e.target.value)}
-                            placeholder={`Use Case ${i + 1}`}
+                            onChange={(e) => updateMeta(u.id, "name", e.target.value)}
+                            placeholder={`Use Case ${u.id + 1}`}
                             maxLength={30}
+                            aria-invalid={duplicateNames.has(u.id)}
+                            className={duplicateNames.has(u.id) ? "border-amber-500" : ""}
                           />
+                          {duplicateNames.has(u.id) && (
+                            <p className="flex items-center gap-1 text-xs text-amber-700">
+                              <AlertTriangle className="h-3 w-3 shrink-0" />
+                              Another use case has the same name. Rename one so the board, legend and exports can tell
+                              them apart.
+                            </p>
+                          )}
                         </div>
                         <div className="flex flex-col space-y-2">
                           <Label className="text-sm font-medium">Visible in Comparison</Label>
                           <Button
                             type="button"
                             variant={u.visible ? "secondary" : "outline"}
-                            onClick={() => toggleVisible(i)}
+                            onClick={() => toggleVisible(u.id)}
                             className="w-full"
                           >
                             {u.visible ? <Eye className="mr-2 h-4 w-4" /> : <EyeOff className="mr-2 h-4 w-4" />}
@@ -483,13 +554,53 @@ const legendPayload = useCases.map((u, i) => ({
                       </div>
                       <div className="space-y-2">
                         <Label htmlFor={`desc-${i}`}>Short Description (2–3 sentences)</Label>
-                        <Textarea id={`desc-${i}`} value={u.description} onChange={(e) => updateMeta(i, "description", e.target.value)} rows={3} />
+                        <Textarea id={`desc-${i}`} value={u.description} onChange={(e) => updateMeta(u.id, "description", e.target.value)} rows={3} />
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => duplicateUseCase(u)}
+                          disabled={useCases.length >= MAX_USE_CASES}
+                        >
+                          <Copy className="mr-2 h-4 w-4" /> Duplicate
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => removeUseCase(u)}
+                          disabled={useCases.length <= MIN_USE_CASES}
+                        >
+                          <Trash2 className="mr-2 h-4 w-4" /> Delete
+                        </Button>
                       </div>
 
                       <Separator />
 
+                      {assessment.assessors.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Label htmlFor={`scoring-as-${i}`}>Scoring as</Label>
+                          <select
+                            id={`scoring-as-${i}`}
+                            value={activeAssessor?.id ?? ""}
+                            onChange={(e) => setScoringAs(e.target.value || null)}
+                            className="h-8 rounded-md border border-input bg-white px-2 text-sm"
+                          >
+                            <option value="">Consensus (read-only)</option>
+                            {assessment.assessors.map((a) => (
+                              <option key={a.id} value={a.id}>
+                                {assessorName(a)}
+                              </option>
+                            ))}
+                          </select>
+                          {consensusView && (
+                            <span className="text-xs text-slate-500">Pick an assessor to enter their scores.</span>
+                          )}
+                        </div>
+                      )}
+
                       {/* <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-                        {CRITERIA.map(({ key, label }) => (
+                        {criteria.map(({ key, label }) => (
                           <div key={key} className="rounded-2xl border p-3">
                             <div className="mb-2 flex items-center justify-between gap-3">
                               <Label htmlFor={`${key}-${i}`} className="text-sm font-medium">{label}</Label>
@@ -500,7 +611,7 @@ const legendPayload = useCases.map((u, i) => ({
                                 min={1}
                                 max={10}
                                 value={u.scores[key]}
-                                onChange={(e) => updateScore(i, key, Number(e.target.value))}
+                                onChange={(e) => updateScore(u.id, key, Number(e.target.value))}
                               />
                             </div>
                             <input
@@ -508,7 +619,7 @@ const legendPayload = useCases.map((u, i) => ({
                               min={1}
                               max={10}
                               value={u.scores[key]}
-                              onChange={(e) => updateScore(i, key, Number(e.target.value))}
+                              onChange={(e) => updateScore(u.id, key, Number(e.target.value))}
                               className="w-full"
                             />
                           </div>
@@ -522,8 +633,9 @@ const legendPayload = useCases.map((u, i) => ({
                             {group}
                           </h3>
                           <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-                          {CRITERIA.filter((c) => c.group === group).map(({ key, label, descriptions }) => {
+                          {criteria.filter((c) => c.group === group).map(({ key, label, descriptions }) => {
                             const isSelected = selectedDimension === key;
+                            const spread = criterionSpread(u, key, assessment);
 
                             return (
                               <div
@@ -548,8 +660,9 @@ const legendPayload = useCases.map((u, i) => ({
                                     className="h-8 w-20"
                                     min={1}
                                     max={10}
-                                    value={u.scores[key]}
-                                    onChange={(e) => updateScore(i, key, Number(e.target.value))}
+                                    value={shownScore(u, key)}
+                                    disabled={consensusView}
+                                    onChange={(e) => updateScore(u.id, key, Number(e.target.value))}
                                     // prevent clicks on input from toggling description
                                     onClick={(e) => e.stopPropagation()}
                                   />
@@ -559,12 +672,77 @@ const legendPayload = useCases.map((u, i) => ({
                                   type="range"
                                   min={1}
                                   max={10}
-                                  value={u.scores[key]}
-                                  onChange={(e) => updateScore(i, key, Number(e.target.value))}
+                                  step={consensusView ? 0.1 : 1}
+                                  value={shownScore(u, key)}
+                                  disabled={consensusView}
+                                  onChange={(e) => updateScore(u.id, key, Number(e.target.value))}
                                   onClick={(e) => e.stopPropagation()} // prevent slider clicks from toggling
                                   className="w-full accent-indigo-600"
                                 />
 
+                                {spread && (
+                                  <div
+                                    className={`mt-1 flex items-center gap-1 text-xs ${
+                                      spread.highVariance ? "font-medium text-red-700" : "text-slate-500"
+                                    }`}
+                                    title={assessment.assessors
+                                      .map((a, ai) => `${assessorName(a)}: ${spread.values[ai]}`)
+                                      .join("\n")}
+                                  >
+                                    {spread.highVariance && <AlertTriangle className="h-3 w-3" />}
+                                    Assessors {spread.min}–{spread.max} · σ {spread.sd.toFixed(1)}
+                                    {spread.highVariance && " — discuss"}
+                                  </div>
+                                )}
+
+                                <div className="mt-1 flex items-center gap-1 text-xs text-slate-600" onClick={(e) => e.stopPropagation()}>
+                                  {u.ranges?.[key] ? (
+                                    <>
+                                      <span title="Optional low and high estimate; the score above is the most likely value">
+                                        Low–high
+                                      </span>
+                                      <Input
+                                        type="number"
+                                        min={1}
+                                        max={10}
+                                        aria-label={`${label} low estimate`}
+                                        className="h-6 w-14 px-1 text-xs"
+                                        value={u.ranges[key].low}
+                                        onChange={(e) => updateRange(u.id, key, { ...u.ranges![key], low: clamp01to10(Number(e.target.value)) })}
+                                      />
+                                      <span>–</span>
+                                      <Input
+                                        type="number"
+                                        min={1}
+                                        max={10}
+                                        aria-label={`${label} high estimate`}
+                                        className="h-6 w-14 px-1 text-xs"
+                                        value={u.ranges[key].high}
+                                        onChange={(e) => updateRange(u.id, key, { ...u.ranges![key], high: clamp01to10(Number(e.target.value)) })}
+                                      />
+                                      <button
+                                        type="button"
+                                        onClick={() => updateRange(u.id, key, null)}
+                                        className="text-slate-400 hover:text-slate-700"
+                                        aria-label={`Remove ${label} range`}
+                                      >
+                                        <X className="h-3 w-3" />
+                                      </button>
+                                    </>
+                                  ) : (
+                                    <button
+                                      type="button"
+                                      onClick={() => {
+                                        const likely = Math.round(u.scores[key]);
+                                        updateRange(u.id, key, { low: Math.max(1, likely - 2), high: Math.min(10, likely + 2) });
+                                      }}
+                                      className="text-indigo-600 hover:underline"
+                                    >
+                                      + uncertainty range
+                                    </button>
+                                  )}
+                                </div>
+
                                 {/* Animated description panel */}
                                 <div
                                   className={`overflow-hidden transition-all duration-300 ease-in-out ${
@@ -613,14 +791,14 @@ const legendPayload = useCases.map((u, i) => ({
                         <PolarAngleAxis dataKey="criterion" />
                         <PolarRadiusAxis domain={[0, 10]} tickCount={6} />
                         {useCases.map(
-                          (u, i) =>
+                          (u) =>
                             u.visible && (
                               <Radar
                                 key={u.id}
-                                name={u.name || `Use Case ${i + 1}`}
-                                dataKey={u.name || `Use Case ${i + 1}`}
-                                stroke={COLORS[i % COLORS.length]}
-                                fill={COLORS[i % COLORS.length]}
+                                name={u.name || `Use Case ${u.id + 1}`}
+                                dataKey={seriesKey(u)}
+                                stroke={COLORS[u.id % COLORS.length]}
+                                fill={COLORS[u.id % COLORS.length]}
                                 fillOpacity={0.2}
                               />
                             )
@@ -631,7 +809,7 @@ const legendPayload = useCases.map((u, i) => ({
 
                     {/* Custom legend in DOM flow with flex-wrap for better wrapping */}
                     <div className="flex flex-wrap justify-center gap-x-6 gap-y-2 mt-4">
-                      {useCases.map((u, i) =>
+                      {useCases.map((u) =>
                         u.visible && (
                           <div
                             key={u.id}
@@ -639,7 +817,7 @@ const legendPayload = useCases.map((u, i) => ({
                           >
                             <span
                               className="block h-3 w-3 rounded-sm shrink-0"
-                              style={{ backgroundColor: COLORS[i % COLORS.length] }}
+                              style={{ backgroundColor: COLORS[u.id % COLORS.length] }}
                             />
                             <span className="text-sm break-words">{u.name || `Use Case ${u.id + 1}`}</span>
                           </div>
@@ -655,7 +833,7 @@ const legendPayload = useCases.map((u, i) => ({
                   <CardTitle>
                     <span className="inline-flex items-center gap-2">
                       <BarChart2 className="h-5 w-5" />
-                      {active?.name || `Use Case ${selected + 1}`} — Detail
+                      {active?.name || `Use Case ${active?.id + 1}`} — Detail
                     </span>
                   </CardTitle>
                   {/* Download button OUTSIDE the ref area */}
@@ -663,8 +841,7 @@ const legendPayload = useCases.map((u, i) => ({
                     <Button
                     variant="outline"
                     onClick={() => {
-                      const r = ranks.find(r => r.name === active.name);
-                      downloadDetailPNG(active, r?.rank ?? 0);
+                      downloadDetailPNG(active, activeRank?.rank ?? 0);
                     }}
                     className="no-print"
                   >
@@ -682,12 +859,28 @@ const legendPayload = useCases.map((u, i) => ({
                   </div>
                   <div className="h-[360px] w-full">
                     <ResponsiveContainer width="100%" height="100%">
-                      <RadarChart data={toRadarData(active)} outerRadius={130}>
+                      <RadarChart data={toRadarData(active, criteria, assessment)} outerRadius={130}>
                         <PolarGrid />
                         <PolarAngleAxis dataKey="criterion" />
                         <PolarRadiusAxis domain={[0, 10]} tickCount={6} />
+                        {assessment.assessors.length >= 2 && (
+                          <Radar
+                            name="Assessor range"
+                            dataKey="max"
+                            shape={<RangeBand fill={COLORS[active?.id % COLORS.length]} />}
+                            isAnimationActive={false}
+                          />
+                        )}
+                        {active?.ranges && (
+                          <Radar
+                            name="Low–high estimate"
+                            dataKey="high"
+                            shape={<RangeBand fill={COLORS[active.id % COLORS.length]} lowKey="low" dashed />}
+                            isAnimationActive={false}
+                          />
+                        )}
                         <Radar
-                          name={active?.name || `Use Case ${selected + 1}`}
+                          name={active?.name || `Use Case ${active?.id + 1}`}
                           dataKey="value"
                           stroke={COLORS[active?.id % COLORS.length]}   // hard color
                           fill={COLORS[active?.id % COLORS.length]}     // same base
@@ -701,10 +894,14 @@ const legendPayload = useCases.map((u, i) => ({
                     <p className="mt-4 text-sm text-slate-600">
                       Ranking:{" "}
                       <strong>
-                        #{ranks.find(r => r.name === active.name)?.rank ?? "?"}
+                        #{activeRank?.rank ?? "?"}
                       </strong>{" "}
-                      (Avg score:{" "}
-                      {ranks.find(r => r.name === active.name)?.avg ?? "?"})
+                      {activeRank && (
+                        <>
+                          (Score: {formatScore(activeRank.score)} · Impact {formatScore(activeRank.impact)} · Feasibility{" "}
+                          {formatScore(activeRank.feasibility)})
+                        </>
+                      )}
                     </p>
                   )}
                 </CardContent>
@@ -714,7 +911,7 @@ const legendPayload = useCases.map((u, i) => ({
 
               <Card>
                 <CardHeader>
-                  <CardTitle>Ranking (by average score)</CardTitle>
+                  <CardTitle>Ranking ({methodLabel})</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="overflow-x-auto">
@@ -723,15 +920,30 @@ const legendPayload = useCases.map((u, i) => ({
                         <tr className="border-b text-slate-600">
                           <th className="py-2 pr-4">#</th>
                           <th className="py-2 pr-4">Use Case</th>
-                          <th className="py-2">Avg</th>
+                          <th className="py-2 pr-4">Score</th>
+                          <th className="py-2 pr-4">Impact</th>
+                          <th className="py-2 pr-4">Feasibility</th>
+                          <th className="py-2" title="Feasibility adjusted for department readiness (Step 1)">Adj. Feas.</th>
                         </tr>
                       </thead>
                       <tbody>
-                        {ranks.map((r, idx) => (
-                          <tr key={idx} className="border-b last:border-0">
+                        {ranks.map((r) => (
+                          <tr key={r.id} className="border-b last:border-0">
                             <td className="py-2 pr-4 font-mono">{r.rank}</td>
                             <td className="py-2 pr-4">{r.name}</td>
-                            <td className="py-2">{r.avg}</td>
+                            <td className="py-2 pr-4 font-mono font-semibold">{formatScore(r.score)}</td>
+                            <td className="py-2 pr-4 font-mono text-slate-600">{formatScore(r.impact)}</td>
+                            <td className="py-2 pr-4 font-mono text-slate-600">{formatScore(r.feasibility)}</td>
+                            <td className="py-2 font-mono text-slate-600">
+                              {formatScore(
+                                adjustedFeasibility(
+                                  useCases.find((u) => u.id === r.id)!,
+                                  criteria,
+                                  readinessScores,
+                                  readinessAdjustment
+                                )
+                              )}
+                            </td>
                           </tr>
                         ))}
                       </tbody>
@@ -742,6 +954,8 @@ const legendPayload = useCases.map((u, i) => ({
             </div>
           </div>
 
+          <SensitivityPanel useCases={useCases} criteria={criteria} scoring={scoring} />
+          <UncertaintyPanel useCases={useCases} criteria={criteria} scoring={scoring} />
         </div>
       </div>
     </TooltipProvider>
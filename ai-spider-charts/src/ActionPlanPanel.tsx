@@ -0,0 +1,327 @@
+import * as React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, FileText, Plus, RotateCcw, Trash2, Wand2 } from "lucide-react";
+import { READINESS, type ReadinessKey, type ReadinessScores } from "./Scoring_Readiness";
+import {
+  DEFAULT_PLAYBOOK,
+  dimensionLabel,
+  entryMatches,
+  generatePlan,
+  newPlanId,
+  toActionPlanMarkdown,
+  type ActionItem,
+  type ActionPlanConfig,
+  type PlaybookEntry,
+} from "@/lib/actionPlan";
+
+const selectClass = "h-8 rounded-md border border-input bg-white px-2 text-sm";
+
+/**
+ * Turns low readiness scores into a prioritised improvement plan using an
+ * editable playbook of actions, owners and time frames.
+ */
+export default function ActionPlanPanel({
+  scores,
+  config,
+  onChange,
+}: {
+  scores: ReadinessScores;
+  config: ActionPlanConfig;
+  onChange: (next: ActionPlanConfig) => void;
+}) {
+  const [playbookOpen, setPlaybookOpen] = React.useState(false);
+  const { items, playbook } = config;
+  const matching = playbook.filter((e) => entryMatches(e, scores)).length;
+
+  function generate() {
+    if (items.length && !window.confirm("Replace the current plan, including your edits, with a freshly generated one?")) return;
+    onChange({ ...config, items: generatePlan(scores, playbook) });
+  }
+
+  const setItems = (next: ActionItem[]) => onChange({ ...config, items: next });
+  const updateItem = (id: string, patch: Partial<ActionItem>) =>
+    setItems(items.map((i) => (i.id === id ? { ...i, ...patch } : i)));
+
+  function move(index: number, by: -1 | 1) {
+    const next = [...items];
+    [next[index], next[index + by]] = [next[index + by], next[index]];
+    setItems(next);
+  }
+
+  function addItem() {
+    setItems([
+      ...items,
+      { id: newPlanId("a"), entryId: null, dimensions: [], action: "", owner: "", timeframe: "", done: false },
+    ]);
+  }
+
+  function downloadMarkdown() {
+    const blob = new Blob([toActionPlanMarkdown(items, scores)], { type: "text/markdown;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "ai-readiness-action-plan.md";
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Improvement Plan</CardTitle>
+        <p className="text-sm text-slate-600">
+          Generate concrete actions for the weakest dimensions from the playbook, then adjust owners, time frames and
+          order to fit your department.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button onClick={generate}>
+            <Wand2 className="mr-2 h-4 w-4" /> Generate from scores
+          </Button>
+          <Button variant="outline" onClick={addItem}>
+            <Plus className="mr-2 h-4 w-4" /> Add action
+          </Button>
+          <Button variant="outline" onClick={downloadMarkdown} disabled={items.length === 0}>
+            <FileText className="mr-2 h-4 w-4" /> Export plan (.md)
+          </Button>
+          <span className="text-xs text-slate-500">
+            {matching} playbook entr{matching === 1 ? "y matches" : "ies match"} the current scores
+          </span>
+        </div>
+
+        {items.length === 0 ? (
+          <div className="rounded-xl border bg-slate-50 p-6 text-center text-sm text-slate-500">
+            No actions yet. Generate a plan from the current scores or add actions by hand.
+          </div>
+        ) : (
+          <ol className="space-y-3">
+            {items.map((item, index) => (
+              <li key={item.id} className={`rounded-xl border p-3 ${item.done ? "bg-slate-50 opacity-70" : ""}`}>
+                <div className="flex items-start gap-3">
+                  <span className="mt-1 w-6 shrink-0 text-right font-mono text-sm font-semibold text-slate-500">
+                    {index + 1}.
+                  </span>
+                  <div className="min-w-0 flex-1 space-y-2">
+                    <Textarea
+                      value={item.action}
+                      onChange={(e) => updateItem(item.id, { action: e.target.value })}
+                      placeholder="What needs to happen"
+                      className={`min-h-[3rem] text-sm ${item.done ? "line-through" : ""}`}
+                      aria-label="Action"
+                    />
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <Input
+                        value={item.owner}
+                        onChange={(e) => updateItem(item.id, { owner: e.target.value })}
+                        placeholder="Owner"
+                        className="h-8 w-48"
+                        aria-label="Owner"
+                      />
+                      <Input
+                        value={item.timeframe}
+                        onChange={(e) => updateItem(item.id, { timeframe: e.target.value })}
+                        placeholder="Time frame"
+                        className="h-8 w-32"
+                        aria-label="Time frame"
+                      />
+                      <DimensionChips
+                        selected={item.dimensions}
+                        scores={scores}
+                        onChange={(dimensions) => updateItem(item.id, { dimensions })}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 flex-col items-end gap-1">
+                    <label className="inline-flex items-center gap-1 text-xs text-slate-600">
+                      <input
+                        type="checkbox"
+                        checked={item.done}
+                        onChange={(e) => updateItem(item.id, { done: e.target.checked })}
+                        className="accent-indigo-600"
+                      />
+                      Done
+                    </label>
+                    <div className="flex">
+                      <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => move(index, -1)} aria-label="Move up">
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={index === items.length - 1}
+                        onClick={() => move(index, 1)}
+                        aria-label="Move down"
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setItems(items.filter((i) => i.id !== item.id))}
+                        aria-label="Remove action"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <div className="rounded-xl border">
+          <button
+            type="button"
+            onClick={() => setPlaybookOpen((o) => !o)}
+            className="flex w-full items-center justify-between px-3 py-2 text-sm font-medium text-slate-700"
+            aria-expanded={playbookOpen}
+          >
+            Playbook ({playbook.length} entries)
+            {playbookOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          </button>
+          {playbookOpen && (
+            <PlaybookEditor playbook={playbook} scores={scores} onChange={(next) => onChange({ ...config, playbook: next })} />
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function DimensionChips({
+  selected,
+  scores,
+  onChange,
+}: {
+  selected: ReadinessKey[];
+  scores: ReadinessScores;
+  onChange: (next: ReadinessKey[]) => void;
+}) {
+  const available = READINESS.filter((r) => !selected.includes(r.key));
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {selected.map((key) => (
+        <button
+          key={key}
+          type="button"
+          onClick={() => onChange(selected.filter((k) => k !== key))}
+          className="rounded-full border border-slate-300 bg-slate-100 px-2 py-0.5 text-xs text-slate-700 hover:bg-slate-200"
+          title="Remove dimension"
+        >
+          {dimensionLabel(key)} ({scores[key]}) ×
+        </button>
+      ))}
+      {available.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && onChange(READINESS.map((r) => r.key).filter((k) => k === e.target.value || selected.includes(k)))}
+          className={`${selectClass} h-7 text-xs`}
+          aria-label="Add dimension"
+        >
+          <option value="">+ dimension</option>
+          {available.map((r) => (
+            <option key={r.key} value={r.key}>
+              {r.label} ({scores[r.key]}/5)
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
+
+function PlaybookEditor({
+  playbook,
+  scores,
+  onChange,
+}: {
+  playbook: PlaybookEntry[];
+  scores: ReadinessScores;
+  onChange: (next: PlaybookEntry[]) => void;
+}) {
+  const update = (id: string, patch: Partial<PlaybookEntry>) =>
+    onChange(playbook.map((e) => (e.id === id ? { ...e, ...patch } : e)));
+
+  return (
+    <div className="space-y-3 border-t p-3">
+      <p className="text-xs text-slate-500">
+        An entry applies when every dimension it lists scores at or below its threshold. Entries on several dimensions
+        cover combinations and take the place of the single-dimension entries they include.
+      </p>
+      {playbook.map((e) => (
+        <div key={e.id} className={`space-y-2 rounded-lg border p-3 ${entryMatches(e, scores) ? "border-amber-300 bg-amber-50/50" : ""}`}>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-slate-500">When</span>
+            <DimensionChips selected={e.dimensions} scores={scores} onChange={(dimensions) => update(e.id, { dimensions })} />
+            <span className="text-slate-500">{e.dimensions.length > 1 ? "all score" : "scores"} ≤</span>
+            <select
+              value={e.threshold}
+              onChange={(ev) => update(e.id, { threshold: Number(ev.target.value) })}
+              className={selectClass}
+              aria-label="Threshold"
+            >
+              {[1, 2, 3, 4].map((n) => (
+                <option key={n} value={n}>
+                  {n}
+                </option>
+              ))}
+            </select>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="ml-auto"
+              onClick={() => onChange(playbook.filter((x) => x.id !== e.id))}
+              aria-label="Remove playbook entry"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <Textarea
+            value={e.action}
+            onChange={(ev) => update(e.id, { action: ev.target.value })}
+            placeholder="Action"
+            className="min-h-[3rem] text-sm"
+            aria-label="Playbook action"
+          />
+          <div className="flex flex-wrap gap-2">
+            <Input
+              value={e.owner}
+              onChange={(ev) => update(e.id, { owner: ev.target.value })}
+              placeholder="Owner"
+              className="h-8 w-48"
+              aria-label="Playbook owner"
+            />
+            <Input
+              value={e.timeframe}
+              onChange={(ev) => update(e.id, { timeframe: ev.target.value })}
+              placeholder="Time frame"
+              className="h-8 w-32"
+              aria-label="Playbook time frame"
+            />
+          </div>
+        </div>
+      ))}
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          onClick={() =>
+            onChange([
+              ...playbook,
+              { id: newPlanId("p"), dimensions: [], threshold: 2, action: "", owner: "", timeframe: "" },
+            ])
+          }
+        >
+          <Plus className="mr-2 h-4 w-4" /> Add entry
+        </Button>
+        <Button variant="ghost" onClick={() => onChange(DEFAULT_PLAYBOOK)}>
+          <RotateCcw className="mr-2 h-4 w-4" /> Reset playbook
+        </Button>
+      </div>
+    </div>
+  );
+}
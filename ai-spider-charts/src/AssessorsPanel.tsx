@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertTriangle, ChevronDown, ChevronRight, Plus, Trash2 } from "lucide-react";
+import type { Criterion, UseCase } from "./AISpiderCharts";
+import {
+  CONSENSUS_METHODS,
+  assessorName,
+  criterionSpread,
+  type AssessmentConfig,
+} from "@/lib/assessors";
+
+/**
+ * Workshop assessors: add, rename and remove the people scoring, choose how
+ * their scores are combined and list where they disagree most.
+ */
+export default function AssessorsPanel({
+  config,
+  onChange,
+  useCases,
+  criteria,
+}: {
+  config: AssessmentConfig;
+  onChange: (next: AssessmentConfig) => void;
+  useCases: UseCase[];
+  criteria: Criterion[];
+}) {
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const method = CONSENSUS_METHODS.find((m) => m.value === config.method) ?? CONSENSUS_METHODS[0];
+
+  // Every (use case, criterion) pair above the spread threshold, widest first
+  const disagreements = useCases
+    .flatMap((u) =>
+      criteria.flatMap((c) => {
+        const spread = criterionSpread(u, c.key, config);
+        return spread?.highVariance ? [{ u, c, spread }] : [];
+      })
+    )
+    .sort((a, b) => b.spread.sd - a.spread.sd);
+
+  function addAssessor() {
+    const name = newName.trim() || `Assessor ${config.assessors.length + 1}`;
+    onChange({ ...config, assessors: [...config.assessors, { id: `a-${Date.now().toString(36)}`, name }] });
+    setNewName("");
+  }
+
+  function removeAssessor(id: string, name: string) {
+    if (window.confirm(`Remove ${name}? Their scores will be deleted from every use case.`)) {
+      onChange({ ...config, assessors: config.assessors.filter((a) => a.id !== id) });
+    }
+  }
+
+  const rename = (id: string, name: string) =>
+    onChange({ ...config, assessors: config.assessors.map((a) => (a.id === id ? { ...a, name } : a)) });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Assessors &amp; Consensus</CardTitle>
+          <p className="text-sm text-slate-600">
+            {config.assessors.length === 0
+              ? "Single score set — add assessors to score separately."
+              : `${config.assessors.length} assessor${config.assessors.length === 1 ? "" : "s"} · ${method.label} consensus`}
+            {disagreements.length > 0 && ` · ${disagreements.length} high-variance scores`}
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setOpen((o) => !o)}>
+          {open ? <ChevronDown className="mr-2 h-4 w-4" /> : <ChevronRight className="mr-2 h-4 w-4" />}
+          {open ? "Hide assessors" : "Manage assessors"}
+        </Button>
+      </CardHeader>
+
+      {open && (
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            {config.assessors.map((a) => (
+              <div key={a.id} className="flex items-center gap-2">
+                <Input
+                  value={a.name}
+                  onChange={(e) => rename(a.id, e.target.value)}
+                  className="h-8"
+                  maxLength={40}
+                  aria-label="Assessor name"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeAssessor(a.id, assessorName(a))}
+                  aria-label={`Remove ${assessorName(a)}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <form
+              className="flex items-center gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                addAssessor();
+              }}
+            >
+              <Input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder={`Assessor ${config.assessors.length + 1}`}
+                className="h-8"
+                maxLength={40}
+                aria-label="New assessor name"
+              />
+              <Button type="submit" variant="outline">
+                <Plus className="mr-2 h-4 w-4" /> Add assessor
+              </Button>
+            </form>
+            {config.assessors.length === 1 && (
+              <p className="text-xs text-slate-500">Each new assessor starts from the current consensus scores.</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-slate-700">Consensus</div>
+            <div className="flex flex-wrap gap-2">
+              {CONSENSUS_METHODS.map((m) => (
+                <Button
+                  key={m.value}
+                  variant={config.method === m.value ? "default" : "outline"}
+                  onClick={() => onChange({ ...config, method: m.value })}
+                >
+                  {m.label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-600">{method.help}</p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Label htmlFor="spread-threshold" className="w-44 shrink-0 text-sm">
+              Flag spread above (σ)
+            </Label>
+            <input
+              id="spread-threshold"
+              type="range"
+              min={0.5}
+              max={5}
+              step={0.5}
+              value={config.spreadThreshold}
+              onChange={(e) => onChange({ ...config, spreadThreshold: Number(e.target.value) })}
+              className="flex-1 accent-indigo-600"
+            />
+            <span className="w-10 text-right font-mono text-sm text-slate-600">{config.spreadThreshold.toFixed(1)}</span>
+          </div>
+
+          {config.assessors.length >= 2 && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium text-slate-700">Discuss first</div>
+              {disagreements.length === 0 ? (
+                <p className="text-sm text-slate-500">No criterion is above the spread threshold.</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {disagreements.map(({ u, c, spread }) => (
+                    <li key={`${u.id}-${c.key}`} className="flex items-center gap-2 text-amber-800">
+                      <AlertTriangle className="h-4 w-4 shrink-0" />
+                      <span>
+                        {u.name || `Use Case ${u.id + 1}`} — {c.label}: {spread.min}–{spread.max} (σ{" "}
+                        {spread.sd.toFixed(1)})
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
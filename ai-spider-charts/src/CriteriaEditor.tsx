@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { CRITERIA, type Criterion, type CriterionGroup } from "@/lib/useCases";
+import { MIN_CRITERIA } from "@/lib/project";
+
+const GROUPS: CriterionGroup[] = ["Impact", "Feasibility"];
+
+const groupTone = (group: CriterionGroup) =>
+  group === "Impact" ? "bg-amber-50 border-amber-700" : "bg-sky-50 border-sky-700";
+
+/**
+ * Per-project rubric editor: add, remove and reorder criteria and edit each
+ * one's label, group and 0/5/10 anchor text. Collapsed to a summary by default.
+ */
+export default function CriteriaEditor({
+  criteria,
+  onChange,
+}: {
+  criteria: Criterion[];
+  onChange: (next: Criterion[]) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const update = (key: string, patch: Partial<Criterion>) =>
+    onChange(criteria.map((c) => (c.key === key ? { ...c, ...patch } : c)));
+
+  const updateAnchor = (c: Criterion, level: 0 | 5 | 10, text: string) =>
+    update(c.key, { descriptions: { ...c.descriptions, [level]: text } });
+
+  function move(idx: number, delta: -1 | 1) {
+    const target = idx + delta;
+    if (target < 0 || target >= criteria.length) return;
+    const next = [...criteria];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    onChange(next);
+  }
+
+  function add(group: CriterionGroup) {
+    const key = `c-${Date.now().toString(36)}`;
+    onChange([...criteria, { key, label: "New criterion", group, descriptions: { 0: "", 5: "", 10: "" } }]);
+    setExpanded(key);
+  }
+
+  function remove(c: Criterion) {
+    if (criteria.length <= MIN_CRITERIA) return;
+    if (window.confirm(`Remove "${c.label}"? Its scores will be deleted from every use case.`)) {
+      onChange(criteria.filter((x) => x.key !== c.key));
+    }
+  }
+
+  function resetToDefault() {
+    if (window.confirm("Replace this project's criteria with the default Impact/Feasibility rubric?")) {
+      onChange(CRITERIA);
+    }
+  }
+
+  const emptyGroups = GROUPS.filter((g) => !criteria.some((c) => c.group === g));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Evaluation Criteria</CardTitle>
+          <p className="text-sm text-slate-600">
+            {criteria.length} criteria — {criteria.filter((c) => c.group === "Impact").length} Impact,{" "}
+            {criteria.filter((c) => c.group === "Feasibility").length} Feasibility.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setOpen((o) => !o)}>
+          {open ? <ChevronDown className="mr-2 h-4 w-4" /> : <ChevronRight className="mr-2 h-4 w-4" />}
+          {open ? "Done editing" : "Edit criteria"}
+        </Button>
+      </CardHeader>
+
+      {open && (
+        <CardContent className="space-y-3">
+          {emptyGroups.length > 0 && (
+            <p className="rounded-md border border-amber-300 bg-amber-50 p-2 text-sm text-amber-800">
+              No {emptyGroups.join(" or ")} criteria — the Impact/Feasibility view needs at least one of each.
+            </p>
+          )}
+
+          {criteria.map((c, idx) => (
+            <div key={c.key} className={`rounded-2xl border p-3 space-y-3 ${groupTone(c.group)}`}>
+              <div className="flex flex-wrap items-center gap-2">
+                <div className="flex flex-col">
+                  <Button variant="ghost" size="icon" className="h-5 w-7" onClick={() => move(idx, -1)} disabled={idx === 0} aria-label="Move up">
+                    <ArrowUp className="h-3 w-3" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-5 w-7" onClick={() => move(idx, 1)} disabled={idx === criteria.length - 1} aria-label="Move down">
+                    <ArrowDown className="h-3 w-3" />
+                  </Button>
+                </div>
+                <Input
+                  value={c.label}
+                  onChange={(e) => update(c.key, { label: e.target.value })}
+                  className="h-8 flex-1 min-w-[10rem] bg-white"
+                  maxLength={40}
+                  aria-label="Criterion label"
+                />
+                <select
+                  value={c.group}
+                  onChange={(e) => update(c.key, { group: e.target.value as CriterionGroup })}
+                  className="h-8 rounded-md border border-input bg-white px-2 text-sm"
+                  aria-label="Criterion group"
+                >
+                  {GROUPS.map((g) => (
+                    <option key={g} value={g}>
+                      {g}
+                    </option>
+                  ))}
+                </select>
+                <Button variant="ghost" size="sm" onClick={() => setExpanded(expanded === c.key ? null : c.key)}>
+                  Anchors
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => remove(c)}
+                  disabled={criteria.length <= MIN_CRITERIA}
+                  aria-label={`Remove ${c.label}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {expanded === c.key && (
+                <div className="grid grid-cols-1 gap-2 md:grid-cols-3">
+                  {([0, 5, 10] as const).map((level) => (
+                    <div key={level} className="space-y-1">
+                      <Label htmlFor={`anchor-${c.key}-${level}`} className="text-xs">
+                        Score {level}
+                      </Label>
+                      <Textarea
+                        id={`anchor-${c.key}-${level}`}
+                        value={c.descriptions[level]}
+                        onChange={(e) => updateAnchor(c, level, e.target.value)}
+                        rows={2}
+                        className="bg-white text-xs"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div className="flex flex-wrap gap-2">
+            {GROUPS.map((g) => (
+              <Button key={g} variant="outline" onClick={() => add(g)}>
+                <Plus className="mr-2 h-4 w-4" /> Add {g} criterion
+              </Button>
+            ))}
+            <Button variant="ghost" onClick={resetToDefault}>
+              <RotateCcw className="mr-2 h-4 w-4" /> Reset to default rubric
+            </Button>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,189 @@
+import { useMemo, useState, type ChangeEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Upload, X } from "lucide-react";
+import { guessMapping, parseCsv, type ColumnMapping, type CsvField, type RowResult } from "@/lib/csv";
+
+const selectClass = "h-8 rounded-md border border-input bg-white px-2 text-sm";
+
+export type CsvImportAction<T> = {
+  label: string;
+  onApply: (values: T[]) => void;
+  /** Why the action can't run with this many valid rows, or null when it can. */
+  blockedReason?: (validCount: number) => string | null;
+  /** Caveat shown next to a runnable action (e.g. rows that won't fit). */
+  note?: (validCount: number) => string | null;
+};
+
+/**
+ * CSV import with a review step: pick a file, map its columns onto the
+ * fields, check per-row errors in the preview, then apply. Rows with errors
+ * are skipped.
+ */
+export default function CsvImport<T>({
+  label,
+  fields,
+  readRows,
+  previewColumns,
+  previewCells,
+  actions,
+}: {
+  label: string;
+  fields: CsvField[];
+  readRows: (rows: string[][], mapping: ColumnMapping) => RowResult<T>[];
+  previewColumns: string[];
+  previewCells: (value: T) => (string | number)[];
+  actions: CsvImportAction<T>[];
+}) {
+  const [file, setFile] = useState<{ name: string; headers: string[]; rows: string[][] } | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  function handleFile(evt: ChangeEvent<HTMLInputElement>) {
+    const picked = evt.target.files?.[0];
+    evt.currentTarget.value = ""; // allow re-picking the same file
+    if (!picked) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const [headers, ...rows] = parseCsv(String(reader.result));
+      if (!headers || rows.length === 0) {
+        setFile(null);
+        setFileError(`${picked.name} has no data rows under a header row.`);
+        return;
+      }
+      setFileError(null);
+      setFile({ name: picked.name, headers, rows });
+      setMapping(guessMapping(fields, headers));
+    };
+    reader.onerror = () => setFileError(`Could not read ${picked.name}.`);
+    reader.readAsText(picked);
+  }
+
+  const results = useMemo(() => (file ? readRows(file.rows, mapping) : []), [file, mapping, readRows]);
+  const valid = results.flatMap((r) => (r.value ? [r.value] : []));
+  const missingRequired = fields.filter((f) => f.required && mapping[f.key] == null);
+
+  function apply(action: CsvImportAction<T>) {
+    action.onApply(valid);
+    setFile(null);
+  }
+
+  return (
+    <div className="space-y-3">
+      <label className="inline-flex cursor-pointer items-center justify-center rounded-md border bg-white px-4 py-2 text-sm font-medium hover:bg-slate-50">
+        <Upload className="mr-2 h-4 w-4" />
+        {label}
+        <input type="file" accept=".csv,text/csv" className="sr-only" onChange={handleFile} />
+      </label>
+
+      {fileError && <p className="text-sm text-red-700">{fileError}</p>}
+
+      {file && (
+        <div className="space-y-4 rounded-xl border bg-slate-50 p-4">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-medium text-slate-700">
+              {file.name} — {file.rows.length} row{file.rows.length === 1 ? "" : "s"}
+            </div>
+            <Button variant="ghost" size="icon" onClick={() => setFile(null)} aria-label="Cancel import">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-slate-700">Columns</div>
+            <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+              {fields.map((f) => (
+                <label key={f.key} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">
+                    {f.label}
+                    {f.required && <span className="text-red-600"> *</span>}
+                  </span>
+                  <select
+                    value={mapping[f.key] ?? ""}
+                    onChange={(e) =>
+                      setMapping((m) => ({ ...m, [f.key]: e.target.value === "" ? null : Number(e.target.value) }))
+                    }
+                    className={selectClass}
+                  >
+                    <option value="">— not imported —</option>
+                    {file.headers.map((h, idx) => (
+                      <option key={idx} value={idx}>
+                        {h || `Column ${idx + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {missingRequired.length > 0 ? (
+            <p className="text-sm text-red-700">Map a column to {missingRequired.map((f) => f.label).join(" and ")} to continue.</p>
+          ) : (
+            <>
+              <div className="max-h-80 overflow-auto rounded-md border bg-white">
+                <table className="min-w-full text-left text-xs">
+                  <thead className="sticky top-0 bg-white">
+                    <tr className="border-b text-slate-600">
+                      <th className="px-2 py-1">Row</th>
+                      {previewColumns.map((c) => (
+                        <th key={c} className="px-2 py-1">
+                          {c}
+                        </th>
+                      ))}
+                      <th className="px-2 py-1">Issues</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.map((r) => (
+                      <tr key={r.line} className={`border-b last:border-0 ${r.value ? "" : "bg-red-50 text-red-800"}`}>
+                        <td className="px-2 py-1 font-mono">{r.line}</td>
+                        {r.value
+                          ? previewCells(r.value).map((cell, i) => (
+                              <td key={i} className="max-w-[12rem] truncate px-2 py-1">
+                                {cell}
+                              </td>
+                            ))
+                          : previewColumns.map((c) => <td key={c} className="px-2 py-1 text-slate-400">—</td>)}
+                        <td className="px-2 py-1">
+                          {[...r.errors, ...r.warnings].map((msg) => (
+                            <div key={msg} className={r.errors.includes(msg) ? "" : "text-amber-700"}>
+                              {msg}
+                            </div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-slate-600">
+                  {valid.length} of {results.length} rows ready
+                  {valid.length < results.length && (
+                    <span className="text-red-700">
+                      {" "}
+                      <AlertTriangle className="inline h-3 w-3" /> rows with errors are skipped
+                    </span>
+                  )}
+                </span>
+                {actions.map((action) => {
+                  const blocked = action.blockedReason?.(valid.length) ?? null;
+                  const hint = blocked ?? action.note?.(valid.length) ?? null;
+                  return (
+                    <span key={action.label} className="inline-flex items-center gap-2">
+                      <Button onClick={() => apply(action)} disabled={valid.length === 0 || blocked !== null}>
+                        {action.label}
+                      </Button>
+                      {hint && <span className="text-xs text-slate-500">{hint}</span>}
+                    </span>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { AlertTriangle } from "lucide-react";
+import { COLORS, type UseCase } from "@/lib/useCases";
+import {
+  dependencyLayers,
+  prerequisitesOf,
+  wouldCreateCycle,
+  type DependencyIssue,
+} from "@/lib/dependencies";
+import { HORIZON_KEYS, type HorizonKey } from "@/lib/roadmap";
+
+const NODE_W = 170;
+const NODE_H = 40;
+const COL_GAP = 70;
+const ROW_GAP = 16;
+
+const displayName = (u: UseCase) => u.name || `Use Case ${u.id + 1}`;
+
+/**
+ * Prerequisite links as a left-to-right graph (prerequisites first), plus the
+ * editor for declaring them. Links in a cycle are red, links with a
+ * sequencing problem amber.
+ */
+export default function DependencyGraph({
+  useCases,
+  buckets,
+  cycles,
+  issues,
+  issueMessages,
+  onPrerequisitesChange,
+}: {
+  useCases: UseCase[];
+  buckets: Record<HorizonKey, UseCase[]>;
+  cycles: number[][];
+  issues: DependencyIssue[];
+  issueMessages: string[];
+  onPrerequisitesChange: (id: number, prerequisites: number[]) => void;
+}) {
+  const layers = dependencyLayers(useCases);
+  const columns: UseCase[][] = [];
+  useCases.forEach((u) => (columns[layers[u.id]] ??= []).push(u));
+  const tallest = Math.max(1, ...columns.map((c) => c.length));
+  const width = columns.length * NODE_W + (columns.length - 1) * COL_GAP + 20;
+  const height = tallest * (NODE_H + ROW_GAP) + 10;
+
+  const position = new Map<number, { x: number; y: number }>();
+  columns.forEach((col, c) =>
+    col.forEach((u, r) => {
+      const offset = ((tallest - col.length) * (NODE_H + ROW_GAP)) / 2;
+      position.set(u.id, { x: 10 + c * (NODE_W + COL_GAP), y: 5 + offset + r * (NODE_H + ROW_GAP) });
+    })
+  );
+
+  const inCycle = (a: number, b: number) => cycles.some((c) => c.includes(a) && c.includes(b));
+  const hasIssue = (id: number, p: number) => issues.some((i) => i.id === id && i.prerequisite === p);
+  const horizonOf = (id: number) => HORIZON_KEYS.find((h) => buckets[h].some((u) => u.id === id));
+  const links = useCases.flatMap((u) => prerequisitesOf(u).map((p) => ({ from: p, to: u.id })));
+
+  const toggle = (u: UseCase, p: number) => {
+    const current = prerequisitesOf(u);
+    onPrerequisitesChange(u.id, current.includes(p) ? current.filter((x) => x !== p) : [...current, p]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {cycles.length > 0 && (
+        <div className="flex gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          <div>
+            {cycles.map((c) => (
+              <div key={c.join("-")}>
+                Circular dependency:{" "}
+                {c.map((id) => displayName(useCases.find((u) => u.id === id)!)).join(" → ")} →{" "}
+                {displayName(useCases.find((u) => u.id === c[0])!)}. None of them can go first; remove one of these links.
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      {issueMessages.length > 0 && (
+        <div className="flex gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+          <AlertTriangle className="h-4 w-4 shrink-0 text-amber-600" />
+          <ul className="space-y-0.5">
+            {issueMessages.map((m) => (
+              <li key={m}>{m}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {links.length === 0 ? (
+        <div className="rounded-xl border bg-slate-50 p-6 text-center text-sm text-slate-500">
+          No dependencies yet. Mark below which use cases each one needs first.
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border bg-white p-2">
+          <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} role="img" aria-label="Dependency graph">
+            <defs>
+              {["#64748b", "#d97706", "#dc2626"].map((color) => (
+                <marker
+                  key={color}
+                  id={`arrow-${color.slice(1)}`}
+                  viewBox="0 0 10 10"
+                  refX="9"
+                  refY="5"
+                  markerWidth="7"
+                  markerHeight="7"
+                  orient="auto-start-reverse"
+                >
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+                </marker>
+              ))}
+            </defs>
+            {links.map(({ from, to }) => {
+              const a = position.get(from)!;
+              const b = position.get(to)!;
+              const x1 = a.x + NODE_W;
+              const y1 = a.y + NODE_H / 2;
+              const x2 = b.x;
+              const y2 = b.y + NODE_H / 2;
+              const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+              const color = inCycle(from, to) ? "#dc2626" : hasIssue(to, from) ? "#d97706" : "#64748b";
+              return (
+                <path
+                  key={`${from}-${to}`}
+                  d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                  fill="none"
+                  stroke={color}
+                  strokeWidth={1.5}
+                  strokeDasharray={inCycle(from, to) ? "4 3" : undefined}
+                  markerEnd={`url(#arrow-${color.slice(1)})`}
+                />
+              );
+            })}
+            {useCases.map((u) => {
+              const { x, y } = position.get(u.id)!;
+              const color = COLORS[u.id % COLORS.length];
+              const horizon = horizonOf(u.id);
+              const name = displayName(u);
+              return (
+                <g key={u.id}>
+                  <title>{name}</title>
+                  <rect x={x} y={y} width={NODE_W} height={NODE_H} rx={8} fill={`${color}22`} stroke={color} strokeWidth={2} />
+                  <text x={x + 10} y={y + 17} fontSize={12} fontWeight={600} fill={color}>
+                    {u.id + 1}. {name.length > 20 ? `${name.slice(0, 19)}…` : name}
+                  </text>
+                  <text x={x + 10} y={y + 32} fontSize={10} fill="#64748b">
+                    {horizon ? `Horizon ${horizon.slice(1)}` : "Not on a horizon"}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-slate-700">Needs first</div>
+        {useCases.map((u) => (
+          <div key={u.id} className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="w-48 shrink-0 truncate font-medium" style={{ color: COLORS[u.id % COLORS.length] }}>
+              {u.id + 1}. {displayName(u)}
+            </span>
+            {useCases
+              .filter((p) => p.id !== u.id)
+              .map((p) => {
+                const active = prerequisitesOf(u).includes(p.id);
+                const blocked = !active && wouldCreateCycle(useCases, u.id, p.id);
+                return (
+                  <button
+                    key={p.id}
+                    type="button"
+                    disabled={blocked}
+                    onClick={() => toggle(u, p.id)}
+                    title={
+                      blocked
+                        ? `${displayName(p)} already depends on ${displayName(u)}; this link would create a cycle`
+                        : `${displayName(u)} ${active ? "depends" : "does not depend"} on ${displayName(p)}`
+                    }
+                    className={`rounded-full border px-2 py-0.5 text-xs ${
+                      active ? "font-semibold" : "text-slate-500"
+                    } ${blocked ? "cursor-not-allowed opacity-40" : "hover:bg-slate-50"}`}
+                    style={
+                      active
+                        ? {
+                            color: COLORS[p.id % COLORS.length],
+                            borderColor: COLORS[p.id % COLORS.length],
+                            backgroundColor: `${COLORS[p.id % COLORS.length]}22`,
+                          }
+                        : undefined
+                    }
+                  >
+                    {p.id + 1}
+                  </button>
+                );
+              })}
+          </div>
+        ))}
+        <p className="text-xs text-slate-500">
+          Click a number to mark that use case as a prerequisite. Links that would close a loop are disabled.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { History, Redo2, Undo2 } from "lucide-react";
+import type { HistoryEntry } from "@/hooks/useHistory";
+
+const NON_TEXT_INPUTS = ["checkbox", "radio", "range", "button", "submit", "reset", "color", "file", "image"];
+
+// Text fields (including number, date and similar inputs) keep the browser's own undo for typing
+function isTextField(el: EventTarget | null) {
+  if (!(el instanceof HTMLElement)) return false;
+  if (el.isContentEditable || el.tagName === "TEXTAREA") return true;
+  return el.tagName === "INPUT" && !NON_TEXT_INPUTS.includes((el as HTMLInputElement).type);
+}
+
+/**
+ * Undo/redo toolbar with a collapsible list of recorded changes.
+ * Also binds Ctrl/⌘+Z (undo) and Ctrl/⌘+Shift+Z or Ctrl+Y (redo).
+ */
+export default function HistoryControls<T>({
+  past,
+  future,
+  onUndo,
+  onRedo,
+}: {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+  onUndo: () => void;
+  onRedo: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextField(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onUndo, onRedo]);
+
+  const lastPast = past[past.length - 1];
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button variant="outline" size="icon" onClick={onUndo} disabled={!lastPast} aria-label="Undo">
+            <Undo2 className="h-4 w-4" />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>{lastPast ? `Undo: ${lastPast.label}` : "Nothing to undo"} (Ctrl+Z)</TooltipContent>
+      </Tooltip>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button variant="outline" size="icon" onClick={onRedo} disabled={!future[0]} aria-label="Redo">
+            <Redo2 className="h-4 w-4" />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>{future[0] ? `Redo: ${future[0].label}` : "Nothing to redo"} (Ctrl+Shift+Z)</TooltipContent>
+      </Tooltip>
+      <Button
+        variant={open ? "secondary" : "ghost"}
+        size="icon"
+        onClick={() => setOpen((o) => !o)}
+        aria-label="Show history"
+        aria-expanded={open}
+      >
+        <History className="h-4 w-4" />
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 top-11 z-20 w-80 rounded-xl border bg-white p-3 shadow-lg">
+          <div className="mb-2 text-sm font-medium text-slate-700">History</div>
+          {past.length === 0 && future.length === 0 && (
+            <div className="text-sm text-slate-500">No changes yet.</div>
+          )}
+          <ol className="max-h-72 space-y-1 overflow-y-auto text-sm">
+            {[...future].reverse().map((e) => (
+              <li key={`f-${e.key}-${e.at}`} className="rounded px-2 py-1 text-slate-400 line-through">
+                {e.label}
+              </li>
+            ))}
+            {[...past].reverse().map((e, i) => (
+              <li
+                key={`p-${e.key}-${e.at}`}
+                className={`rounded px-2 py-1 ${i === 0 ? "bg-slate-100 font-medium text-slate-800" : "text-slate-600"}`}
+              >
+                {e.label}
+                <span className="ml-2 text-xs text-slate-400">{new Date(e.at).toLocaleTimeString()}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, RotateCcw, Trash2 } from "lucide-react";
+import type { Criterion, UseCase } from "./AISpiderCharts";
+import {
+  RULE_OPERATORS,
+  defaultHorizonConfig,
+  newRuleId,
+  positionToScore,
+  ruleMatches,
+  scoreToPosition,
+  type HorizonConfig,
+  type HorizonRule,
+} from "@/lib/horizonRules";
+import { HORIZON_KEYS, type HorizonKey } from "@/lib/roadmap";
+
+const selectClass = "h-8 rounded-md border border-input bg-white px-2 text-sm";
+
+const THRESHOLDS: { key: "impact" | "feasibility" | "h2From" | "h1From"; label: string; help: string }[] = [
+  { key: "impact", label: "Impact threshold", help: "Splits the quadrants; use cases below it stay off the roadmap." },
+  { key: "feasibility", label: "Feasibility threshold", help: "Splits the quadrants left and right." },
+  { key: "h2From", label: "Horizon 2 from", help: "Feasibility below this is Horizon 3." },
+  { key: "h1From", label: "Horizon 1 from", help: "Feasibility from here on is Horizon 1." },
+];
+
+/**
+ * Board thresholds (in score units, 1–10) and the ordered rules that override
+ * the horizon a use case's board position gives it.
+ */
+export default function HorizonRulesEditor({
+  useCases,
+  criteria,
+  config,
+  onChange,
+}: {
+  useCases: UseCase[];
+  criteria: Criterion[];
+  config: HorizonConfig;
+  onChange: (next: HorizonConfig) => void;
+}) {
+  const subjects = [
+    { value: "group:Impact", label: "Impact score" },
+    { value: "group:Feasibility", label: "Feasibility score" },
+    ...criteria.map((c) => ({ value: c.key, label: c.label })),
+  ];
+
+  function updateThreshold(key: (typeof THRESHOLDS)[number]["key"], score: number) {
+    if (Number.isNaN(score)) return;
+    const next = { ...config, [key]: scoreToPosition(score) };
+    // Keep the horizon cut-offs in order
+    if (key === "h2From") next.h1From = Math.max(next.h1From, next.h2From);
+    if (key === "h1From") next.h2From = Math.min(next.h2From, next.h1From);
+    onChange(next);
+  }
+
+  const updateRule = (id: string, patch: Partial<HorizonRule>) =>
+    onChange({ ...config, rules: config.rules.map((r) => (r.id === id ? { ...r, ...patch } : r)) });
+
+  function addRule() {
+    // Starts as the classic "risky projects don't go first" rule
+    const risk = criteria.find((c) => c.key === "noRisk") ?? criteria.find((c) => c.group === "Feasibility");
+    const rule: HorizonRule = {
+      id: newRuleId(),
+      subject: risk?.key ?? "group:Feasibility",
+      operator: "<",
+      value: 4,
+      action: "never",
+      horizon: "H1",
+    };
+    onChange({ ...config, rules: [...config.rules, rule] });
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        {THRESHOLDS.map((t) => (
+          <div key={t.key} className="space-y-1">
+            <div className="flex items-center gap-3">
+              <Label htmlFor={`threshold-${t.key}`} className="w-40 shrink-0 text-sm">
+                {t.label}
+              </Label>
+              <Input
+                id={`threshold-${t.key}`}
+                type="number"
+                min={1}
+                max={10}
+                step={0.5}
+                value={Number(positionToScore(config[t.key]).toFixed(1))}
+                onChange={(e) => updateThreshold(t.key, Number(e.target.value))}
+                className="h-8 w-20"
+              />
+            </div>
+            <p className="text-xs text-slate-500">{t.help}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-slate-700">Rules</div>
+        {config.rules.length === 0 && (
+          <div className="text-sm text-slate-500">No rules — the board position alone decides the horizon.</div>
+        )}
+        {config.rules.map((rule) => {
+          const matches = useCases.filter((u) => ruleMatches(rule, u, criteria)).length;
+          return (
+            <div key={rule.id} className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-slate-500">If</span>
+              <select
+                value={rule.subject}
+                onChange={(e) => updateRule(rule.id, { subject: e.target.value })}
+                className={selectClass}
+                aria-label="Criterion"
+              >
+                {subjects.map((s) => (
+                  <option key={s.value} value={s.value}>
+                    {s.label}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={rule.operator}
+                onChange={(e) => updateRule(rule.id, { operator: e.target.value as HorizonRule["operator"] })}
+                className={selectClass}
+                aria-label="Comparison"
+              >
+                {RULE_OPERATORS.map((op) => (
+                  <option key={op} value={op}>
+                    {op}
+                  </option>
+                ))}
+              </select>
+              <Input
+                type="number"
+                min={1}
+                max={10}
+                step={0.5}
+                value={rule.value}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (!Number.isNaN(value)) updateRule(rule.id, { value: Math.max(1, Math.min(10, value)) });
+                }}
+                className="h-8 w-20"
+                aria-label="Score"
+              />
+              <span className="text-slate-500">then</span>
+              <select
+                value={rule.action}
+                onChange={(e) => updateRule(rule.id, { action: e.target.value as HorizonRule["action"] })}
+                className={selectClass}
+                aria-label="Action"
+              >
+                <option value="never">never</option>
+                <option value="always">always</option>
+              </select>
+              <select
+                value={rule.horizon}
+                onChange={(e) => updateRule(rule.id, { horizon: e.target.value as HorizonKey })}
+                className={selectClass}
+                aria-label="Horizon"
+              >
+                {HORIZON_KEYS.map((h) => (
+                  <option key={h} value={h}>
+                    Horizon {h.slice(1)}
+                  </option>
+                ))}
+              </select>
+              <span className="text-xs text-slate-500">
+                matches {matches} use case{matches === 1 ? "" : "s"}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange({ ...config, rules: config.rules.filter((r) => r.id !== rule.id) })}
+                aria-label="Remove rule"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          );
+        })}
+        <p className="text-xs text-slate-500">
+          Rules compare Step 2 scores. The first matching “always” rule wins; a “never” rule moves the use case to the
+          next later horizon that is allowed (or an earlier one if none is).
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={addRule}>
+          <Plus className="mr-2 h-4 w-4" /> Add rule
+        </Button>
+        <Button variant="ghost" onClick={() => onChange(defaultHorizonConfig())}>
+          <RotateCcw className="mr-2 h-4 w-4" /> Reset thresholds and rules
+        </Button>
+      </div>
+    </div>
+  );
+}
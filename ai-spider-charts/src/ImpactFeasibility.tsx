@@ -3,11 +3,23 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { UseCase, CRITERIA } from "./AISpiderCharts";
+import type { Criterion, UseCase } from "./AISpiderCharts";
 import { READINESS, ReadinessScores } from "./Scoring_Readiness";
-import { Download, Upload } from "lucide-react";
-
-type Placements = Record<number, { x: number; y: number }> & { __activeId?: number }; // x: feasibility (0..1), y: impact (0..1)
+import { AlertTriangle, ChevronDown, ChevronRight, Download, Eye, EyeOff, FileText, Scale, Upload, Wand2 } from "lucide-react";
+import type { Placements } from "@/lib/project";
+import { DEVIATION_THRESHOLD, distance, horizonBuckets as splitHorizons, suggestedPlacements } from "@/lib/placement";
+import { formatScore, groupScore } from "@/lib/scoring";
+import { adjustUseCase, adjustedFeasibility, type ReadinessAdjustment } from "@/lib/readinessAdjustment";
+import { groupIntervals, hasRanges } from "@/lib/uncertainty";
+import ReadinessAdjustmentEditor from "./ReadinessAdjustmentEditor";
+import RoadmapTimeline from "./RoadmapTimeline";
+import DependencyGraph from "./DependencyGraph";
+import { describeIssue, findCycles, sequencingIssues, setPrerequisites } from "@/lib/dependencies";
+import type { RoadmapConfig } from "@/lib/roadmap";
+import { assignHorizons, type HorizonAssignment, type HorizonConfig } from "@/lib/horizonRules";
+import HorizonRulesEditor from "./HorizonRulesEditor";
+import { EvidenceRef } from "./ReadinessEvidenceEditor";
+import { EVIDENCE_EXPECTED_FROM, evidenceFor } from "@/lib/readinessEvidence";
 
 const COLORS = [
   "#e6194B", // Red
@@ -59,23 +71,99 @@ function useDragPlace(boardRef: React.RefObject<HTMLDivElement>, onPos: (x: numb
 
 export default function ImpactFeasibility({
   useCases,
+  criteria,
   placements,
   setPlacements,
   onDownloadPDF,
   onExportAll,
   onImportAll,
   readinessScores,
+  readinessAdjustment,
+  onReadinessAdjustmentChange,
+  roadmap,
+  setRoadmap,
+  horizons,
+  setHorizons,
+  setUseCases,
+  workspaceId,
 }: {
   useCases: UseCase[];
+  criteria: Criterion[];
   placements: Placements;
   setPlacements: React.Dispatch<React.SetStateAction<Placements>>;
   onDownloadPDF?: () => void;
   onExportAll?: () => void;
-  onImportAll?: (data: any) => void;
+  onImportAll?: (data: unknown) => void;
   readinessScores: ReadinessScores;
+  readinessAdjustment: ReadinessAdjustment;
+  onReadinessAdjustmentChange: (next: ReadinessAdjustment) => void;
+  roadmap: RoadmapConfig;
+  setRoadmap: React.Dispatch<React.SetStateAction<RoadmapConfig>>;
+  horizons: HorizonConfig;
+  setHorizons: React.Dispatch<React.SetStateAction<HorizonConfig>>;
+  setUseCases: React.Dispatch<React.SetStateAction<UseCase[]>>;
+  workspaceId: string;
 }) {
   const boardRef = React.useRef<HTMLDivElement>(null);
   const [selectedDetail, setSelectedDetail] = React.useState<UseCase | null>(null);
+  const [showSuggested, setShowSuggested] = React.useState(true);
+  const [suggestAdjusted, setSuggestAdjusted] = React.useState(false);
+  const [showWhiskers, setShowWhiskers] = React.useState(true);
+  const [rulesOpen, setRulesOpen] = React.useState(false);
+  const anyRanges = hasRanges(useCases);
+
+  // 90% Impact/Feasibility intervals for use cases with low–high score ranges
+  const whiskers = React.useMemo(() => {
+    const uncertain = useCases.filter((u) => Object.keys(u.ranges ?? {}).length > 0);
+    const intervals = groupIntervals(uncertain, criteria);
+    return uncertain.map((u) => ({
+      u,
+      impact: intervals[u.id].impact,
+      feasibility: intervals[u.id].feasibility,
+      likelyImpact: groupScore(u, criteria, "Impact"),
+      likelyFeasibility: groupScore(u, criteria, "Feasibility"),
+    }));
+  }, [useCases, criteria]);
+
+  // Raw vs readiness-adjusted Feasibility group score per use case
+  const feasibilityById = React.useMemo(
+    () =>
+      Object.fromEntries(
+        useCases.map((u) => [
+          u.id,
+          {
+            raw: groupScore(u, criteria, "Feasibility"),
+            adjusted: adjustedFeasibility(u, criteria, readinessScores, readinessAdjustment),
+          },
+        ])
+      ),
+    [useCases, criteria, readinessScores, readinessAdjustment]
+  );
+
+  // Where each token "should" sit given its Step 2 group scores (optionally readiness-adjusted)
+  const suggested = React.useMemo(
+    () =>
+      suggestedPlacements(
+        suggestAdjusted
+          ? useCases.map((u) => adjustUseCase(u, criteria, readinessScores, readinessAdjustment))
+          : useCases,
+        criteria
+      ),
+    [useCases, criteria, suggestAdjusted, readinessScores, readinessAdjustment]
+  );
+
+  // Manually placed tokens that stray far from their score-based position
+  const deviating = React.useMemo(
+    () =>
+      new Set(
+        useCases
+          .filter((u) => placements[u.id] && distance(placements[u.id], suggested[u.id]) > DEVIATION_THRESHOLD)
+          .map((u) => u.id)
+      ),
+    [useCases, placements, suggested]
+  );
+
+  const autoPlaceAll = () => setPlacements((prev) => ({ ...prev, ...suggested }));
 
   const { start } = useDragPlace(boardRef, (x, y) => {
     setPlacements((prev) => {
@@ -90,18 +178,30 @@ export default function ImpactFeasibility({
   // Default any missing placement to center
   const getPos = (id: number) => placements[id] ?? { x: 0.5, y: 0.5 };
 
-  // --- 3 Horizons split (only high-impact items) ---
-  const horizonBuckets = React.useMemo(() => {
-    const hi = useCases
-      .filter((u) => (placements[u.id]?.y ?? 0.5) >= 0.5) // high impact
-      .map((u) => ({ u, p: getPos(u.id) }));
-
-    const H1 = hi.filter(({ p }) => p.x >= 2 / 3).map(({ u }) => u); // high feasibility
-    const H2 = hi.filter(({ p }) => p.x >= 1 / 3 && p.x < 2 / 3).map(({ u }) => u);
-    const H3 = hi.filter(({ p }) => p.x < 1 / 3).map(({ u }) => u);
+  // --- 3 Horizons split (only high-impact items), with the rules that moved each one ---
+  const horizonBuckets = React.useMemo(
+    () => splitHorizons(useCases, placements, criteria, horizons),
+    [useCases, placements, criteria, horizons]
+  );
+  const assignments = React.useMemo(
+    () => assignHorizons(useCases, criteria, placements, horizons),
+    [useCases, criteria, placements, horizons]
+  );
+  const placementReasons = Object.fromEntries(useCases.map((u) => [u.id, assignments[u.id].reasons]));
+  const ruledOff = useCases.filter((u) => assignments[u.id].board && !assignments[u.id].horizon);
+
+  // Prerequisite checks against the horizons and the timeline
+  const cycles = React.useMemo(() => findCycles(useCases), [useCases]);
+  const dependencyIssues = React.useMemo(
+    () => sequencingIssues(useCases, horizonBuckets, roadmap),
+    [useCases, horizonBuckets, roadmap]
+  );
+  const issueMessages = dependencyIssues.map((i) => describeIssue(i, useCases, horizonBuckets, roadmap));
+  const dependencyWarnings: Record<number, string[]> = {};
+  dependencyIssues.forEach((issue, k) => (dependencyWarnings[issue.id] ??= []).push(issueMessages[k]));
 
-    return { H1, H2, H3 };
-  }, [useCases, placements]);
+  const updatePrerequisites = (id: number, prerequisites: number[]) =>
+    setUseCases((prev) => prev.map((u) => (u.id === id ? setPrerequisites(u, prerequisites) : u)));
 
   function handleImportJSON(evt: React.ChangeEvent<HTMLInputElement>) {
     const file = evt.target.files?.[0];
@@ -154,10 +254,41 @@ export default function ImpactFeasibility({
             <ol className="list-decimal pl-5 space-y-1">
                 <li>Each use case is a numbered token (1–8). Drag a token onto the grid.</li>
                 <li>Up = higher <span className="font-medium">Impact</span>. Right = higher <span className="font-medium">Feasibility</span>.</li>
-                <li>As you place tokens, the <span className="font-medium">3 Horizons</span> below fills in automatically.</li>
+                <li>As you place tokens, the <span className="font-medium">3 Horizons</span> below fills in automatically. Dashed lines mark the horizon boundaries; move them under <span className="font-medium">Thresholds &amp; Horizon Rules</span>.</li>
+                <li>Dashed circles show where the Step 2 scores would put each token. Use <span className="font-medium">Auto-place all</span> to start from them; a <AlertTriangle className="inline h-3 w-3 text-amber-600" /> marks tokens placed far from their scores.</li>
             </ol>
             </div>
 
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={autoPlaceAll}>
+              <Wand2 className="mr-2 h-4 w-4" /> Auto-place all
+            </Button>
+            <Button variant="ghost" onClick={() => setShowSuggested((s) => !s)}>
+              {showSuggested ? <EyeOff className="mr-2 h-4 w-4" /> : <Eye className="mr-2 h-4 w-4" />}
+              {showSuggested ? "Hide suggested positions" : "Show suggested positions"}
+            </Button>
+            <label className="inline-flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={suggestAdjusted}
+                onChange={(e) => setSuggestAdjusted(e.target.checked)}
+                className="accent-indigo-600"
+              />
+              Suggest using readiness-adjusted feasibility
+            </label>
+            {anyRanges && (
+              <label className="inline-flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={showWhiskers}
+                  onChange={(e) => setShowWhiskers(e.target.checked)}
+                  className="accent-indigo-600"
+                />
+                Show uncertainty whiskers
+              </label>
+            )}
+          </div>
+
           <div className="grid grid-cols-1 gap-4 lg:grid-cols-[1fr,320px]">
             {/* Board */}
             <div className="relative">
@@ -166,24 +297,71 @@ export default function ImpactFeasibility({
                 className="relative aspect-square w-full rounded-xl border border-slate-300 bg-white"
               >
 
-                {/* Quadrant coloring */}
-                <div className="absolute inset-0 grid grid-cols-2 grid-rows-2 rounded-xl overflow-hidden">
+                {/* Quadrant coloring, split at the configured thresholds */}
+                <div className="absolute inset-0 rounded-xl overflow-hidden">
                   {/* Top-left: High Impact, Low Feasibility */}
-                  <div className="bg-gradient-to-br from-amber-100/40 to-transparent" />
+                  <div
+                    className="absolute left-0 top-0 bg-gradient-to-br from-amber-100/40 to-transparent"
+                    style={{ width: `${horizons.feasibility * 100}%`, height: `${(1 - horizons.impact) * 100}%` }}
+                  />
                   {/* Top-right: High Impact, High Feasibility */}
-                  <div className="bg-gradient-to-bl from-emerald-100/40 to-transparent" />
+                  <div
+                    className="absolute right-0 top-0 bg-gradient-to-bl from-emerald-100/40 to-transparent"
+                    style={{ width: `${(1 - horizons.feasibility) * 100}%`, height: `${(1 - horizons.impact) * 100}%` }}
+                  />
                   {/* Bottom-left: Low Impact, Low Feasibility */}
-                  <div className="bg-gradient-to-tr from-rose-100/40 to-transparent" />
+                  <div
+                    className="absolute bottom-0 left-0 bg-gradient-to-tr from-rose-100/40 to-transparent"
+                    style={{ width: `${horizons.feasibility * 100}%`, height: `${horizons.impact * 100}%` }}
+                  />
                   {/* Bottom-right: Low Impact, High Feasibility */}
-                  <div className="bg-gradient-to-tl from-sky-100/40 to-transparent" />
+                  <div
+                    className="absolute bottom-0 right-0 bg-gradient-to-tl from-sky-100/40 to-transparent"
+                    style={{ width: `${(1 - horizons.feasibility) * 100}%`, height: `${horizons.impact * 100}%` }}
+                  />
                 </div>
 
                 {/* Axes */}
-                <div className="absolute left-1/2 top-0 h-full w-px -translate-x-1/2 bg-slate-400" />
-                <div className="absolute left-0 top-1/2 h-px w-full -translate-y-1/2 bg-slate-400" />
+                <div
+                  className="absolute top-0 h-full w-px -translate-x-1/2 bg-slate-400"
+                  style={{ left: `${horizons.feasibility * 100}%` }}
+                />
+                <div
+                  className="absolute left-0 h-px w-full translate-y-1/2 bg-slate-400"
+                  style={{ bottom: `${horizons.impact * 100}%` }}
+                />
+
+                {/* Horizon cut-offs across the roadmap (high-impact) part of the board */}
+                {[horizons.h2From, horizons.h1From].map((x, i) => (
+                  <div
+                    key={i}
+                    className="pointer-events-none absolute top-0 border-l border-dashed border-slate-400"
+                    style={{ left: `${x * 100}%`, height: `${(1 - horizons.impact) * 100}%` }}
+                  />
+                ))}
+                {(
+                  [
+                    ["H3", 0, horizons.h2From],
+                    ["H2", horizons.h2From, horizons.h1From],
+                    ["H1", horizons.h1From, 1],
+                  ] as const
+                )
+                  .filter(([, from, to]) => to > from)
+                  .map(([h, from, to]) => (
+                    <div
+                      key={h}
+                      className="pointer-events-none absolute -translate-x-1/2 text-[10px] font-semibold tracking-wider text-slate-400"
+                      style={{ left: `${((from + to) / 2) * 100}%`, bottom: `calc(${horizons.impact * 100}% + 4px)` }}
+                    >
+                      {h}
+                    </div>
+                  ))}
 
                 {/* Axis labels */}
-                <div className="absolute left-1/2 -translate-x-1/2 top-2 text-sm sm:text-base font-bold tracking-wider text-slate-700">
+                <div
+                  className="absolute -translate-x-1/2 top-2 text-sm sm:text-base font-bold tracking-wider text-slate-700"
+                  style={{ left: `${horizons.feasibility * 100}%` }}
+                >
                   IMPACT ↑
                 </div>
                 <div className="absolute right-2 bottom-2 text-sm sm:text-base font-bold tracking-wider text-slate-700">
@@ -229,6 +407,68 @@ export default function ImpactFeasibility({
                   </Tooltip>
                 </TooltipProvider>
 
+                {/* Suggested (score-based) positions and deviation lines */}
+                {showSuggested && (
+                  <>
+                    <svg className="pointer-events-none absolute inset-0 h-full w-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+                      {useCases
+                        .filter((u) => deviating.has(u.id))
+                        .map((u) => (
+                          <line
+                            key={u.id}
+                            x1={placements[u.id].x * 100}
+                            y1={(1 - placements[u.id].y) * 100}
+                            x2={suggested[u.id].x * 100}
+                            y2={(1 - suggested[u.id].y) * 100}
+                            stroke="#d97706"
+                            strokeWidth={0.4}
+                            strokeDasharray="1.5 1"
+                          />
+                        ))}
+                    </svg>
+                    {useCases.map((u) => (
+                      <span
+                        key={u.id}
+                        className="pointer-events-none absolute -translate-x-1/2 translate-y-1/2 rounded-full border-2 border-dashed px-2.5 py-0.5 text-xs font-semibold opacity-50"
+                        style={{
+                          left: `${suggested[u.id].x * 100}%`,
+                          bottom: `${suggested[u.id].y * 100}%`,
+                          color: COLORS[u.id % COLORS.length],
+                          borderColor: COLORS[u.id % COLORS.length],
+                        }}
+                      >
+                        {u.id + 1}
+                      </span>
+                    ))}
+                  </>
+                )}
+
+                {/* Uncertainty whiskers: the 90% Impact/Feasibility interval around each token, in score units */}
+                {showWhiskers && whiskers.length > 0 && (
+                  <svg className="pointer-events-none absolute inset-0 h-full w-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+                    {whiskers.map(({ u, impact, feasibility, likelyImpact, likelyFeasibility }) => {
+                      const pos = getPos(u.id);
+                      const cx = pos.x * 100;
+                      const cy = (1 - pos.y) * 100;
+                      const x1 = cx + ((feasibility.low - likelyFeasibility) / 9) * 100;
+                      const x2 = cx + ((feasibility.high - likelyFeasibility) / 9) * 100;
+                      const y1 = cy - ((impact.low - likelyImpact) / 9) * 100;
+                      const y2 = cy - ((impact.high - likelyImpact) / 9) * 100;
+                      const color = COLORS[u.id % COLORS.length];
+                      return (
+                        <g key={u.id} stroke={color} strokeWidth={0.4} opacity={0.8}>
+                          <line x1={x1} y1={cy} x2={x2} y2={cy} />
+                          <line x1={x1} y1={cy - 1.2} x2={x1} y2={cy + 1.2} />
+                          <line x1={x2} y1={cy - 1.2} x2={x2} y2={cy + 1.2} />
+                          <line x1={cx} y1={y1} x2={cx} y2={y2} />
+                          <line x1={cx - 1.2} y1={y1} x2={cx + 1.2} y2={y1} />
+                          <line x1={cx - 1.2} y1={y2} x2={cx + 1.2} y2={y2} />
+                        </g>
+                      );
+                    })}
+                  </svg>
+                )}
+
                 {/* Draggable tokens */}
                 {useCases.map((u) => {
                   const pos = getPos(u.id);
@@ -255,11 +495,23 @@ export default function ImpactFeasibility({
                         >
                           {u.id + 1}
                         </span>
+                        {deviating.has(u.id) && (
+                          <AlertTriangle className="absolute -right-2 -top-2 h-4 w-4 fill-amber-100 text-amber-600" />
+                        )}
                           </button>
                         </TooltipTrigger>
                         <TooltipContent className="text-sm max-w-xs">
                           <div className="font-medium mb-1">{u.name || `Use Case ${u.id + 1}`}</div>
                           <div className="text-slate-600">{u.description || "No description"}</div>
+                          <div className="mt-1 text-xs text-slate-500">
+                            Scores suggest Impact {formatScore(groupScore(u, criteria, "Impact"))}, Feasibility{" "}
+                            {formatScore(groupScore(u, criteria, "Feasibility"))}
+                          </div>
+                          {deviating.has(u.id) && (
+                            <div className="mt-1 text-xs font-medium text-amber-700">
+                              Placed far from its scores — ask the group to justify this position.
+                            </div>
+                          )}
                         </TooltipContent>
                       </Tooltip>
                     </TooltipProvider>
@@ -272,6 +524,7 @@ export default function ImpactFeasibility({
             <div className="rounded-xl border p-3 space-y-2">
             <div className="text-sm font-medium text-slate-700">Use Case Numbers</div>
             <Separator />
+            <div className="text-xs text-slate-500">F = Feasibility, raw → adjusted for department readiness</div>
             <div className="space-y-1">
               {useCases.map((u) => {
                 const isSelected = selectedDetail?.id === u.id;
@@ -305,6 +558,15 @@ export default function ImpactFeasibility({
                     >
                       {u.name || `Use Case ${u.id + 1}`}
                     </span>
+                    <span
+                      className="ml-auto shrink-0 font-mono text-xs text-slate-500"
+                      title="Feasibility: raw → readiness-adjusted"
+                    >
+                      F {formatScore(feasibilityById[u.id].raw)}→{formatScore(feasibilityById[u.id].adjusted)}
+                    </span>
+                    {deviating.has(u.id) && (
+                      <AlertTriangle className="h-4 w-4 shrink-0 text-amber-600" aria-label="Far from score-based position" />
+                    )}
                   </div>
                 );
               })}
@@ -317,7 +579,7 @@ export default function ImpactFeasibility({
                 </div>
                 <table className="min-w-full text-sm border">
                   <tbody>
-                    {CRITERIA.map(({ key, label, group, descriptions }) => (
+                    {criteria.map(({ key, label, group, descriptions }) => (
                       <tr
                         key={key}
                         className="border-b last:border-0"
@@ -363,7 +625,10 @@ export default function ImpactFeasibility({
               <div className="text-sm font-medium mb-2">Department Readiness Breakdown</div>
               <table className="min-w-full text-sm border">
                 <tbody>
-                  {READINESS.map((r) => (
+                  {READINESS.map((r) => {
+                    const { note, links } = evidenceFor(readinessScores, r.key);
+                    const unsupported = readinessScores[r.key] >= EVIDENCE_EXPECTED_FROM && links.length === 0;
+                    return (
                     <tr key={r.key} className="border-b last:border-0">
                       <td className="py-2 px-3 font-medium border-r text-slate-700">
                         {r.label}
@@ -372,20 +637,42 @@ export default function ImpactFeasibility({
                         <TooltipProvider delayDuration={500}>
                           <Tooltip>
                             <TooltipTrigger asChild>
-                              <span className="cursor-help font-semibold">
+                              <span className="cursor-help inline-flex items-center gap-1 font-semibold">
+                                {unsupported && <AlertTriangle className="h-3.5 w-3.5 text-amber-600" />}
                                 {readinessScores[r.key]}
                               </span>
                             </TooltipTrigger>
-                            <TooltipContent className="max-w-xs text-xs">
+                            <TooltipContent className="max-w-xs text-xs space-y-1">
                               <p><strong>1:</strong> {r.help.one}</p>
                               <p><strong>3:</strong> {r.help.three}</p>
                               <p><strong>5:</strong> {r.help.five}</p>
+                              {note.trim() && (
+                                <p className="border-t pt-1 whitespace-pre-line"><strong>Justification:</strong> {note}</p>
+                              )}
+                              {links.length > 0 && (
+                                <div className="border-t pt-1">
+                                  <strong>Evidence:</strong>
+                                  <ul className="mt-0.5 space-y-0.5">
+                                    {links.map((ref) => (
+                                      <li key={ref} className="flex">
+                                        <EvidenceRef value={ref} />
+                                      </li>
+                                    ))}
+                                  </ul>
+                                </div>
+                              )}
+                              {unsupported && (
+                                <p className="border-t pt-1 font-medium text-amber-700">
+                                  Scored {readinessScores[r.key]} without evidence.
+                                </p>
+                              )}
                             </TooltipContent>
                           </Tooltip>
                         </TooltipProvider>
                       </td>
                     </tr>
-                  ))}
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
@@ -394,6 +681,70 @@ export default function ImpactFeasibility({
         </CardContent>
       </Card>
 
+      {/* --- Thresholds and horizon rules --- */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Thresholds &amp; Horizon Rules</CardTitle>
+          <Button variant="ghost" size="sm" onClick={() => setRulesOpen((o) => !o)} aria-expanded={rulesOpen}>
+            {rulesOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          </Button>
+        </CardHeader>
+        {rulesOpen && (
+          <CardContent>
+            <p className="text-sm text-slate-600 mb-4">
+              Move the quadrant and horizon boundaries to match your organisation's appetite, and add rules that
+              overrule the board — for example, keep anything with a low risk score out of Horizon 1.
+            </p>
+            <HorizonRulesEditor
+              useCases={useCases}
+              criteria={criteria}
+              config={horizons}
+              onChange={setHorizons}
+            />
+          </CardContent>
+        )}
+      </Card>
+
+      {/* --- Readiness-adjusted feasibility --- */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Readiness-adjusted Feasibility</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-slate-600 mb-4">
+            Link Step 1 readiness dimensions to the feasibility criteria they affect. Low department readiness then
+            discounts those criteria, giving a more realistic feasibility score for each use case.
+          </p>
+          <ReadinessAdjustmentEditor
+            criteria={criteria}
+            readinessScores={readinessScores}
+            adjustment={readinessAdjustment}
+            onChange={onReadinessAdjustmentChange}
+          />
+        </CardContent>
+      </Card>
+
+      {/* --- Dependencies --- */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Dependencies</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-slate-600 mb-4">
+            Some use cases can only start once another has delivered, for example a chatbot that needs a new data
+            platform. Declare those links here; the roadmap below warns when the order doesn't fit.
+          </p>
+          <DependencyGraph
+            useCases={useCases}
+            buckets={horizonBuckets}
+            cycles={cycles}
+            issues={dependencyIssues}
+            issueMessages={issueMessages}
+            onPrerequisitesChange={updatePrerequisites}
+          />
+        </CardContent>
+      </Card>
+
       {/* --- Three Horizons --- */}
       <Card>
         <CardHeader>
@@ -415,16 +766,47 @@ export default function ImpactFeasibility({
               title="Horizon 1 (High Feasibility)"
               items={horizonBuckets.H1}
               horizon={1}
+              assignments={assignments}
             />
             <HorizonColumn
               title="Horizon 2 (Medium Feasibility)"
               items={horizonBuckets.H2}
               horizon={2}
+              assignments={assignments}
             />
             <HorizonColumn
               title="Horizon 3 (Low Feasibility)"
               items={horizonBuckets.H3}
               horizon={3}
+              assignments={assignments}
+            />
+          </div>
+          {ruledOff.length > 0 && (
+            <div className="mt-4 rounded-md border border-slate-200 bg-slate-50 p-3 text-sm text-slate-700">
+              <div className="font-medium">Left off the roadmap by rules</div>
+              <ul className="mt-1 space-y-0.5">
+                {ruledOff.map((u) => (
+                  <li key={u.id}>
+                    {u.id + 1}. {u.name || `Use Case ${u.id + 1}`} — {assignments[u.id].reasons.slice(1).join("; ")}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="mt-8 space-y-2">
+            <div className="text-sm font-medium text-slate-700">Timeline</div>
+            <p className="text-sm text-slate-600">
+              Schedule each horizon's use cases: when work starts, how long it runs and the milestones along the way.
+              The coloured bands show each horizon's time window.
+            </p>
+            <RoadmapTimeline
+              buckets={horizonBuckets}
+              roadmap={roadmap}
+              setRoadmap={setRoadmap}
+              dependencyWarnings={dependencyWarnings}
+              placementReasons={placementReasons}
+              calendarScope={workspaceId}
             />
           </div>
 
@@ -438,6 +820,13 @@ export default function ImpactFeasibility({
           Export Project (.json)
         </Button>
 
+        {onDownloadPDF && (
+          <Button variant="outline" onClick={onDownloadPDF}>
+            <FileText className="mr-2 h-4 w-4" />
+            Download Report (.pdf)
+          </Button>
+        )}
+
         <label className="inline-flex items-center justify-center rounded-md border px-4 py-2 text-sm font-medium bg-white hover:bg-slate-50 cursor-pointer">
           <Upload className="mr-2 h-4 w-4" />
           Import Project (.json)
@@ -457,10 +846,12 @@ function HorizonColumn({
   title,
   items,
   horizon,
+  assignments,
 }: {
   title: string;
   items: UseCase[];
   horizon: 1 | 2 | 3;
+  assignments: Record<number, HorizonAssignment>;
 }) {
   // horizon-specific colors
   const styles =
@@ -486,19 +877,30 @@ function HorizonColumn({
         <div className="text-sm text-slate-500">No items yet.</div>
       )}
       <div className="flex flex-wrap gap-2">
-        {items.map((u) => (
-          <span
-            key={u.id}
-            className="inline-block rounded-md px-2 py-1 text-sm font-semibold border-2"
-            style={{
-              color: COLORS[u.id % COLORS.length],
-              borderColor: COLORS[u.id % COLORS.length],
-              backgroundColor: `${COLORS[u.id % COLORS.length]}33`,
-            }}
-          >
-            {u.id + 1}. {u.name || `Use Case ${u.id + 1}`}
-          </span>
-        ))}
+        {items.map((u) => {
+          const { board, horizon: assigned, reasons } = assignments[u.id];
+          const byRule = reasons.length > 1;
+          return (
+            <span
+              key={u.id}
+              title={reasons.join("\n")}
+              className="inline-flex items-center gap-1 rounded-md px-2 py-1 text-sm font-semibold border-2 cursor-help"
+              style={{
+                color: COLORS[u.id % COLORS.length],
+                borderColor: COLORS[u.id % COLORS.length],
+                backgroundColor: `${COLORS[u.id % COLORS.length]}33`,
+              }}
+            >
+              {u.id + 1}. {u.name || `Use Case ${u.id + 1}`}
+              {byRule && (
+                <Scale
+                  className="h-3.5 w-3.5 shrink-0"
+                  aria-label={board === assigned ? "Rule applies" : `Moved here from ${board} by a rule`}
+                />
+              )}
+            </span>
+          );
+        })}
       </div>
     </div>
   );
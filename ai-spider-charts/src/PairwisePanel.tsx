@@ -0,0 +1,353 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronRight, RotateCcw } from "lucide-react";
+import type { Criterion, UseCase } from "./AISpiderCharts";
+import { criterionWeight, type ScoringConfig } from "@/lib/scoring";
+import {
+  CR_THRESHOLD,
+  SAATY_SCALE,
+  analyzePairwise,
+  judgment,
+  scoresFromPriorities,
+  setJudgment,
+  weightsFromPriorities,
+  type AhpResult,
+  type Judgments,
+  type PairwiseConfig,
+} from "@/lib/ahp";
+
+const selectClass = "h-8 rounded-md border border-input bg-white px-2 text-sm";
+
+const displayName = (u: UseCase) => u.name || `Use Case ${u.id + 1}`;
+
+// Slider position -8..8: left of centre favours the left item, right favours the right one
+const toSlider = (v: number) => (v >= 1 ? -(Math.round(v) - 1) : Math.round(1 / v) - 1);
+const fromSlider = (s: number) => (s <= 0 ? 1 - s : 1 / (1 + s));
+
+type Item = { id: string | number; label: string };
+
+function ComparisonRow({
+  left,
+  right,
+  value,
+  flagged,
+  onChange,
+}: {
+  left: Item;
+  right: Item;
+  value: number; // left over right
+  flagged: boolean;
+  onChange: (v: number) => void;
+}) {
+  const strength = Math.round(value >= 1 ? value : 1 / value);
+  const favoured = value > 1 ? left : value < 1 ? right : null;
+  return (
+    <div
+      className={`grid grid-cols-[1fr,minmax(120px,2fr),1fr] items-center gap-3 rounded-md px-2 py-1.5 text-sm ${
+        flagged ? "bg-amber-50 ring-1 ring-amber-300" : ""
+      }`}
+    >
+      <span className={`truncate text-right ${value > 1 ? "font-semibold" : "text-slate-600"}`}>{left.label}</span>
+      <div className="space-y-0.5">
+        <input
+          type="range"
+          min={-8}
+          max={8}
+          step={1}
+          value={toSlider(value)}
+          onChange={(e) => onChange(fromSlider(Number(e.target.value)))}
+          aria-label={`${left.label} versus ${right.label}`}
+          className="w-full accent-indigo-600"
+        />
+        <div className="flex items-center justify-center gap-1 text-xs text-slate-500">
+          {flagged && <AlertTriangle className="h-3 w-3 text-amber-600" />}
+          {favoured ? `${favoured.label}: ${strength}× · ${SAATY_SCALE[strength]}` : SAATY_SCALE[1]}
+        </div>
+      </div>
+      <span className={`truncate ${value < 1 ? "font-semibold" : "text-slate-600"}`}>{right.label}</span>
+    </div>
+  );
+}
+
+function ConsistencyBadge({ result }: { result: AhpResult }) {
+  return result.consistent ? (
+    <span className="inline-flex items-center gap-1 rounded-full border border-emerald-200 bg-emerald-50 px-2 py-0.5 text-xs text-emerald-700">
+      <CheckCircle2 className="h-3 w-3" /> Consistency ratio {(result.cr * 100).toFixed(1)}%
+    </span>
+  ) : (
+    <span className="inline-flex items-center gap-1 rounded-full border border-amber-200 bg-amber-50 px-2 py-0.5 text-xs text-amber-800">
+      <AlertTriangle className="h-3 w-3" /> Consistency ratio {(result.cr * 100).toFixed(1)}% — above{" "}
+      {CR_THRESHOLD * 100}%
+    </span>
+  );
+}
+
+/** Every pair of items as a slider, plus the consistency verdict and the judgments to revisit. */
+function ComparisonList({
+  items,
+  judgments,
+  result,
+  onChange,
+}: {
+  items: Item[];
+  judgments: Judgments;
+  result: AhpResult;
+  onChange: (next: Judgments) => void;
+}) {
+  const label = (id: string | number) => items.find((i) => i.id === id)?.label ?? String(id);
+  const flagged = new Set(result.inconsistent.map((j) => `${j.a}|${j.b}`));
+  const pairs = items.flatMap((a, i) => items.slice(i + 1).map((b) => [a, b] as const));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <ConsistencyBadge result={result} />
+        <span className="text-xs text-slate-500">
+          {Object.keys(judgments).length} of {pairs.length} pairs judged; the rest count as equal.
+        </span>
+      </div>
+
+      {result.inconsistent.length > 0 && (
+        <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+          <div className="mb-1 font-medium">Judgments that disagree most with the others</div>
+          <ul className="list-disc space-y-0.5 pl-5">
+            {result.inconsistent.map((j) => (
+              <li key={`${j.a}|${j.b}`}>
+                {label(j.a)} vs {label(j.b)}: you said{" "}
+                {j.given >= 1 ? `${Math.round(j.given)}×` : `1/${Math.round(1 / j.given)}`}, the rest of your answers
+                imply about {j.implied >= 1 ? `${j.implied.toFixed(1)}×` : `1/${(1 / j.implied).toFixed(1)}`}.
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="max-h-[420px] space-y-1 overflow-y-auto rounded-lg border bg-white p-2">
+        {pairs.map(([a, b]) => (
+          <ComparisonRow
+            key={`${a.id}|${b.id}`}
+            left={a}
+            right={b}
+            value={judgment(judgments, a.id, b.id)}
+            flagged={flagged.has(`${a.id}|${b.id}`)}
+            onChange={(v) => onChange(setJudgment(judgments, a.id, b.id, v))}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Analytic Hierarchy Process: participants compare criteria (and, per
+ * criterion, use cases) two at a time on Saaty's 1–9 scale. The priority
+ * vectors become the ranking's weights, or a criterion's scores.
+ */
+export default function PairwisePanel({
+  criteria,
+  useCases,
+  scoring,
+  pairwise,
+  onChange,
+  onApplyWeights,
+  onApplyScores,
+  scoresLocked,
+}: {
+  criteria: Criterion[];
+  useCases: UseCase[];
+  scoring: ScoringConfig;
+  pairwise: PairwiseConfig;
+  onChange: (next: PairwiseConfig) => void;
+  onApplyWeights: (next: { criteria: Criterion[]; groupWeights: ScoringConfig["groupWeights"] }) => void;
+  onApplyScores: (key: string, scores: Record<number, number>) => void;
+  scoresLocked: boolean; // scores come from assessors and can't be set directly
+}) {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<"criteria" | "useCases">("criteria");
+  const [criterionKey, setCriterionKey] = useState<string | null>(null);
+
+  const criterion = criteria.find((c) => c.key === criterionKey) ?? criteria[0];
+
+  const criteriaResult = useMemo(
+    () => analyzePairwise(criteria.map((c) => c.key), pairwise.criteria),
+    [criteria, pairwise.criteria]
+  );
+  const derived = weightsFromPriorities(criteria, criteriaResult.priorities);
+
+  const useCaseJudgments = useMemo(() => pairwise.useCases[criterion.key] ?? {}, [pairwise.useCases, criterion.key]);
+  const useCaseResult = useMemo(
+    () => analyzePairwise(useCases.map((u) => u.id), useCaseJudgments),
+    [useCases, useCaseJudgments]
+  );
+  const derivedScores = scoresFromPriorities(useCaseResult.priorities);
+
+  const judged = Object.keys(pairwise.criteria).length > 0;
+
+  function applyScores() {
+    onApplyScores(criterion.key, Object.fromEntries(useCases.map((u, i) => [u.id, derivedScores[i]])));
+  }
+
+  function resetComparisons() {
+    if (mode === "criteria") onChange({ ...pairwise, criteria: {} });
+    else {
+      const useCases = Object.fromEntries(Object.entries(pairwise.useCases).filter(([k]) => k !== criterion.key));
+      onChange({ ...pairwise, useCases });
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Pairwise Comparison (AHP)</CardTitle>
+          <p className="text-sm text-slate-600">
+            Derive weights by comparing criteria two at a time instead of setting them directly.
+            {judged &&
+              ` Consistency ratio ${(criteriaResult.cr * 100).toFixed(1)}%${
+                criteriaResult.consistent ? "" : " — revisit some judgments"
+              }.`}
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setOpen((o) => !o)}>
+          {open ? <ChevronDown className="mr-2 h-4 w-4" /> : <ChevronRight className="mr-2 h-4 w-4" />}
+          {open ? "Hide comparisons" : "Compare pairs"}
+        </Button>
+      </CardHeader>
+
+      {open && (
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant={mode === "criteria" ? "default" : "outline"} onClick={() => setMode("criteria")}>
+              Criteria
+            </Button>
+            <Button variant={mode === "useCases" ? "default" : "outline"} onClick={() => setMode("useCases")}>
+              Use cases
+            </Button>
+            {mode === "useCases" && (
+              <select
+                value={criterion.key}
+                onChange={(e) => setCriterionKey(e.target.value)}
+                className={selectClass}
+                aria-label="Criterion"
+              >
+                {criteria.map((c) => (
+                  <option key={c.key} value={c.key}>
+                    on {c.label}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <p className="text-xs text-slate-600">
+            Move each slider towards the {mode === "criteria" ? "criterion that matters more" : "use case that does better"}
+            : 1 = equal, 3 = moderately, 5 = strongly, 7 = very strongly, 9 = extremely. A consistency ratio above{" "}
+            {CR_THRESHOLD * 100}% means some answers contradict each other; the flagged pairs are the ones to discuss.
+          </p>
+
+          {mode === "criteria" ? (
+            <div className="grid grid-cols-1 gap-6 xl:grid-cols-[3fr,2fr]">
+              <ComparisonList
+                items={criteria.map((c) => ({ id: c.key, label: c.label }))}
+                judgments={pairwise.criteria}
+                result={criteriaResult}
+                onChange={(next) => onChange({ ...pairwise, criteria: next })}
+              />
+              <div className="space-y-3">
+                <table className="min-w-full text-left text-sm">
+                  <thead>
+                    <tr className="border-b text-slate-600">
+                      <th className="py-2 pr-3">Criterion</th>
+                      <th className="py-2 pr-3">Priority</th>
+                      <th className="py-2 pr-3">Weight</th>
+                      <th className="py-2">Current</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {criteria.map((c, i) => (
+                      <tr key={c.key} className="border-b last:border-0">
+                        <td className="py-1.5 pr-3">{c.label}</td>
+                        <td className="py-1.5 pr-3">
+                          <div className="flex items-center gap-2">
+                            <div className="h-2 w-16 overflow-hidden rounded bg-slate-100">
+                              <div
+                                className="h-full rounded bg-indigo-500"
+                                style={{ width: `${criteriaResult.priorities[i] * 100}%` }}
+                              />
+                            </div>
+                            <span className="font-mono">{(criteriaResult.priorities[i] * 100).toFixed(1)}%</span>
+                          </div>
+                        </td>
+                        <td className="py-1.5 pr-3 font-mono">{criterionWeight(derived.criteria[i]).toFixed(2)}</td>
+                        <td className="py-1.5 font-mono text-slate-500">{criterionWeight(c).toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-xs text-slate-600">
+                  Group weights: Impact ×{derived.groupWeights.Impact.toFixed(2)} (now ×
+                  {scoring.groupWeights.Impact.toFixed(1)}) · Feasibility ×{derived.groupWeights.Feasibility.toFixed(2)}{" "}
+                  (now ×{scoring.groupWeights.Feasibility.toFixed(1)})
+                </p>
+                <Button onClick={() => onApplyWeights(derived)} disabled={!judged}>
+                  Use these weights for the ranking
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 gap-6 xl:grid-cols-[3fr,2fr]">
+              <ComparisonList
+                items={useCases.map((u) => ({ id: u.id, label: displayName(u) }))}
+                judgments={useCaseJudgments}
+                result={useCaseResult}
+                onChange={(next) => onChange({ ...pairwise, useCases: { ...pairwise.useCases, [criterion.key]: next } })}
+              />
+              <div className="space-y-3">
+                <table className="min-w-full text-left text-sm">
+                  <thead>
+                    <tr className="border-b text-slate-600">
+                      <th className="py-2 pr-3">Use case</th>
+                      <th className="py-2 pr-3">Priority</th>
+                      <th className="py-2 pr-3">Score</th>
+                      <th className="py-2">Current</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {useCases.map((u, i) => (
+                      <tr key={u.id} className="border-b last:border-0">
+                        <td className="py-1.5 pr-3">{displayName(u)}</td>
+                        <td className="py-1.5 pr-3 font-mono">{(useCaseResult.priorities[i] * 100).toFixed(1)}%</td>
+                        <td className="py-1.5 pr-3 font-mono">{derivedScores[i]}</td>
+                        <td className="py-1.5 font-mono text-slate-500">{u.scores[criterion.key]}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-xs text-slate-600">
+                  Scores keep the priorities' proportions: the strongest use case gets 10.
+                </p>
+                <Button
+                  onClick={applyScores}
+                  disabled={scoresLocked || Object.keys(useCaseJudgments).length === 0}
+                >
+                  Use as {criterion.label} scores
+                </Button>
+                {scoresLocked && (
+                  <p className="text-xs text-amber-700">
+                    Scores come from the assessors' consensus, so they can't be replaced here.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          <Button variant="ghost" onClick={resetComparisons}>
+            <RotateCcw className="mr-2 h-4 w-4" /> Reset {mode === "criteria" ? "criteria" : `${criterion.label}`}{" "}
+            comparisons
+          </Button>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
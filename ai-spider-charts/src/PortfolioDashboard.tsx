@@ -0,0 +1,336 @@
+import * as React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AlertTriangle, ArrowLeft, ExternalLink, Users } from "lucide-react";
+import { COLORS, type UseCase } from "@/lib/useCases";
+import { READINESS, band } from "./Scoring_Readiness";
+import {
+  loadDepartments,
+  loadPortfolio,
+  mergedBoard,
+  readinessRollup,
+  savePortfolio,
+  similarUseCases,
+  type Portfolio,
+} from "@/lib/portfolio";
+import type { WorkspaceMeta } from "@/lib/workspaces";
+
+const displayName = (u: UseCase) => u.name || `Use Case ${u.id + 1}`;
+
+const cellTone = (score: number) =>
+  score <= 2 ? "bg-red-100 text-red-800" : score < 3.5 ? "bg-amber-100 text-amber-900" : "bg-emerald-100 text-emerald-800";
+
+/**
+ * Organisation-wide view over several department workspaces: readiness side
+ * by side, every use case on one board, and overlapping proposals.
+ */
+export default function PortfolioDashboard({
+  workspaces,
+  onOpenDepartment,
+  onClose,
+}: {
+  workspaces: WorkspaceMeta[];
+  onOpenDepartment: (workspaceId: string) => void;
+  onClose: () => void;
+}) {
+  const [portfolio, setPortfolio] = React.useState<Portfolio>(loadPortfolio);
+  const [saveFailed, setSaveFailed] = React.useState(false);
+  const [hidden, setHidden] = React.useState<Set<number>>(new Set());
+  const [threshold, setThreshold] = React.useState(0.3);
+
+  const departments = React.useMemo(() => loadDepartments(portfolio, workspaces), [portfolio, workspaces]);
+  const rollup = React.useMemo(() => readinessRollup(departments), [departments]);
+  const tokens = React.useMemo(() => mergedBoard(departments), [departments]);
+  const similar = React.useMemo(() => similarUseCases(departments, threshold), [departments, threshold]);
+
+  function update(next: Portfolio) {
+    setPortfolio(next);
+    setSaveFailed(!savePortfolio(next));
+  }
+
+  const member = (id: string) => portfolio.members.find((m) => m.workspaceId === id);
+
+  function toggleMember(w: WorkspaceMeta) {
+    update({
+      ...portfolio,
+      members: member(w.id)
+        ? portfolio.members.filter((m) => m.workspaceId !== w.id)
+        : [...portfolio.members, { workspaceId: w.id, department: w.name }],
+    });
+  }
+
+  const renameMember = (id: string, department: string) =>
+    update({ ...portfolio, members: portfolio.members.map((m) => (m.workspaceId === id ? { ...m, department } : m)) });
+
+  const toggleHidden = (d: number) =>
+    setHidden((prev) => {
+      const next = new Set(prev);
+      if (next.has(d)) next.delete(d);
+      else next.add(d);
+      return next;
+    });
+
+  const deptColor = (d: number) => COLORS[d % COLORS.length];
+
+  return (
+    <div className="space-y-6">
+      <header className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <Input
+            value={portfolio.name}
+            onChange={(e) => update({ ...portfolio, name: e.target.value })}
+            className="h-auto border-none px-0 text-3xl font-bold tracking-tight shadow-none focus-visible:ring-0"
+            aria-label="Portfolio name"
+          />
+          <p className="text-slate-600">
+            Roll up readiness and use cases across departments. Each department is one of your saved workspaces.
+          </p>
+        </div>
+        <Button variant="outline" onClick={onClose}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back to workspace
+        </Button>
+      </header>
+      {saveFailed && <p className="text-sm text-red-700">The portfolio could not be saved — browser storage may be full.</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Departments</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {workspaces.map((w) => {
+            const m = member(w.id);
+            return (
+              <div key={w.id} className="flex flex-wrap items-center gap-3 text-sm">
+                <label className="inline-flex w-56 items-center gap-2">
+                  <input type="checkbox" checked={Boolean(m)} onChange={() => toggleMember(w)} className="accent-indigo-600" />
+                  <span className="truncate">{w.name}</span>
+                </label>
+                {m && (
+                  <>
+                    <Input
+                      value={m.department}
+                      onChange={(e) => renameMember(w.id, e.target.value)}
+                      placeholder="Department name"
+                      className="h-8 w-56"
+                      aria-label="Department name"
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => onOpenDepartment(w.id)}>
+                      <ExternalLink className="mr-1 h-4 w-4" /> Open
+                    </Button>
+                  </>
+                )}
+              </div>
+            );
+          })}
+          <p className="text-xs text-slate-500">
+            Tick the workspaces that belong to the portfolio. Create one workspace per department (from a template or
+            blank) and fill in its readiness and use cases as usual.
+          </p>
+        </CardContent>
+      </Card>
+
+      {departments.length === 0 ? (
+        <div className="rounded-xl border bg-slate-50 p-6 text-center text-sm text-slate-500">
+          <Users className="mx-auto mb-2 h-6 w-6" />
+          Add at least one department to see the roll-up.
+        </div>
+      ) : (
+        <>
+          {/* --- Readiness comparison --- */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Readiness by Department</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-xs text-slate-500">
+                      <th className="py-2 pr-3 text-left font-medium">Department</th>
+                      {READINESS.map((r) => (
+                        <th key={r.key} className="px-1 py-2 text-center font-medium" title={r.label}>
+                          {r.label.split(/[\s/&]+/)[0]}
+                        </th>
+                      ))}
+                      <th className="px-2 py-2 text-right font-medium">Average</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rollup.rows.map((row, d) => (
+                      <tr key={departments[d].workspaceId} className="border-b">
+                        <td className="py-1 pr-3 font-medium" style={{ color: deptColor(d) }}>
+                          {row.department}
+                        </td>
+                        {READINESS.map((r) => (
+                          <td key={r.key} className="px-1 py-1 text-center">
+                            <span className={`inline-block w-8 rounded font-mono ${cellTone(row.scores[r.key])}`}>
+                              {row.scores[r.key]}
+                            </span>
+                          </td>
+                        ))}
+                        <td className="px-2 py-1 text-right">
+                          <span className="font-mono">{row.average.toFixed(2)}</span>{" "}
+                          <span className={`rounded-full border px-2 py-0.5 text-xs ${band(row.average).tone}`}>
+                            {band(row.average).label}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                    <tr className="font-semibold">
+                      <td className="py-1 pr-3">Organisation</td>
+                      {READINESS.map((r) => (
+                        <td key={r.key} className="px-1 py-1 text-center">
+                          <span className={`inline-block w-8 rounded font-mono ${cellTone(rollup.organisation[r.key])}`}>
+                            {rollup.organisation[r.key].toFixed(1)}
+                          </span>
+                        </td>
+                      ))}
+                      <td className="px-2 py-1 text-right font-mono">{rollup.organisationAverage.toFixed(2)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+              <div className="flex gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+                <AlertTriangle className="h-4 w-4 shrink-0 text-amber-600" />
+                <span>
+                  Weakest across the organisation:{" "}
+                  {rollup.weakest.map((w) => `${w.label} (${w.mean.toFixed(1)})`).join(", ")}. These are candidates for
+                  shared, central investment rather than department-by-department fixes.
+                </span>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* --- Merged board --- */}
+          <Card>
+            <CardHeader>
+              <CardTitle>All Use Cases — Impact vs Feasibility</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                {departments.map((d, i) => (
+                  <button
+                    key={d.workspaceId}
+                    type="button"
+                    onClick={() => toggleHidden(i)}
+                    className={`rounded-full border-2 px-3 py-0.5 text-xs font-semibold ${hidden.has(i) ? "opacity-40" : ""}`}
+                    style={{ color: deptColor(i), borderColor: deptColor(i), backgroundColor: `${deptColor(i)}22` }}
+                    aria-pressed={!hidden.has(i)}
+                  >
+                    {d.name} ({d.state.useCases.length})
+                  </button>
+                ))}
+              </div>
+              <div className="relative mx-auto aspect-square w-full max-w-2xl rounded-xl border border-slate-300 bg-white">
+                <svg className="absolute inset-0 h-full w-full" viewBox="0 0 100 100" role="img" aria-label="Merged Impact/Feasibility board">
+                  <rect x={0} y={0} width={50} height={50} fill="#fef3c7" opacity={0.4} />
+                  <rect x={50} y={0} width={50} height={50} fill="#d1fae5" opacity={0.4} />
+                  <rect x={0} y={50} width={50} height={50} fill="#ffe4e6" opacity={0.4} />
+                  <rect x={50} y={50} width={50} height={50} fill="#e0f2fe" opacity={0.4} />
+                  <line x1={50} y1={0} x2={50} y2={100} stroke="#94a3b8" strokeWidth={0.3} />
+                  <line x1={0} y1={50} x2={100} y2={50} stroke="#94a3b8" strokeWidth={0.3} />
+                  <text x={51} y={4} fontSize={2.8} fontWeight={700} fill="#334155">
+                    IMPACT ↑
+                  </text>
+                  <text x={99} y={98} fontSize={2.8} fontWeight={700} fill="#334155" textAnchor="end">
+                    FEASIBILITY →
+                  </text>
+                  {tokens
+                    .filter((t) => !hidden.has(t.department))
+                    .map((t) => {
+                      const color = deptColor(t.department);
+                      return (
+                        <g key={`${t.department}-${t.useCase.id}`}>
+                          <title>
+                            {`${departments[t.department].name} — ${displayName(t.useCase)}${t.placed ? "" : " (score-based position)"}`}
+                          </title>
+                          <circle
+                            cx={t.x * 100}
+                            cy={(1 - t.y) * 100}
+                            r={2.4}
+                            fill={`${color}44`}
+                            stroke={color}
+                            strokeWidth={0.5}
+                            strokeDasharray={t.placed ? undefined : "1 0.6"}
+                          />
+                          <text
+                            x={t.x * 100}
+                            y={(1 - t.y) * 100}
+                            fontSize={2.2}
+                            fontWeight={700}
+                            fill={color}
+                            textAnchor="middle"
+                            dominantBaseline="central"
+                          >
+                            {t.useCase.id + 1}
+                          </text>
+                        </g>
+                      );
+                    })}
+                </svg>
+              </div>
+              <p className="text-xs text-slate-500">
+                Colours are departments, numbers their use cases. Dashed circles have not been placed in that department's
+                workshop and sit at their score-based position. Click a department to hide it.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* --- Similar use cases --- */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Similar Use Cases Across Departments</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <label htmlFor="similarity-threshold" className="text-slate-700">
+                  Match strictness
+                </label>
+                <input
+                  id="similarity-threshold"
+                  type="range"
+                  min={0.15}
+                  max={0.7}
+                  step={0.05}
+                  value={threshold}
+                  onChange={(e) => setThreshold(Number(e.target.value))}
+                  className="w-48 accent-indigo-600"
+                />
+                <span className="font-mono text-xs text-slate-600">{Math.round(threshold * 100)}% word overlap</span>
+              </div>
+              {similar.length === 0 ? (
+                <div className="text-sm text-slate-500">No overlapping proposals at this strictness.</div>
+              ) : (
+                <ul className="space-y-2">
+                  {similar.map((group) => (
+                    <li
+                      key={group.members.map((m) => `${m.department}-${m.useCase.id}`).join("|")}
+                      className="rounded-lg border p-3 text-sm"
+                    >
+                      <div className="flex flex-wrap gap-2">
+                        {group.members.map((m) => (
+                          <span
+                            key={`${m.department}-${m.useCase.id}`}
+                            className="rounded-md border-2 px-2 py-0.5 text-xs font-semibold"
+                            style={{ color: deptColor(m.department), borderColor: deptColor(m.department) }}
+                          >
+                            {departments[m.department].name}: {m.useCase.id + 1}. {displayName(m.useCase)}
+                          </span>
+                        ))}
+                      </div>
+                      <div className="mt-1 text-xs text-slate-500">
+                        {Math.round(group.similarity * 100)}% overlap · shared: {group.shared.join(", ")} — consider one
+                        joint project.
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
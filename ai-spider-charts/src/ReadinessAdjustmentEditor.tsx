@@ -0,0 +1,127 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Plus, RotateCcw, Trash2 } from "lucide-react";
+import { READINESS, type ReadinessKey, type ReadinessScores } from "./Scoring_Readiness";
+import type { Criterion } from "./AISpiderCharts";
+import {
+  defaultReadinessAdjustment,
+  readinessFactors,
+  type ReadinessAdjustment,
+} from "@/lib/readinessAdjustment";
+
+const selectClass = "h-8 rounded-md border border-input bg-white px-2 text-sm";
+
+/**
+ * Maps Step 1 readiness dimensions onto Step 2 feasibility criteria and sets
+ * how strongly low readiness discounts those criteria.
+ */
+export default function ReadinessAdjustmentEditor({
+  criteria,
+  readinessScores,
+  adjustment,
+  onChange,
+}: {
+  criteria: Criterion[];
+  readinessScores: ReadinessScores;
+  adjustment: ReadinessAdjustment;
+  onChange: (next: ReadinessAdjustment) => void;
+}) {
+  const feasibility = criteria.filter((c) => c.group === "Feasibility");
+  const factors = readinessFactors(readinessScores, adjustment);
+
+  const updateLink = (idx: number, patch: Partial<ReadinessAdjustment["links"][number]>) =>
+    onChange({ ...adjustment, links: adjustment.links.map((l, i) => (i === idx ? { ...l, ...patch } : l)) });
+
+  function addLink() {
+    if (!feasibility[0]) return;
+    onChange({
+      ...adjustment,
+      links: [...adjustment.links, { readiness: READINESS[0].key, criterion: feasibility[0].key }],
+    });
+  }
+
+  function resetToDefault() {
+    const defaults = defaultReadinessAdjustment();
+    // The default links target the built-in rubric; keep only those this project still has
+    onChange({ ...defaults, links: defaults.links.filter((l) => feasibility.some((c) => c.key === l.criterion)) });
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <Label htmlFor="readiness-strength" className="w-40 shrink-0 text-sm">
+          Adjustment strength
+        </Label>
+        <input
+          id="readiness-strength"
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={adjustment.strength}
+          onChange={(e) => onChange({ ...adjustment, strength: Number(e.target.value) })}
+          className="flex-1 accent-indigo-600"
+        />
+        <span className="w-12 text-right font-mono text-sm text-slate-600">
+          {Math.round(adjustment.strength * 100)}%
+        </span>
+      </div>
+      <p className="text-xs text-slate-600">
+        At 100%, a readiness score of 1 wipes out a linked criterion and 5 leaves it untouched; at 0% readiness is ignored.
+      </p>
+
+      <div className="space-y-2">
+        {adjustment.links.length === 0 && (
+          <div className="text-sm text-slate-500">No links — feasibility is not adjusted.</div>
+        )}
+        {adjustment.links.map((link, idx) => (
+          <div key={idx} className="flex flex-wrap items-center gap-2">
+            <select
+              value={link.readiness}
+              onChange={(e) => updateLink(idx, { readiness: e.target.value as ReadinessKey })}
+              className={selectClass}
+              aria-label="Readiness dimension"
+            >
+              {READINESS.map((r) => (
+                <option key={r.key} value={r.key}>
+                  {r.label} ({readinessScores[r.key]}/5)
+                </option>
+              ))}
+            </select>
+            <span className="text-sm text-slate-500">→</span>
+            <select
+              value={link.criterion}
+              onChange={(e) => updateLink(idx, { criterion: e.target.value })}
+              className={selectClass}
+              aria-label="Feasibility criterion"
+            >
+              {feasibility.map((c) => (
+                <option key={c.key} value={c.key}>
+                  {c.label}
+                </option>
+              ))}
+            </select>
+            <span className="font-mono text-xs text-slate-600">×{(factors[link.criterion] ?? 1).toFixed(2)}</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange({ ...adjustment, links: adjustment.links.filter((_, i) => i !== idx) })}
+              aria-label="Remove link"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={addLink} disabled={feasibility.length === 0}>
+          <Plus className="mr-2 h-4 w-4" /> Add link
+        </Button>
+        <Button variant="ghost" onClick={resetToDefault}>
+          <RotateCcw className="mr-2 h-4 w-4" /> Default mapping
+        </Button>
+      </div>
+    </div>
+  );
+}
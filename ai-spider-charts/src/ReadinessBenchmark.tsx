@@ -0,0 +1,188 @@
+import * as React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Legend, PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart, ResponsiveContainer, Tooltip as RechartsTooltip } from "recharts";
+import { AlertTriangle, Trash2, Upload } from "lucide-react";
+import type { ReadinessScores } from "./Scoring_Readiness";
+import {
+  BUILT_IN_BENCHMARKS,
+  activeBenchmark,
+  largestLags,
+  parseBenchmarkFile,
+  readinessGaps,
+  type BenchmarkConfig,
+} from "@/lib/benchmarks";
+
+const selectClass = "h-8 rounded-md border border-input bg-white px-2 text-sm";
+
+const formatGap = (g: number) => (g > 0 ? `+${g.toFixed(1)}` : g.toFixed(1));
+
+/**
+ * Compares the department's readiness with a peer or sector profile: both on
+ * one radar, the gap per dimension, and the dimensions that lag most.
+ */
+export default function ReadinessBenchmark({
+  scores,
+  config,
+  onChange,
+}: {
+  scores: ReadinessScores;
+  config: BenchmarkConfig;
+  onChange: (next: BenchmarkConfig) => void;
+}) {
+  const [importError, setImportError] = React.useState<string | null>(null);
+  const benchmark = activeBenchmark(config);
+  const gaps = benchmark ? readinessGaps(scores, benchmark) : [];
+  const lags = largestLags(gaps);
+  const isImported = benchmark ? config.imported.some((p) => p.id === benchmark.id) : false;
+
+  function importProfiles(evt: React.ChangeEvent<HTMLInputElement>) {
+    const file = evt.target.files?.[0];
+    evt.currentTarget.value = "";
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const profiles = parseBenchmarkFile(JSON.parse(String(reader.result)), file.name.replace(/\.json$/i, ""));
+        setImportError(null);
+        onChange({ imported: [...config.imported, ...profiles], activeId: profiles[0].id });
+      } catch (e) {
+        setImportError(e instanceof SyntaxError ? `${file.name} is not valid JSON.` : (e as Error).message);
+      }
+    };
+    reader.onerror = () => setImportError(`Could not read ${file.name}.`);
+    reader.readAsText(file);
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Peer Benchmark</CardTitle>
+        <p className="text-sm text-slate-600">Compare your readiness with a sector average or a peer department.</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={config.activeId ?? ""}
+            onChange={(e) => onChange({ ...config, activeId: e.target.value || null })}
+            className={`${selectClass} min-w-0 flex-1`}
+            aria-label="Benchmark profile"
+          >
+            <option value="">No benchmark</option>
+            <optgroup label="Bundled">
+              {BUILT_IN_BENCHMARKS.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </optgroup>
+            {config.imported.length > 0 && (
+              <optgroup label="Imported">
+                {config.imported.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          {isImported && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() =>
+                onChange({ imported: config.imported.filter((p) => p.id !== benchmark!.id), activeId: null })
+              }
+              aria-label="Remove imported benchmark"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+          <label className="inline-flex h-8 cursor-pointer items-center rounded-md border bg-white px-3 text-sm font-medium hover:bg-slate-50">
+            <Upload className="mr-2 h-4 w-4" />
+            Import (.json)
+            <input type="file" accept="application/json" className="sr-only" onChange={importProfiles} />
+          </label>
+        </div>
+        {importError && <p className="text-sm text-red-700">{importError}</p>}
+        <p className="text-xs text-slate-500">
+          Import a peer's Step 1 readiness export, or a file with <code>{"{ name, scores }"}</code> profiles (one or a
+          list). Bundled profiles are illustrative, not survey data.
+        </p>
+
+        {benchmark && (
+          <>
+            {benchmark.description && <p className="text-sm text-slate-600">{benchmark.description}</p>}
+            <div className="h-[320px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <RadarChart data={gaps} outerRadius={95}>
+                  <PolarGrid />
+                  <PolarAngleAxis dataKey="label" tick={{ fontSize: 10 }} />
+                  <PolarRadiusAxis domain={[0, 5]} tickCount={6} />
+                  <Radar name="Your department" dataKey="own" stroke="#0f172a" fill="#0f172a" fillOpacity={0.25} />
+                  <Radar
+                    name={benchmark.name}
+                    dataKey="peer"
+                    stroke="#6366f1"
+                    fill="#6366f1"
+                    fillOpacity={0.1}
+                    strokeDasharray="4 3"
+                  />
+                  <RechartsTooltip />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                </RadarChart>
+              </ResponsiveContainer>
+            </div>
+
+            {lags.length > 0 ? (
+              <div className="flex gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+                <AlertTriangle className="h-4 w-4 shrink-0 text-amber-600" />
+                <div>
+                  <div className="font-medium">Largest lags behind {benchmark.name}</div>
+                  <ul className="mt-1 space-y-0.5">
+                    {lags.map((g) => (
+                      <li key={g.key}>
+                        {g.label}: {g.own} vs {g.peer.toFixed(1)} ({formatGap(g.gap)})
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            ) : (
+              <div className="rounded-md border border-emerald-200 bg-emerald-50 p-3 text-sm text-emerald-800">
+                No dimension lags the benchmark by half a point or more.
+              </div>
+            )}
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs text-slate-500">
+                  <th className="py-1 font-medium">Dimension</th>
+                  <th className="py-1 text-right font-medium">You</th>
+                  <th className="py-1 text-right font-medium">Benchmark</th>
+                  <th className="py-1 text-right font-medium">Gap</th>
+                </tr>
+              </thead>
+              <tbody>
+                {gaps.map((g) => (
+                  <tr key={g.key} className="border-b last:border-0">
+                    <td className="py-1 text-slate-700">{g.label}</td>
+                    <td className="py-1 text-right font-mono">{g.own}</td>
+                    <td className="py-1 text-right font-mono">{g.peer.toFixed(1)}</td>
+                    <td
+                      className={`py-1 text-right font-mono ${
+                        g.gap <= -0.5 ? "text-red-700" : g.gap >= 0.5 ? "text-emerald-700" : "text-slate-500"
+                      }`}
+                    >
+                      {formatGap(g.gap)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,105 @@
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, FileText, Link2, Plus, X } from "lucide-react";
+import { EVIDENCE_EXPECTED_FROM, isUrl, type DimensionEvidence } from "@/lib/readinessEvidence";
+
+/** Renders an evidence reference: URLs open in a new tab, file references are shown as text. */
+export function EvidenceRef({ value }: { value: string }) {
+  return isUrl(value) ? (
+    <a
+      href={value}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="inline-flex min-w-0 items-center gap-1 text-blue-600 underline hover:text-blue-800"
+    >
+      <Link2 className="h-3.5 w-3.5 shrink-0" />
+      <span className="truncate">{value}</span>
+    </a>
+  ) : (
+    <span className="inline-flex min-w-0 items-center gap-1 text-slate-700">
+      <FileText className="h-3.5 w-3.5 shrink-0" />
+      <span className="truncate">{value}</span>
+    </span>
+  );
+}
+
+/**
+ * Justification and evidence references for one readiness dimension, with a
+ * warning when a high score has nothing to back it up.
+ */
+export default function ReadinessEvidenceEditor({
+  score,
+  evidence,
+  onChange,
+}: {
+  score: number;
+  evidence: DimensionEvidence;
+  onChange: (patch: Partial<DimensionEvidence>) => void;
+}) {
+  const [draft, setDraft] = React.useState("");
+
+  function addLink() {
+    const ref = draft.trim();
+    if (!ref) return;
+    if (!evidence.links.includes(ref)) onChange({ links: [...evidence.links, ref] });
+    setDraft("");
+  }
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div className="space-y-1">
+        <div className="text-xs font-medium text-slate-600">Justification</div>
+        <Textarea
+          value={evidence.note}
+          onChange={(e) => onChange({ note: e.target.value })}
+          placeholder="Why this score? What did you look at, and who agreed?"
+          className="min-h-[4rem] text-sm"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-xs font-medium text-slate-600">Evidence</div>
+        {evidence.links.length > 0 && (
+          <ul className="space-y-1 text-sm">
+            {evidence.links.map((ref) => (
+              <li key={ref} className="flex items-center justify-between gap-2">
+                <EvidenceRef value={ref} />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  onClick={() => onChange({ links: evidence.links.filter((l) => l !== ref) })}
+                  aria-label="Remove evidence"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex gap-2">
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addLink()}
+            placeholder="https://… or a document name / file path"
+            className="h-8"
+            aria-label="Evidence link or file reference"
+          />
+          <Button variant="outline" size="sm" onClick={addLink} disabled={!draft.trim()}>
+            <Plus className="mr-1 h-4 w-4" /> Add
+          </Button>
+        </div>
+      </div>
+
+      {score >= EVIDENCE_EXPECTED_FROM && evidence.links.length === 0 && (
+        <div className="flex gap-2 rounded-md border border-amber-200 bg-amber-50 p-2 text-xs text-amber-900">
+          <AlertTriangle className="h-4 w-4 shrink-0 text-amber-600" />
+          A score of {score} should be backed by evidence — add a link or file reference.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import * as React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ArrowDownRight, ArrowUpRight, Camera, RotateCcw, Trash2 } from "lucide-react";
+import { COLORS } from "@/lib/useCases";
+import { READINESS, type ReadinessKey, type ReadinessScores } from "./Scoring_Readiness";
+import {
+  compareSnapshots,
+  isIsoDate,
+  readinessAverage,
+  snapshotName,
+  sortSnapshots,
+  takeSnapshot,
+  todayIso,
+  trendData,
+  type ReadinessSnapshot,
+} from "@/lib/readinessHistory";
+
+const selectClass = "h-8 rounded-md border border-input bg-white px-2 text-sm";
+
+const CURRENT = "current";
+
+/**
+ * Dated snapshots of the Step 1 assessment: save the current scores, chart
+ * the overall average and each dimension over time, and compare any two
+ * snapshots (or a snapshot with the live scores).
+ */
+export default function ReadinessHistory({
+  scores,
+  snapshots,
+  onChange,
+  onRestore,
+}: {
+  scores: ReadinessScores;
+  snapshots: ReadinessSnapshot[];
+  onChange: (next: ReadinessSnapshot[]) => void;
+  onRestore: (snapshot: ReadinessSnapshot) => void;
+}) {
+  const [date, setDate] = React.useState(todayIso());
+  const [label, setLabel] = React.useState("");
+  const [dimension, setDimension] = React.useState<ReadinessKey | "all">("all");
+  const [fromId, setFromId] = React.useState<string | null>(null);
+  const [toId, setToId] = React.useState<string>(CURRENT);
+
+  const sorted = sortSnapshots(snapshots);
+  const data = trendData(snapshots);
+  const shown = dimension === "all" ? READINESS : READINESS.filter((r) => r.key === dimension);
+
+  // Defaults: oldest snapshot against the live scores
+  const from = sorted.find((s) => s.id === fromId) ?? sorted[0];
+  const to = toId === CURRENT ? null : sorted.find((s) => s.id === toId) ?? null;
+  const changes = from ? compareSnapshots(from.scores, to ? to.scores : scores) : [];
+
+  function save() {
+    if (!isIsoDate(date)) return;
+    onChange(sortSnapshots([...snapshots, takeSnapshot(scores, date, label.trim())]));
+    setLabel("");
+  }
+
+  const update = (id: string, patch: Partial<Pick<ReadinessSnapshot, "date" | "label">>) =>
+    onChange(sortSnapshots(snapshots.map((s) => (s.id === id ? { ...s, ...patch } : s))));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Assessment History</CardTitle>
+        <p className="text-sm text-slate-600">
+          Save a dated snapshot each time the department repeats this self-assessment to track progress over time.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <div className="text-xs font-medium text-slate-600">Assessment date</div>
+            <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="h-8 w-40" />
+          </div>
+          <div className="min-w-[12rem] flex-1 space-y-1">
+            <div className="text-xs font-medium text-slate-600">Label (optional)</div>
+            <Input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. Spring review"
+              className="h-8"
+            />
+          </div>
+          <Button onClick={save} disabled={!isIsoDate(date)}>
+            <Camera className="mr-2 h-4 w-4" /> Save snapshot
+          </Button>
+        </div>
+
+        {sorted.length === 0 ? (
+          <div className="rounded-xl border bg-slate-50 p-6 text-center text-sm text-slate-500">
+            No snapshots yet. Save the current scores to start a history.
+          </div>
+        ) : (
+          <>
+            <div className="space-y-1">
+              {sorted.map((s) => (
+                <div key={s.id} className="flex flex-wrap items-center gap-2 text-sm">
+                  <Input
+                    type="date"
+                    value={s.date}
+                    onChange={(e) => isIsoDate(e.target.value) && update(s.id, { date: e.target.value })}
+                    className="h-8 w-40"
+                    aria-label="Snapshot date"
+                  />
+                  <Input
+                    value={s.label}
+                    onChange={(e) => update(s.id, { label: e.target.value })}
+                    placeholder="Label"
+                    className="h-8 min-w-[10rem] flex-1"
+                    aria-label="Snapshot label"
+                  />
+                  <span className="w-24 text-right font-mono text-slate-600">
+                    {readinessAverage(s.scores).toFixed(2)} / 5
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      if (window.confirm(`Replace the current scores with the ${snapshotName(s)} snapshot?`)) onRestore(s);
+                    }}
+                    aria-label="Load snapshot into the assessment"
+                    title="Load into the assessment"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onChange(snapshots.filter((x) => x.id !== s.id))}
+                    aria-label="Delete snapshot"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="text-sm font-medium text-slate-700">Trend</div>
+                <select
+                  value={dimension}
+                  onChange={(e) => setDimension(e.target.value as ReadinessKey | "all")}
+                  className={selectClass}
+                  aria-label="Dimension"
+                >
+                  <option value="all">Overall and every dimension</option>
+                  {READINESS.map((r) => (
+                    <option key={r.key} value={r.key}>
+                      Overall and {r.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {sorted.length < 2 && (
+                <p className="text-xs text-slate-500">Save at least two snapshots to see a trend.</p>
+              )}
+              <div className="h-[320px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={data} margin={{ left: 8, right: 16, top: 8 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" tick={{ fontSize: 11 }} />
+                    <YAxis domain={[1, 5]} ticks={[1, 2, 3, 4, 5]} width={30} />
+                    <RechartsTooltip />
+                    <Legend wrapperStyle={{ fontSize: 12 }} />
+                    <Line
+                      dataKey="overall"
+                      name="Overall average"
+                      stroke="#0f172a"
+                      strokeWidth={3}
+                      isAnimationActive={false}
+                    />
+                    {shown.map((r) => (
+                      <Line
+                        key={r.key}
+                        dataKey={r.key}
+                        name={r.label}
+                        stroke={COLORS[READINESS.indexOf(r) % COLORS.length]}
+                        strokeWidth={1.5}
+                        strokeDasharray={dimension === "all" ? "4 3" : undefined}
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium text-slate-700">Compare</span>
+                <select
+                  value={from?.id ?? ""}
+                  onChange={(e) => setFromId(e.target.value)}
+                  className={selectClass}
+                  aria-label="Compare from"
+                >
+                  {sorted.map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {snapshotName(s)}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-slate-500">with</span>
+                <select value={to?.id ?? CURRENT} onChange={(e) => setToId(e.target.value)} className={selectClass} aria-label="Compare with">
+                  <option value={CURRENT}>Current scores</option>
+                  {sorted.map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {snapshotName(s)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-xs text-slate-500">
+                    <th className="py-1 font-medium">Dimension</th>
+                    <th className="py-1 text-right font-medium">{from ? snapshotName(from) : ""}</th>
+                    <th className="py-1 text-right font-medium">{to ? snapshotName(to) : "Current"}</th>
+                    <th className="py-1 text-right font-medium">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changes.map((c) => (
+                    <tr key={c.key} className={`border-b last:border-0 ${c.key === "overall" ? "font-semibold" : ""}`}>
+                      <td className="py-1 text-slate-700">{c.label}</td>
+                      <td className="py-1 text-right font-mono">{c.key === "overall" ? c.from.toFixed(2) : c.from}</td>
+                      <td className="py-1 text-right font-mono">{c.key === "overall" ? c.to.toFixed(2) : c.to}</td>
+                      <td
+                        className={`py-1 text-right font-mono ${
+                          c.delta > 0 ? "text-emerald-700" : c.delta < 0 ? "text-red-700" : "text-slate-400"
+                        }`}
+                      >
+                        <span className="inline-flex items-center gap-1">
+                          {c.delta > 0 && <ArrowUpRight className="h-3.5 w-3.5" />}
+                          {c.delta < 0 && <ArrowDownRight className="h-3.5 w-3.5" />}
+                          {c.delta > 0 ? "+" : ""}
+                          {c.key === "overall" ? c.delta.toFixed(2) : c.delta}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,424 @@
+import * as React from "react";
+import html2canvas from "html2canvas";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AlertTriangle, CalendarDays, Image as ImageIcon, Link2Off, Plus, RotateCcw, X } from "lucide-react";
+import { COLORS, type UseCase } from "@/lib/useCases";
+import {
+  HORIZON_KEYS,
+  MAX_ROADMAP_MONTHS,
+  monthLabel,
+  newMilestoneId,
+  outsideWindow,
+  quarterLabel,
+  roadmapItem,
+  roadmapSpan,
+  toICalendar,
+  type HorizonKey,
+  type RoadmapConfig,
+  type RoadmapItem,
+  type RoadmapRow,
+} from "@/lib/roadmap";
+
+const selectClass = "h-8 rounded-md border border-input bg-white px-2 text-sm";
+
+const HORIZON_TONES: Record<HorizonKey, { band: string; text: string }> = {
+  H1: { band: "bg-emerald-100 border-emerald-300", text: "text-emerald-700" },
+  H2: { band: "bg-amber-100 border-amber-300", text: "text-amber-700" },
+  H3: { band: "bg-rose-100 border-rose-300", text: "text-rose-700" },
+};
+
+const displayName = (u: UseCase) => u.name || `Use Case ${u.id + 1}`;
+
+/**
+ * Gantt view of the 3 Horizons: every use case in a horizon gets a bar
+ * (start quarter, duration) and milestones, drawn against the horizons' time
+ * windows. Exports as an image or as iCalendar events.
+ */
+export default function RoadmapTimeline({
+  buckets,
+  roadmap,
+  setRoadmap,
+  dependencyWarnings,
+  placementReasons,
+  calendarScope,
+}: {
+  buckets: Record<HorizonKey, UseCase[]>;
+  roadmap: RoadmapConfig;
+  setRoadmap: React.Dispatch<React.SetStateAction<RoadmapConfig>>;
+  dependencyWarnings: Record<number, string[]>; // sequencing problems by dependent use case id
+  placementReasons: Record<number, string[]>; // why each use case is in its horizon
+  calendarScope: string; // keeps calendar UIDs apart between projects
+}) {
+  const timelineRef = React.useRef<HTMLDivElement>(null);
+  const [selectedId, setSelectedId] = React.useState<number | null>(null);
+
+  const rows: RoadmapRow[] = HORIZON_KEYS.flatMap((horizon) =>
+    buckets[horizon].map((useCase) => ({ useCase, horizon, item: roadmapItem(roadmap, useCase.id, horizon) }))
+  );
+  const span = roadmapSpan(roadmap, rows.map((r) => r.item));
+  const pct = (month: number) => `${(month / span) * 100}%`;
+  const quarters = Array.from({ length: span / 3 }, (_, q) => q);
+  const selected = rows.find((r) => r.useCase.id === selectedId) ?? null;
+
+  const updateItem = (id: number, horizon: HorizonKey, patch: Partial<RoadmapItem>) =>
+    setRoadmap((r) => ({ ...r, items: { ...r.items, [id]: { ...roadmapItem(r, id, horizon), ...patch } } }));
+
+  const resetItem = (id: number) =>
+    setRoadmap((r) => ({ ...r, items: Object.fromEntries(Object.entries(r.items).filter(([k]) => Number(k) !== id)) }));
+
+  const updateWindow = (h: HorizonKey, patch: Partial<{ from: number; to: number }>) =>
+    setRoadmap((r) => {
+      const next = { ...r.windows[h], ...patch };
+      if (Number.isNaN(next.from) || Number.isNaN(next.to)) return r;
+      const from = Math.max(0, Math.min(MAX_ROADMAP_MONTHS - 1, Math.round(next.from)));
+      const to = Math.max(from + 1, Math.min(MAX_ROADMAP_MONTHS, Math.round(next.to)));
+      return { ...r, windows: { ...r.windows, [h]: { from, to } } };
+    });
+
+  async function downloadImage() {
+    if (!timelineRef.current) return;
+    const canvas = await html2canvas(timelineRef.current, { scale: 2, backgroundColor: "#ffffff" });
+    const a = document.createElement("a");
+    a.href = canvas.toDataURL("image/png");
+    a.download = "ai-roadmap.png";
+    a.click();
+  }
+
+  function downloadCalendar() {
+    const blob = new Blob([toICalendar(roadmap, rows, calendarScope)], { type: "text/calendar;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "ai-roadmap-milestones.ics";
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-x-6 gap-y-3 text-sm">
+        <div className="space-y-1">
+          <div className="text-xs font-medium text-slate-600">Roadmap starts</div>
+          <div className="flex items-center gap-2">
+            <select
+              value={roadmap.startQuarter}
+              onChange={(e) => setRoadmap((r) => ({ ...r, startQuarter: Number(e.target.value) }))}
+              className={selectClass}
+              aria-label="Start quarter"
+            >
+              {[1, 2, 3, 4].map((q) => (
+                <option key={q} value={q}>
+                  Q{q}
+                </option>
+              ))}
+            </select>
+            <Input
+              type="number"
+              min={2000}
+              max={2100}
+              value={roadmap.startYear}
+              onChange={(e) => {
+                const year = Number(e.target.value);
+                if (year >= 2000 && year <= 2100) setRoadmap((r) => ({ ...r, startYear: year }));
+              }}
+              className="h-8 w-24"
+              aria-label="Start year"
+            />
+          </div>
+        </div>
+        {HORIZON_KEYS.map((h) => (
+          <div key={h} className="space-y-1">
+            <div className={`text-xs font-medium ${HORIZON_TONES[h].text}`}>{h} window (months)</div>
+            <div className="flex items-center gap-1">
+              <Input
+                type="number"
+                min={0}
+                max={MAX_ROADMAP_MONTHS - 1}
+                value={roadmap.windows[h].from}
+                onChange={(e) => updateWindow(h, { from: Number(e.target.value) })}
+                className="h-8 w-16"
+                aria-label={`${h} window start`}
+              />
+              <span>–</span>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_ROADMAP_MONTHS}
+                value={roadmap.windows[h].to}
+                onChange={(e) => updateWindow(h, { to: Number(e.target.value) })}
+                className="h-8 w-16"
+                aria-label={`${h} window end`}
+              />
+            </div>
+          </div>
+        ))}
+        <div className="ml-auto flex gap-2">
+          <Button variant="outline" onClick={downloadImage} disabled={rows.length === 0}>
+            <ImageIcon className="mr-2 h-4 w-4" /> Image (.png)
+          </Button>
+          <Button variant="outline" onClick={downloadCalendar} disabled={rows.length === 0}>
+            <CalendarDays className="mr-2 h-4 w-4" /> Milestones (.ics)
+          </Button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-xl border">
+        <div ref={timelineRef} className="min-w-[720px] bg-white p-3">
+          {/* Horizon windows */}
+          <div className="grid grid-cols-[200px,1fr]">
+            <div />
+            <div className="relative h-6">
+              {HORIZON_KEYS.map((h) => (
+                <div
+                  key={h}
+                  className={`absolute top-0 flex h-5 items-center justify-center overflow-hidden rounded border text-xs font-semibold ${HORIZON_TONES[h].band} ${HORIZON_TONES[h].text}`}
+                  style={{ left: pct(roadmap.windows[h].from), width: pct(Math.min(span, roadmap.windows[h].to) - roadmap.windows[h].from) }}
+                >
+                  {h}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Quarter scale */}
+          <div className="grid grid-cols-[200px,1fr] border-b pb-1">
+            <div />
+            <div className="flex">
+              {quarters.map((q) => (
+                <div key={q} className="flex-1 border-l px-1 text-[10px] text-slate-500">
+                  {quarterLabel(roadmap, q)}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {rows.length === 0 && (
+            <div className="py-6 text-center text-sm text-slate-500">
+              No use cases in the horizons yet — place high-impact tokens on the board above.
+            </div>
+          )}
+
+          {rows.map(({ useCase: u, horizon, item }) => {
+            const color = COLORS[u.id % COLORS.length];
+            const misplaced = outsideWindow(roadmap, item, horizon);
+            const warnings = dependencyWarnings[u.id] ?? [];
+            return (
+              <div key={u.id} className="grid grid-cols-[200px,1fr] items-center border-b last:border-0">
+                <button
+                  type="button"
+                  title={placementReasons[u.id]?.join("\n")}
+                  onClick={() => setSelectedId((id) => (id === u.id ? null : u.id))}
+                  className={`flex min-w-0 items-center gap-2 py-1.5 pr-2 text-left text-sm ${
+                    selectedId === u.id ? "font-semibold" : ""
+                  }`}
+                >
+                  <span className={`shrink-0 text-xs font-semibold ${HORIZON_TONES[horizon].text}`}>{horizon}</span>
+                  <span className="truncate" style={{ color }}>
+                    {u.id + 1}. {displayName(u)}
+                  </span>
+                  {misplaced && (
+                    <span title={`Starts outside the ${horizon} window`}>
+                      <AlertTriangle className="h-3.5 w-3.5 shrink-0 text-amber-600" />
+                    </span>
+                  )}
+                  {warnings.length > 0 && (
+                    <span title={warnings.join("\n")}>
+                      <Link2Off className="h-3.5 w-3.5 shrink-0 text-red-600" />
+                    </span>
+                  )}
+                </button>
+                <div className="relative h-9">
+                  {quarters.map((q) => (
+                    <div key={q} className="absolute top-0 h-full border-l border-slate-100" style={{ left: pct(q * 3) }} />
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(u.id)}
+                    className="absolute top-1.5 h-6 rounded border-2"
+                    style={{
+                      left: pct(item.start * 3),
+                      width: pct(item.duration * 3),
+                      borderColor: color,
+                      backgroundColor: `${color}33`,
+                    }}
+                    aria-label={`Edit ${displayName(u)} schedule`}
+                  />
+                  {item.milestones.map((m) => (
+                    <div
+                      key={m.id}
+                      title={`${m.label || "Milestone"} · ${monthLabel(roadmap, m.month)}`}
+                      className="absolute top-3 h-3 w-3 -translate-x-1/2 rotate-45 border border-slate-700 bg-white"
+                      style={{ left: pct(m.month + 0.5) }}
+                    />
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {selected && (
+        <RoadmapItemEditor
+          row={selected}
+          roadmap={roadmap}
+          reasons={placementReasons[selected.useCase.id] ?? []}
+          onChange={(patch) => updateItem(selected.useCase.id, selected.horizon, patch)}
+          onReset={() => resetItem(selected.useCase.id)}
+          onClose={() => setSelectedId(null)}
+        />
+      )}
+      {!selected && rows.length > 0 && (
+        <p className="text-xs text-slate-500">
+          Click a use case or its bar to set the start quarter, duration and milestones. ◆ marks a milestone; a{" "}
+          <AlertTriangle className="inline h-3 w-3 text-amber-600" /> means the bar starts outside its horizon's window,
+          a <Link2Off className="inline h-3 w-3 text-red-600" /> that a prerequisite comes later.
+        </p>
+      )}
+      {Object.keys(dependencyWarnings).length > 0 && (
+        <ul className="space-y-0.5 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+          {Object.values(dependencyWarnings)
+            .flat()
+            .map((w) => (
+              <li key={w}>{w}</li>
+            ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function RoadmapItemEditor({
+  row,
+  roadmap,
+  reasons,
+  onChange,
+  onReset,
+  onClose,
+}: {
+  row: RoadmapRow;
+  roadmap: RoadmapConfig;
+  reasons: string[];
+  onChange: (patch: Partial<RoadmapItem>) => void;
+  onReset: () => void;
+  onClose: () => void;
+}) {
+  const { useCase: u, horizon, item } = row;
+  const horizonWindow = roadmap.windows[horizon];
+  const quarterOptions = Array.from({ length: MAX_ROADMAP_MONTHS / 3 }, (_, q) => q);
+  const monthOptions = Array.from({ length: MAX_ROADMAP_MONTHS }, (_, m) => m);
+
+  const updateMilestone = (id: string, patch: { label?: string; month?: number }) =>
+    onChange({ milestones: item.milestones.map((m) => (m.id === id ? { ...m, ...patch } : m)) });
+
+  return (
+    <div className="space-y-3 rounded-xl border bg-slate-50 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm font-medium">
+          {u.id + 1}. {displayName(u)} — {horizon} ({horizonWindow.from}–{horizonWindow.to} months)
+        </div>
+        <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close schedule editor">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {reasons.length > 0 && (
+        <ul className="space-y-0.5 text-xs text-slate-600">
+          {reasons.map((r) => (
+            <li key={r}>{r}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          Start
+          <select
+            value={item.start}
+            onChange={(e) => onChange({ start: Number(e.target.value) })}
+            className={selectClass}
+          >
+            {quarterOptions.map((q) => (
+              <option key={q} value={q}>
+                {quarterLabel(roadmap, q)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Duration
+          <Input
+            type="number"
+            min={1}
+            max={MAX_ROADMAP_MONTHS / 3}
+            value={item.duration}
+            onChange={(e) => {
+              const n = Math.round(Number(e.target.value));
+              if (n >= 1 && n <= MAX_ROADMAP_MONTHS / 3) onChange({ duration: n });
+            }}
+            className="h-8 w-16"
+          />
+          quarters
+        </label>
+        <span className="text-slate-500">
+          Ends {quarterLabel(roadmap, item.start + item.duration - 1)}
+        </span>
+        <Button variant="ghost" size="sm" onClick={onReset}>
+          <RotateCcw className="mr-2 h-4 w-4" /> Reset to horizon default
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-xs font-medium text-slate-600">Milestones</div>
+        {item.milestones.length === 0 && <div className="text-xs text-slate-500">No milestones yet.</div>}
+        {item.milestones.map((m) => (
+          <div key={m.id} className="flex items-center gap-2">
+            <Input
+              value={m.label}
+              onChange={(e) => updateMilestone(m.id, { label: e.target.value })}
+              placeholder="e.g. Pilot live"
+              maxLength={60}
+              className="h-8 flex-1"
+              aria-label="Milestone name"
+            />
+            <select
+              value={m.month}
+              onChange={(e) => updateMilestone(m.id, { month: Number(e.target.value) })}
+              className={selectClass}
+              aria-label="Milestone month"
+            >
+              {monthOptions.map((month) => (
+                <option key={month} value={month}>
+                  {monthLabel(roadmap, month)}
+                </option>
+              ))}
+            </select>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => onChange({ milestones: item.milestones.filter((x) => x.id !== m.id) })}
+              aria-label="Remove milestone"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            onChange({
+              milestones: [
+                ...item.milestones,
+                { id: newMilestoneId(), label: "", month: Math.min(MAX_ROADMAP_MONTHS - 1, (item.start + item.duration) * 3 - 1) },
+              ],
+            })
+          }
+        >
+          <Plus className="mr-2 h-4 w-4" /> Add milestone
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ChevronDown, ChevronRight, RotateCcw } from "lucide-react";
+import type { Criterion, CriterionGroup } from "./AISpiderCharts";
+import {
+  AGGREGATION_METHODS,
+  criterionWeight,
+  defaultScoringConfig,
+  type ScoringConfig,
+} from "@/lib/scoring";
+
+const GROUPS: CriterionGroup[] = ["Impact", "Feasibility"];
+
+function WeightSlider({
+  id,
+  label,
+  value,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: number;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <div className="flex items-center gap-3">
+      <Label htmlFor={id} className="w-44 shrink-0 text-sm">
+        {label}
+      </Label>
+      <input
+        id={id}
+        type="range"
+        min={0}
+        max={5}
+        step={0.5}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="flex-1 accent-indigo-600"
+      />
+      <span className="w-10 text-right font-mono text-sm text-slate-600">{value.toFixed(1)}</span>
+    </div>
+  );
+}
+
+/**
+ * Ranking settings: aggregation method, Impact/Feasibility group weights and
+ * per-criterion weights. Collapsed to a one-line summary by default.
+ */
+export default function ScoringSettings({
+  criteria,
+  config,
+  onConfigChange,
+  onCriteriaChange,
+}: {
+  criteria: Criterion[];
+  config: ScoringConfig;
+  onConfigChange: (next: ScoringConfig) => void;
+  onCriteriaChange: (next: Criterion[]) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const method = AGGREGATION_METHODS.find((m) => m.value === config.method) ?? AGGREGATION_METHODS[0];
+
+  const setCriterionWeight = (key: string, weight: number) =>
+    onCriteriaChange(criteria.map((c) => (c.key === key ? { ...c, weight } : c)));
+
+  function resetWeights() {
+    onConfigChange({ ...config, groupWeights: defaultScoringConfig().groupWeights });
+    onCriteriaChange(criteria.map((c) => ({ ...c, weight: 1 })));
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Weights &amp; Ranking Method</CardTitle>
+          <p className="text-sm text-slate-600">
+            {method.label} · Impact ×{config.groupWeights.Impact.toFixed(1)} · Feasibility ×
+            {config.groupWeights.Feasibility.toFixed(1)}
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setOpen((o) => !o)}>
+          {open ? <ChevronDown className="mr-2 h-4 w-4" /> : <ChevronRight className="mr-2 h-4 w-4" />}
+          {open ? "Hide settings" : "Adjust weights"}
+        </Button>
+      </CardHeader>
+
+      {open && (
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-slate-700">Aggregation method</div>
+            <div className="flex flex-wrap gap-2">
+              {AGGREGATION_METHODS.map((m) => (
+                <Button
+                  key={m.value}
+                  variant={config.method === m.value ? "default" : "outline"}
+                  onClick={() => onConfigChange({ ...config, method: m.value })}
+                >
+                  {m.label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-600">{method.help}</p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-slate-700">Group weights</div>
+            {GROUPS.map((g) => (
+              <WeightSlider
+                key={g}
+                id={`group-weight-${g}`}
+                label={g}
+                value={config.groupWeights[g]}
+                onChange={(v) => onConfigChange({ ...config, groupWeights: { ...config.groupWeights, [g]: v } })}
+              />
+            ))}
+          </div>
+
+          {GROUPS.map((g) => (
+            <div key={g} className="space-y-2">
+              <div className="text-sm font-medium text-slate-700">{g} criteria</div>
+              {criteria
+                .filter((c) => c.group === g)
+                .map((c) => (
+                  <WeightSlider
+                    key={c.key}
+                    id={`weight-${c.key}`}
+                    label={c.label}
+                    value={criterionWeight(c)}
+                    onChange={(v) => setCriterionWeight(c.key, v)}
+                  />
+                ))}
+            </div>
+          ))}
+
+          <p className="text-xs text-slate-500">
+            A criterion's weight is relative to the others in its group; the group weight sets how much the whole group
+            counts. A weight of 0 leaves the criterion out of the ranking.
+          </p>
+
+          <Button variant="ghost" onClick={resetWeights}>
+            <RotateCcw className="mr-2 h-4 w-4" /> Reset all weights to 1
+          </Button>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
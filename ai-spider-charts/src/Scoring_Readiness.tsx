@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,15 +7,67 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
-import { Download, Upload, ChevronRight, ChevronLeft } from "lucide-react";
-import AISpiderCharts, { UseCase, defaultUseCases } from "./AISpiderCharts";
+import { Download, Eye, X, AlertTriangle } from "lucide-react";
+import AISpiderCharts, { type Criterion, type UseCase } from "./AISpiderCharts";
 import ImpactFeasibility from "./ImpactFeasibility";
+import WorkspaceSwitcher, { type SaveStatus } from "./WorkspaceSwitcher";
+import HistoryControls from "./HistoryControls";
+import CsvImport from "./CsvImport";
+import SharePanel from "./SharePanel";
+import PortfolioDashboard from "./PortfolioDashboard";
+import TemplateGallery from "./TemplateGallery";
+import ReadinessBenchmark from "./ReadinessBenchmark";
+import ReadinessHistory from "./ReadinessHistory";
+import ActionPlanPanel from "./ActionPlanPanel";
+import ReadinessEvidenceEditor from "./ReadinessEvidenceEditor";
+import { useFieldSetter, useHistory } from "@/hooks/useHistory";
+import { describeProjectChange } from "@/lib/history";
+import { syncAssessors, type AssessmentConfig } from "@/lib/assessors";
+import { prunePairwise } from "@/lib/ahp";
+import { pruneRoadmap } from "@/lib/roadmap";
+import { prunePrerequisites } from "@/lib/dependencies";
+import { pruneHorizonRules } from "@/lib/horizonRules";
+import type { BenchmarkConfig } from "@/lib/benchmarks";
+import type { ReadinessSnapshot } from "@/lib/readinessHistory";
+import type { ActionPlanConfig } from "@/lib/actionPlan";
+import {
+  EVIDENCE_EXPECTED_FROM,
+  evidenceFor,
+  normalizeEvidence,
+  unsupportedHighScores,
+  withEvidence,
+  type ReadinessEvidence,
+} from "@/lib/readinessEvidence";
+import type { ScoringConfig } from "@/lib/scoring";
+import { alignScores, fromProjectPayload, prunePlacements, toProjectPayload, type ProjectState } from "@/lib/project";
+import {
+  blankProject,
+  deleteTemplate,
+  findBuiltInTemplate,
+  listTemplates,
+  saveTemplate,
+  type ProjectTemplate,
+} from "@/lib/templates";
+import { createShareLink, readShareLink, type ShareMode } from "@/lib/share";
+import { READINESS_CSV_FIELDS, downloadCsv, readReadinessRows, toReadinessCsv, type ReadinessRow } from "@/lib/csv";
+import {
+  createWorkspace,
+  deleteWorkspace,
+  duplicateWorkspace,
+  getActiveWorkspaceId,
+  listWorkspaces,
+  loadWorkspace,
+  renameWorkspace,
+  saveWorkspace,
+  setActiveWorkspaceId,
+  type WorkspaceMeta,
+} from "@/lib/workspaces";
 
 // -----------------------------
 // Department Readiness Self‑Assessment
 // -----------------------------
 
-type ReadinessKey =
+export type ReadinessKey =
   | "dataMaturity"
   | "peopleSkills"
   | "processesWorkflows"
@@ -134,7 +186,9 @@ export const READINESS: {
   },
 ];
 
-export type ReadinessScores = Record<ReadinessKey, number> & { notes?: string };
+export type Step = "readiness" | "scoring" | "prioritization";
+
+export type ReadinessScores = Record<ReadinessKey, number> & { notes?: string; evidence?: ReadinessEvidence };
 
 export const defaultReadiness = (): ReadinessScores => ({
   dataMaturity: 3,
@@ -151,7 +205,7 @@ export const defaultReadiness = (): ReadinessScores => ({
   notes: "",
 });
 
-function band(n: number) {
+export function band(n: number) {
   if (n < 2.5) return { label: "Foundational", tone: "bg-red-100 text-red-700 border-red-200" };
   if (n < 3.75) return { label: "Emerging", tone: "bg-amber-100 text-amber-800 border-amber-200" };
   return { label: "Ready", tone: "bg-emerald-100 text-emerald-800 border-emerald-200" };
@@ -192,9 +246,28 @@ function ReadinessSummary({ scores }: { scores: ReadinessScores }) {
   );
 }
 
-function DepartmentReadiness({scores, setScores,}: {scores: ReadinessScores; setScores: React.Dispatch<React.SetStateAction<ReadinessScores>>;}) {
+function DepartmentReadiness({
+  scores,
+  setScores,
+  benchmarks,
+  setBenchmarks,
+  readinessHistory,
+  setReadinessHistory,
+  actionPlan,
+  setActionPlan,
+}: {
+  scores: ReadinessScores;
+  setScores: React.Dispatch<React.SetStateAction<ReadinessScores>>;
+  benchmarks: BenchmarkConfig;
+  setBenchmarks: React.Dispatch<React.SetStateAction<BenchmarkConfig>>;
+  readinessHistory: ReadinessSnapshot[];
+  setReadinessHistory: React.Dispatch<React.SetStateAction<ReadinessSnapshot[]>>;
+  actionPlan: ActionPlanConfig;
+  setActionPlan: React.Dispatch<React.SetStateAction<ActionPlanConfig>>;
+}) {
     const update = (k: ReadinessKey, v: number) =>
       setScores((s) => ({ ...s, [k]: clamp15(v) }));
+    const unsupported = unsupportedHighScores(scores);
 
   const exportJSON = () => {
     const data = JSON.stringify(scores, null, 2);
@@ -217,6 +290,7 @@ function DepartmentReadiness({scores, setScores,}: {scores: ReadinessScores; set
         const next: ReadinessScores = { ...defaultReadiness(), ...parsed };
         // Coerce to 1..5
         READINESS.forEach((r) => (next[r.key] = clamp15(Number(next[r.key]))));
+        next.evidence = normalizeEvidence(parsed.evidence);
         setScores(next);
       } catch (e) {
         alert("Could not parse JSON file.");
@@ -305,12 +379,17 @@ function DepartmentReadiness({scores, setScores,}: {scores: ReadinessScores; set
                     <div>3 — {r.help.three}</div>
                     <div>5 — {r.help.five}</div>
                     </div>
+
+                    <ReadinessEvidenceEditor
+                      score={scores[r.key]}
+                      evidence={evidenceFor(scores, r.key)}
+                      onChange={(patch) => setScores((s) => withEvidence(s, r.key, patch))}
+                    />
                     </div>
                 </TabsContent>
                 ))}
             </Tabs>
 
-            {/* ⬇️ REMOVE the Notes section entirely (was here before) */}
             </CardContent>
 
         </Card>
@@ -319,6 +398,8 @@ function DepartmentReadiness({scores, setScores,}: {scores: ReadinessScores; set
         <div className="order-1 space-y-6 lg:order-2">
           <ReadinessSummary scores={scores} />
 
+          <ReadinessBenchmark scores={scores} config={benchmarks} onChange={setBenchmarks} />
+
           <Card>
             <CardHeader>
               <CardTitle>Dimension Breakdown</CardTitle>
@@ -327,11 +408,25 @@ function DepartmentReadiness({scores, setScores,}: {scores: ReadinessScores; set
               {READINESS.map((r) => {
                 const val = scores[r.key];
                 const pct = Math.round(((val - 1) / 4) * 100);
+                const { note, links } = evidenceFor(scores, r.key);
                 return (
                   <div key={r.key} className="space-y-1">
                     <div className="flex items-center justify-between text-sm">
                       <span className="text-slate-700">{r.label}</span>
-                      <span className="font-mono text-slate-600">{val}/5</span>
+                      <span className="flex items-center gap-2 font-mono text-slate-600">
+                        {val >= EVIDENCE_EXPECTED_FROM && links.length === 0 ? (
+                          <span title="High score without evidence">
+                            <AlertTriangle className="h-3.5 w-3.5 text-amber-600" />
+                          </span>
+                        ) : (
+                          (note.trim() || links.length > 0) && (
+                            <span className="font-sans text-xs text-slate-400">
+                              {links.length} ref{links.length === 1 ? "" : "s"}
+                            </span>
+                          )
+                        )}
+                        {val}/5
+                      </span>
                     </div>
                     <div className="h-2 w-full overflow-hidden rounded-full bg-slate-200">
                       <div className="h-full bg-slate-900" style={{ width: `${pct}%` }} />
@@ -339,11 +434,59 @@ function DepartmentReadiness({scores, setScores,}: {scores: ReadinessScores; set
                   </div>
                 );
               })}
+              {unsupported.length > 0 && (
+                <p className="text-xs text-amber-800">
+                  Scored {EVIDENCE_EXPECTED_FROM}–5 without evidence: {unsupported.map((u) => u.label).join(", ")}.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Spreadsheet (CSV)</CardTitle>
+              <p className="text-sm text-slate-600">One row per dimension with its 1–5 score, justification and evidence.</p>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Button variant="outline" onClick={() => downloadCsv("department-readiness.csv", toReadinessCsv(scores))}>
+                <Download className="mr-2 h-4 w-4" /> Export readiness (.csv)
+              </Button>
+              <CsvImport<ReadinessRow>
+                label="Import readiness (.csv)"
+                fields={READINESS_CSV_FIELDS}
+                readRows={readReadinessRows}
+                previewColumns={["Dimension", "Score"]}
+                previewCells={(r) => [READINESS.find((d) => d.key === r.key)!.label, r.score]}
+                actions={[
+                  {
+                    label: "Apply scores",
+                    onApply: (rows) =>
+                      setScores((s) =>
+                        rows.reduce((next, { key, score, note, links }) => {
+                          const scored = { ...next, [key]: score };
+                          // Files without the Justification/Evidence columns leave existing evidence alone
+                          return note === undefined && links === undefined
+                            ? scored
+                            : withEvidence(scored, key, { ...(note !== undefined && { note }), ...(links !== undefined && { links }) });
+                        }, s)
+                      ),
+                    note: (n) => (n < READINESS.length ? "Dimensions missing from the file keep their current score." : null),
+                  },
+                ]}
+              />
             </CardContent>
           </Card>
         </div>
       </div>
 
+      <ReadinessHistory
+        scores={scores}
+        snapshots={readinessHistory}
+        onChange={setReadinessHistory}
+        onRestore={(snapshot) => setScores((s) => ({ ...s, ...snapshot.scores }))}
+      />
+
+      <ActionPlanPanel scores={scores} config={actionPlan} onChange={setActionPlan} />
     </div>
   );
 }
@@ -386,219 +529,338 @@ function DepartmentReadiness({scores, setScores,}: {scores: ReadinessScores; set
 //   );
 // }
 
-const demoReadinessScores = {
-  dataMaturity: 3,
-  peopleSkills: 4,
-  processesWorkflows: 3,
-  governanceRisk: 2,
-  resourcesBudget: 1,
-  techInfra: 3,
-  changeReadiness: 4,
-  leadershipAlignment: 4,
-  partnerships: 3,
-  citizenOrientation: 4,
-  ethicsTrust: 3,
-  notes: "",
-};
+const STORAGE_ERROR = "The workspace could not be created — browser storage may be full or disabled.";
 
-export const demoUseCases: UseCase[] = [
-  {
-    id: 0,
-    name: "Smart Visitor Forecasting",
-    description: "AI models predict visitor flows to museums, parks, and cultural sites to optimize staffing and avoid overcrowding.",
-    visible: true,
-    scores: {
-      dataReady: 8,
-      techMature: 8,
-      lowImplementationCost: 7,
-      reusable: 6,
-      increasesProductivity: 9,
-      reducesCosts: 7,
-      benefitsPublic: 9,
-      noRisk: 7,
-      increaseRevenue: 2,
-      strategicImpact: 7, 
-    },
-  },
-  {
-    id: 1,
-    name: "Personalized Itineraries",
-    description: "Recommender systems suggest tailored itineraries based on visitor preferences and historical data.",
-    visible: true,
-    scores: {
-      dataReady: 7,
-      techMature: 8,
-      lowImplementationCost: 6,
-      reusable: 8,
-      increasesProductivity: 7,
-      reducesCosts: 6,
-      benefitsPublic: 9,
-      noRisk: 6,
-      increaseRevenue: 9,
-      strategicImpact: 7, 
-    },
-  },
-  {
-    id: 2,
-    name: "Heritage Preservation AI",
-    description: "Computer vision detects early signs of degradation in monuments/artifacts from photos and drone scans.",
-    visible: true,
-    scores: {
-      dataReady: 5,
-      techMature: 6,
-      lowImplementationCost: 4,
-      reusable: 5,
-      increasesProductivity: 7,
-      reducesCosts: 6,
-      benefitsPublic: 8,
-      noRisk: 5,
-      increaseRevenue: 2,
-      strategicImpact: 8, 
-    },
-  },
-  {
-    id: 3,
-    name: "Tourist Query Assistant",
-    description: "Multilingual chatbot answers FAQs for tourists, reducing strain on call centers.",
-    visible: true,
-    scores: {
-      dataReady: 8,
-      techMature: 9,
-      lowImplementationCost: 8,
-      reusable: 7,
-      increasesProductivity: 8,
-      reducesCosts: 7,
-      benefitsPublic: 9,
-      noRisk: 7,
-      increaseRevenue: 2,
-      strategicImpact: 7, 
-    },
-  },
-  {
-    id: 4,
-    name: "Sentiment Analysis",
-    description: "Natural language processing of social media posts and reviews to gauge tourist satisfaction.",
-    visible: true,
-    scores: {
-      dataReady: 7,
-      techMature: 8,
-      lowImplementationCost: 7,
-      reusable: 6,
-      increasesProductivity: 7,
-      reducesCosts: 6,
-      benefitsPublic: 8,
-      noRisk: 7,
-      increaseRevenue: 6,
-      strategicImpact: 3, 
-    },
-  },
-  {
-    id: 5,
-    name: "Fraud Detection",
-    description: "AI detects unusual booking/payment patterns to prevent fraud.",
-    visible: true,
-    scores: {
-      dataReady: 7,
-      techMature: 8,
-      lowImplementationCost: 7,
-      reusable: 8,
-      increasesProductivity: 8,
-      reducesCosts: 9,
-      benefitsPublic: 6,
-      noRisk: 7,
-      increaseRevenue: 1,
-      strategicImpact: 7, 
-    },
-  },
-  {
-    id: 6,
-    name: "AR/VR Experiences",
-    description: "Immersive AI-powered VR tours for sites under renovation or with limited accessibility.",
-    visible: true,
-    scores: {
-      dataReady: 4,
-      techMature: 6,
-      lowImplementationCost: 4,
-      reusable: 6,
-      increasesProductivity: 7,
-      reducesCosts: 5,
-      benefitsPublic: 9,
-      noRisk: 4,
-      increaseRevenue: 8,
-      strategicImpact: 3, 
-    },
-  },
-  {
-    id: 7,
-    name: "Dynamic Pricing",
-    description: "AI optimizes ticket pricing based on demand, seasonality, and visitor demographics.",
-    visible: true,
-    scores: {
-      dataReady: 6,
-      techMature: 7,
-      lowImplementationCost: 5,
-      reusable: 7,
-      increasesProductivity: 7,
-      reducesCosts: 8,
-      benefitsPublic: 6,
-      noRisk: 6,
-      increaseRevenue: 9,
-      strategicImpact: 2, 
-    },
-  },
-];
+// Each template demo gets its own workspace; reopening the demo link returns to it
+const demoWorkspaceId = (templateId: string) => `demo-${templateId}`;
 
-export const demoPlacements = {
-  0: { x: 0.80, y: 0.70 }, // Smart Visitor Forecasting
-  3: { x: 0.85, y: 0.70 }, // Tourist Query Assistant
-  1: { x: 0.50, y: 0.80 }, // Personalized Itineraries
-  2: { x: 0.25, y: 0.90 }, // Heritage AI
-  6: { x: 0.20, y: 0.90 }, // AR/VR
-  4: { x: 0.80, y: 0.40 }, // Sentiment Analysis
-  5: { x: 0.85, y: 0.40 }, // Fraud Detection
-  7: { x: 0.40, y: 0.40 }, // Dynamic Pricing
-}
+type InitialWorkspace = { id: string; state: ProjectState; error?: string };
 
+// Computed once per page load: StrictMode runs state initializers twice
+let initialWorkspace: InitialWorkspace | null = null;
+
+/**
+ * Picks the workspace to open on page load: a template demo (`?template=<id>`,
+ * or `?mode=demo` for the tourism one), the last active workspace, or a fresh
+ * "Untitled project" on first visit. A workspace that cannot be read is left
+ * untouched and a new one is opened next to it, with `error` explaining why.
+ */
+function openInitialWorkspace(templateId: string | null): InitialWorkspace {
+  if (initialWorkspace) return initialWorkspace;
+  const template = templateId ? findBuiltInTemplate(templateId) : null;
+  const known = listWorkspaces();
+  const target = template
+    ? known.find((w) => w.id === demoWorkspaceId(template.id))
+    : known.find((w) => w.id === getActiveWorkspaceId()) ?? known[0];
+  let error: string | undefined;
+  if (target) {
+    try {
+      initialWorkspace = { id: target.id, state: fromProjectPayload(loadWorkspace(target.id)) };
+      return initialWorkspace;
+    } catch (e) {
+      error = `"${target.name}" could not be loaded and was left as it is. ${(e as Error).message}`;
+    }
+  }
+  const state = template ? template.state : blankProject();
+  const meta = createWorkspace(
+    template ? `${template.name} demo` : "Untitled project",
+    toProjectPayload(state),
+    template && !target ? demoWorkspaceId(template.id) : undefined
+  );
+  // Without storage the project still opens; autosave then reports each failed save
+  initialWorkspace = meta
+    ? { id: meta.id, state, error }
+    : { id: "unsaved", state, error: [error, STORAGE_ERROR].filter(Boolean).join(" ") };
+  return initialWorkspace;
+}
 
 export default function AIReadinessAndScoring() {
     const params = new URLSearchParams(window.location.search);
 
-    const [step, setStep] = useState<"readiness" | "scoring">("readiness");
-  
-    const [scores, setScores] = useState<ReadinessScores>(defaultReadiness());
-    const [useCases, setUseCases] = useState<UseCase[]>(defaultUseCases);
-    const [placements, setPlacements] = useState<Record<number, { x: number; y: number }>>({});
+    const [step, setStep] = useState<Step>("readiness");
 
-    
-  // 👇 ADD THIS useEffect block
-  if (params.get("mode") == "demo") {
+    const [initial] = useState(() =>
+      openInitialWorkspace(params.get("template") ?? (params.get("mode") == "demo" ? "tourism" : null))
+    );
+    const [workspaceId, setWorkspaceId] = useState(initial.id);
+    const [workspaces, setWorkspaces] = useState<WorkspaceMeta[]>(listWorkspaces);
+    const [saveStatus, setSaveStatus] = useState<SaveStatus>({ state: "idle" });
+    // A read-only shared snapshot is shown but never saved or edited
+    const [readOnly, setReadOnly] = useState(false);
+    const [shareNotice, setShareNotice] = useState<{ tone: "info" | "error"; text: string } | null>(null);
+
+    // Reported once, after the first render (effects run twice under StrictMode)
+    const initialErrorShown = useRef(false);
     useEffect(() => {
-      setScores(demoReadinessScores);
-      setUseCases(demoUseCases);
-      setPlacements(demoPlacements);
-    }, []);
+      if (!initial.error || initialErrorShown.current) return;
+      initialErrorShown.current = true;
+      alert(`Your workspace could not be opened. ${initial.error}`);
+    }, [initial]);
+    // Gallery contents while it is open
+    const [templates, setTemplates] = useState<ProjectTemplate[] | null>(null);
+    const [portfolioOpen, setPortfolioOpen] = useState(false);
+
+    // One undoable project state; the per-field setters keep the children's useState-style API
+    const history = useHistory<ProjectState>(initial.state, describeProjectChange);
+    const readOnlyRef = useRef(readOnly);
+    readOnlyRef.current = readOnly;
+    const { set: recordChange } = history;
+    const setProject = useCallback<typeof recordChange>(
+      (action, label) => {
+        if (!readOnlyRef.current) recordChange(action, label);
+      },
+      [recordChange]
+    );
+    const { scores, criteria, scoring, readinessAdjustment, assessment, pairwise, roadmap, horizons, benchmarks, readinessHistory, actionPlan, useCases, placements } =
+      history.present;
+    const setScores = useFieldSetter(setProject, "scores");
+    // Removing a use case drops its board position in the same undo step
+    const setUseCases = useCallback(
+      (action: React.SetStateAction<UseCase[]>) =>
+        setProject((p) => {
+          const next = prunePrerequisites(typeof action === "function" ? action(p.useCases) : action);
+          return {
+            ...p,
+            useCases: next,
+            placements: prunePlacements(p.placements, next),
+            pairwise: prunePairwise(p.pairwise, p.criteria, next.map((u) => u.id)),
+            roadmap: pruneRoadmap(p.roadmap, next),
+          };
+        }),
+      [setProject]
+    );
+    // A CSV replace starts a fresh set of use cases: nothing keyed by the old ids carries over
+    const replaceUseCases = useCallback(
+      (next: UseCase[]) =>
+        setProject(
+          (p) => ({
+            ...p,
+            useCases: prunePrerequisites(next),
+            placements: {},
+            pairwise: prunePairwise(p.pairwise, p.criteria, []),
+            roadmap: pruneRoadmap(p.roadmap, []),
+          }),
+          "Use cases — replaced from CSV"
+        ),
+      [setProject]
+    );
+    const setPlacements = useFieldSetter(setProject, "placements");
+    const setScoring = useFieldSetter(setProject, "scoring");
+    const setReadinessAdjustment = useFieldSetter(setProject, "readinessAdjustment");
+    const setPairwise = useFieldSetter(setProject, "pairwise");
+    const setRoadmap = useFieldSetter(setProject, "roadmap");
+    const setHorizons = useFieldSetter(setProject, "horizons");
+    const setBenchmarks = useFieldSetter(setProject, "benchmarks");
+    const setReadinessHistory = useFieldSetter(setProject, "readinessHistory");
+    const setActionPlan = useFieldSetter(setProject, "actionPlan");
+
+  // Criteria and everything keyed by them change together so a single undo restores both
+  const updateCriteria = (next: Criterion[]) =>
+    setProject((p) => ({
+      ...p,
+      criteria: next,
+      useCases: alignScores(p.useCases, next),
+      readinessAdjustment: {
+        ...p.readinessAdjustment,
+        links: p.readinessAdjustment.links.filter((l) => next.some((c) => c.key === l.criterion)),
+      },
+      pairwise: prunePairwise(p.pairwise, next, p.useCases.map((u) => u.id)),
+      horizons: pruneHorizonRules(p.horizons, next),
+    }));
+
+  // Weights derived from the pairwise comparison replace every criterion and group weight in one step
+  const applyPairwiseWeights = (next: { criteria: Criterion[]; groupWeights: ScoringConfig["groupWeights"] }) =>
+    setProject(
+      (p) => ({ ...p, criteria: next.criteria, scoring: { ...p.scoring, groupWeights: next.groupWeights } }),
+      "Weights — applied pairwise priorities"
+    );
+
+  // Assessor changes re-sync every use case's score sets and consensus in the same step
+  const updateAssessment = (next: AssessmentConfig) =>
+    setProject((p) => ({
+      ...p,
+      assessment: next,
+      useCases: syncAssessors(p.useCases, p.criteria, p.assessment, next),
+    }));
+
+  // Latest state, so switching workspaces or leaving the page can flush it synchronously
+  const latest = useRef({ workspaceId, state: history.present, readOnly });
+  latest.current = { workspaceId, state: history.present, readOnly };
+
+  const flushSave = useCallback(() => {
+    const { workspaceId: id, state, readOnly: viewing } = latest.current;
+    if (viewing) return;
+    const ok = saveWorkspace(id, toProjectPayload(state));
+    setSaveStatus(ok ? { state: "saved", at: new Date() } : { state: "error" });
+  }, []);
+
+  // Autosave (debounced) whenever the project changes
+  useEffect(() => {
+    if (readOnly) return;
+    setActiveWorkspaceId(workspaceId);
+    const t = window.setTimeout(flushSave, 500);
+    return () => window.clearTimeout(t);
+  }, [workspaceId, history.present, readOnly, flushSave]);
+
+  useEffect(() => {
+    window.addEventListener("pagehide", flushSave);
+    return () => window.removeEventListener("pagehide", flushSave);
+  }, [flushSave]);
+
+  const resetHistory = history.reset;
+  const openWorkspace = useCallback(
+    (id: string) => {
+      let next: ProjectState;
+      try {
+        next = fromProjectPayload(loadWorkspace(id));
+      } catch (e) {
+        alert(`That workspace could not be loaded. ${(e as Error).message}`);
+        return;
+      }
+      resetHistory(next);
+      setReadOnly(false);
+      setWorkspaceId(id);
+      setWorkspaces(listWorkspaces());
+    },
+    [resetHistory]
+  );
+
+  // Shared link in the URL fragment: restore it once, then drop it from the address bar
+  useEffect(() => {
+    readShareLink(window.location.hash)
+      .then((shared) => {
+        if (!shared) return;
+        window.history.replaceState(null, "", window.location.pathname + window.location.search);
+        if (shared.mode === "edit") {
+          // Keyed by snapshot, so reopening the same link returns to the recipient's copy
+          const id = `shared-${shared.sum}`;
+          const existing = listWorkspaces().some((w) => w.id === id);
+          if (!existing && !createWorkspace("Shared project", toProjectPayload(shared.state), id)) {
+            setShareNotice({ tone: "error", text: STORAGE_ERROR });
+            return;
+          }
+          flushSave();
+          openWorkspace(id);
+          setShareNotice({
+            tone: "info",
+            text: existing
+              ? "You opened this shared project before — showing your copy."
+              : "Shared project added to your workspaces. Changes are saved to your copy only.",
+          });
+        } else {
+          flushSave();
+          resetHistory(shared.state);
+          setReadOnly(true);
+        }
+        setStep(shared.step);
+      })
+      .catch((e: Error) => {
+        window.history.replaceState(null, "", window.location.pathname + window.location.search);
+        setShareNotice({ tone: "error", text: e.message });
+      });
+  }, [flushSave, openWorkspace, resetHistory]);
+
+  function saveSharedCopy() {
+    const meta = createWorkspace("Shared project", toProjectPayload(history.present));
+    if (!meta) {
+      setShareNotice({ tone: "error", text: STORAGE_ERROR });
+      return;
+    }
+    openWorkspace(meta.id);
+    setShareNotice({ tone: "info", text: "Saved as a new workspace — you can edit it now." });
+  }
+
+  function shareLink(mode: ShareMode) {
+    return createShareLink(history.present, mode, step, window.location.href);
+  }
+
+  function switchWorkspace(id: string) {
+    // From a read-only snapshot, picking the current workspace reopens its stored state
+    if (id === workspaceId && !readOnly) return;
+    flushSave();
+    openWorkspace(id);
+  }
+
+  function newWorkspace() {
+    flushSave();
+    const meta = createWorkspace(`Project ${workspaces.length + 1}`, toProjectPayload(blankProject()));
+    if (meta) openWorkspace(meta.id);
+    else alert(STORAGE_ERROR);
+  }
+
+  function toggleTemplates() {
+    setTemplates((open) => (open ? null : listTemplates()));
+  }
+
+  function openPortfolio() {
+    flushSave(); // the dashboard reads departments from storage
+    setWorkspaces(listWorkspaces());
+    setTemplates(null);
+    setPortfolioOpen(true);
+  }
+
+  function openDepartment(id: string) {
+    switchWorkspace(id);
+    setStep("readiness");
+    setPortfolioOpen(false);
+  }
+
+  function startFromTemplate(template: ProjectTemplate) {
+    flushSave();
+    const meta = createWorkspace(template.name, toProjectPayload(template.state));
+    if (!meta) {
+      alert(STORAGE_ERROR);
+      return;
+    }
+    openWorkspace(meta.id);
+    setStep("readiness");
+    setTemplates(null);
+  }
+
+  function saveCurrentAsTemplate(details: { name: string; sector: string; description: string }) {
+    const ok = saveTemplate(details, toProjectPayload(history.present));
+    if (ok) setTemplates(listTemplates());
+    return ok;
+  }
+
+  function deleteSavedTemplate(id: string) {
+    deleteTemplate(id);
+    setTemplates(listTemplates());
+  }
+
+  function duplicateCurrentWorkspace(id: string) {
+    flushSave();
+    const source = workspaces.find((w) => w.id === id);
+    const meta = duplicateWorkspace(id, `${source?.name ?? "Project"} (copy)`);
+    if (meta) openWorkspace(meta.id);
+    else alert("The workspace could not be duplicated — browser storage may be full or disabled.");
   }
 
-  function clamp1to5(n: any) {
-    const num = Math.round(Number(n));
-    if (Number.isNaN(num)) return 1;
-    return Math.max(1, Math.min(5, num));
+  function renameCurrentWorkspace(id: string, name: string) {
+    renameWorkspace(id, name);
+    setWorkspaces(listWorkspaces());
   }
 
-  function clamp1to10(n: any) {
-    const num = Math.round(Number(n));
-    if (Number.isNaN(num)) return 1;
-    return Math.max(1, Math.min(10, num));
+  function deleteCurrentWorkspace(id: string) {
+    deleteWorkspace(id);
+    const remaining = listWorkspaces();
+    if (remaining.length > 0) {
+      openWorkspace(remaining[0].id);
+    } else {
+      const meta = createWorkspace("Untitled project", toProjectPayload(blankProject()));
+      if (meta) openWorkspace(meta.id);
+      else alert(STORAGE_ERROR);
+    }
+  }
+
+  // jsPDF is only loaded once a report is requested
+  async function downloadPdfReport() {
+    const { downloadReport } = await import("@/lib/report");
+    downloadReport(history.present, workspaces.find((w) => w.id === workspaceId)?.name ?? "AI strategy");
   }
 
   function exportProject() {
-    const payload = {
-      version: 1,
-      exportedAt: new Date().toISOString(),
-      scores,
-      useCases,
-      placements,
-    };
+    const payload = toProjectPayload(history.present);
     const data = JSON.stringify(payload, null, 2);
     const blob = new Blob([data], { type: "application/json" });
     const url = URL.createObjectURL(blob);
@@ -609,91 +871,21 @@ export default function AIReadinessAndScoring() {
     URL.revokeObjectURL(url);
   }
 
-  function importProject(payload: any) {
+  function importProject(payload: unknown) {
+    if (readOnly) {
+      alert("Import not applied: this shared snapshot is read-only. Save an editable copy first.");
+      return;
+    }
     try {
-      // --- Scores ---
-      const nextScores: ReadinessScores = { ...defaultReadiness() };
-      if (payload?.scores && typeof payload.scores === "object") {
-        // Coerce each readiness key to 1..5 (use the READINESS keys we already have)
-        READINESS.forEach((r) => {
-          nextScores[r.key] = clamp1to5(payload.scores[r.key]);
-        });
-        // Preserve notes if present (optional in your type)
-        if (typeof payload.scores.notes === "string") {
-          nextScores.notes = payload.scores.notes;
-        }
-      }
-
-      // --- Use cases (expect 8; fill/repair if needed) ---
-      let incomingUC = Array.isArray(payload?.useCases) ? payload.useCases : [];
-      if (incomingUC.length < 8) {
-        incomingUC = [
-          ...incomingUC,
-          ...new Array(8 - incomingUC.length).fill(null).map((_, i) => ({
-            id: i,
-            name: `Use Case ${i + 1}`,
-            description: "",
-            visible: true,
-            scores: {
-              dataReady: 5,
-              techMature: 5,
-              lowImplementationCost: 5,
-              reusable: 5,
-              increasesProductivity: 5,
-              reducesCosts: 5,
-              benefitsPublic: 5,
-              noRisk: 5,
-            },
-          })),
-        ];
-      } else if (incomingUC.length > 8) {
-        incomingUC = incomingUC.slice(0, 8);
-      }
-
-      const nextUseCases = incomingUC.map((u: any, i: number) => ({
-        id: i,
-        name: typeof u?.name === "string" ? u.name : `Use Case ${i + 1}`,
-        description: typeof u?.description === "string" ? u.description : "",
-        visible: typeof u?.visible === "boolean" ? u.visible : true,
-        scores: {
-          dataReady: clamp1to10(u?.scores?.dataReady),
-          techMature: clamp1to10(u?.scores?.techMature),
-          lowImplementationCost: clamp1to10(u?.scores?.lowImplementationCost),
-          reusable: clamp1to10(u?.scores?.reusable),
-          increasesProductivity: clamp1to10(u?.scores?.increasesProductivity),
-          reducesCosts: clamp1to10(u?.scores?.reducesCosts),
-          benefitsPublic: clamp1to10(u?.scores?.benefitsPublic),
-          noRisk: clamp1to10(u?.scores?.noRisk),
-        },
-      }));
-
-      // --- Placements (x,y in 0..1) ---
-      const nextPlacements: Record<number, { x: number; y: number }> = {};
-      if (payload?.placements && typeof payload.placements === "object") {
-        Object.keys(payload.placements).forEach((k) => {
-          const id = Number(k);
-          const p = payload.placements[k];
-          if (Number.isInteger(id) && p && typeof p === "object") {
-            const x = Math.max(0, Math.min(1, Number(p.x)));
-            const y = Math.max(0, Math.min(1, Number(p.y)));
-            if (!Number.isNaN(x) && !Number.isNaN(y)) {
-              nextPlacements[id] = { x, y };
-            }
-          }
-        });
-      }
-
-      // --- Apply in one shot ---
-      setScores(nextScores);
-      setUseCases(nextUseCases);
-      setPlacements(nextPlacements);
+      // Replaces the contents of the active workspace (undoable); autosave picks it up
+      setProject(fromProjectPayload(payload), "Imported project");
 
       // Optional: jump user to the Prioritization view they’re working in
       // setStep("prioritization");
       alert("Project imported successfully.");
     } catch (e) {
       console.error(e);
-      alert("Import failed. Please check the JSON structure.");
+      alert(`Import failed. ${(e as Error).message}`);
     }
   }
 
@@ -701,49 +893,146 @@ export default function AIReadinessAndScoring() {
         <TooltipProvider>
           <div className="min-h-screen w-full bg-gradient-to-b from-slate-50 to-white p-6">
             <div className="mx-auto max-w-7xl space-y-6">
-              {/* Breadcrumbs / nav */}
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-2 text-slate-700 text-sm">
-                  <span className={step === "readiness" ? "font-semibold" : "opacity-60"}>Readiness</span>
-                  <span className="opacity-40">/</span>
-                  <span className={step === "scoring" ? "font-semibold" : "opacity-60"}>Use Case Scoring</span>
-                  <span className="opacity-40">/</span>
-                  <span className={step === "prioritization" ? "font-semibold" : "opacity-60"}>Prioritization</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  {step !== "readiness" && (
-                    <Button
-                      variant="outline"
-                      onClick={() => setStep(step === "prioritization" ? "scoring" : "readiness")}
-                    >
-                      Back
-                    </Button>
+              <WorkspaceSwitcher
+                workspaces={workspaces}
+                activeId={workspaceId}
+                saveStatus={saveStatus}
+                onSwitch={switchWorkspace}
+                onCreate={newWorkspace}
+                onOpenTemplates={toggleTemplates}
+                onOpenPortfolio={openPortfolio}
+                onRename={renameCurrentWorkspace}
+                onDuplicate={duplicateCurrentWorkspace}
+                onDelete={deleteCurrentWorkspace}
+              />
+              {templates && (
+                <TemplateGallery
+                  templates={templates}
+                  onUse={startFromTemplate}
+                  onSave={saveCurrentAsTemplate}
+                  onDelete={deleteSavedTemplate}
+                  onClose={() => setTemplates(null)}
+                />
+              )}
+
+              {portfolioOpen ? (
+                <PortfolioDashboard
+                  workspaces={workspaces}
+                  onOpenDepartment={openDepartment}
+                  onClose={() => setPortfolioOpen(false)}
+                />
+              ) : (
+                <>
+                  {readOnly && (
+                    <Alert className="border-indigo-200 bg-indigo-50">
+                      <Eye className="h-4 w-4" />
+                      <AlertTitle>Read-only shared snapshot</AlertTitle>
+                      <AlertDescription className="flex flex-wrap items-center gap-3">
+                        <span>You can browse every step, but changes are not kept. Your own workspaces are untouched.</span>
+                        <Button size="sm" onClick={saveSharedCopy}>
+                          Save an editable copy
+                        </Button>
+                      </AlertDescription>
+                    </Alert>
                   )}
-                  {step !== "prioritization" && (
-                    <Button
-                      onClick={() => setStep(step === "readiness" ? "scoring" : "prioritization")}
-                    >
-                      Continue
-                    </Button>
+                  {shareNotice && (
+                    <Alert className={shareNotice.tone === "error" ? "border-red-200 bg-red-50 text-red-800" : ""}>
+                      <AlertTitle>{shareNotice.tone === "error" ? "Shared link could not be opened" : "Shared project"}</AlertTitle>
+                      <AlertDescription className="flex items-start justify-between gap-3">
+                        <span>{shareNotice.text}</span>
+                        <Button variant="ghost" size="icon" onClick={() => setShareNotice(null)} aria-label="Dismiss">
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </AlertDescription>
+                    </Alert>
                   )}
-                </div>
-              </div>
+
+                  {/* Breadcrumbs / nav */}
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2 text-slate-700 text-sm">
+                      <span className={step === "readiness" ? "font-semibold" : "opacity-60"}>Readiness</span>
+                      <span className="opacity-40">/</span>
+                      <span className={step === "scoring" ? "font-semibold" : "opacity-60"}>Use Case Scoring</span>
+                      <span className="opacity-40">/</span>
+                      <span className={step === "prioritization" ? "font-semibold" : "opacity-60"}>Prioritization</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <SharePanel onCreateLink={shareLink} />
+                      <HistoryControls
+                        past={history.past}
+                        future={history.future}
+                        onUndo={history.undo}
+                        onRedo={history.redo}
+                      />
+                      {step !== "readiness" && (
+                        <Button
+                          variant="outline"
+                          onClick={() => setStep(step === "prioritization" ? "scoring" : "readiness")}
+                        >
+                          Back
+                        </Button>
+                      )}
+                      {step !== "prioritization" && (
+                        <Button
+                          onClick={() => setStep(step === "readiness" ? "scoring" : "prioritization")}
+                        >
+                          Continue
+                        </Button>
+                      )}
+                    </div>
+                  </div>
     
-              {step === "readiness" && (
-                <DepartmentReadiness scores={scores} setScores={setScores} />
-              )}
-              {step === "scoring" && (
-                <AISpiderCharts useCases={useCases} setUseCases={setUseCases} />
-              )}
-              {step === "prioritization" && (
-                <ImpactFeasibility
-                  useCases={useCases}
-                  placements={placements}
-                  setPlacements={setPlacements}
-                  onExportAll={exportProject}
-                  onImportAll={importProject}
-                  readinessScores={scores}
-                />
+                  {step === "readiness" && (
+                    <DepartmentReadiness
+                      scores={scores}
+                      setScores={setScores}
+                      benchmarks={benchmarks}
+                      setBenchmarks={setBenchmarks}
+                      readinessHistory={readinessHistory}
+                      setReadinessHistory={setReadinessHistory}
+                      actionPlan={actionPlan}
+                      setActionPlan={setActionPlan}
+                    />
+                  )}
+                  {step === "scoring" && (
+                    <AISpiderCharts
+                      useCases={useCases}
+                      setUseCases={setUseCases}
+                      onReplaceUseCases={replaceUseCases}
+                      criteria={criteria}
+                      onCriteriaChange={updateCriteria}
+                      scoring={scoring}
+                      onScoringChange={setScoring}
+                      readinessScores={scores}
+                      readinessAdjustment={readinessAdjustment}
+                      assessment={assessment}
+                      onAssessmentChange={updateAssessment}
+                      pairwise={pairwise}
+                      onPairwiseChange={setPairwise}
+                      onApplyPairwiseWeights={applyPairwiseWeights}
+                    />
+                  )}
+                  {step === "prioritization" && (
+                    <ImpactFeasibility
+                      useCases={useCases}
+                      criteria={criteria}
+                      placements={placements}
+                      setPlacements={setPlacements}
+                      onExportAll={exportProject}
+                      onDownloadPDF={downloadPdfReport}
+                      onImportAll={importProject}
+                      readinessScores={scores}
+                      readinessAdjustment={readinessAdjustment}
+                      onReadinessAdjustmentChange={setReadinessAdjustment}
+                      roadmap={roadmap}
+                      setRoadmap={setRoadmap}
+                      horizons={horizons}
+                      setHorizons={setHorizons}
+                      setUseCases={setUseCases}
+                      workspaceId={workspaceId}
+                    />
+                  )}
+                </>
               )}
             </div>
             <footer className="mt-12 border-t pt-6 text-center text-sm text-slate-600">
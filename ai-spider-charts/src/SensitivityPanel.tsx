@@ -0,0 +1,254 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { COLORS, type Criterion, type UseCase } from "@/lib/useCases";
+import { rankUseCases, type ScoringConfig } from "@/lib/scoring";
+import { SWEEP_MAX, sensitivityAnalysis, sweepCriterion, type LeaderThreshold } from "@/lib/sensitivity";
+
+const selectClass = "h-8 rounded-md border border-input bg-white px-2 text-sm";
+
+const displayName = (u: UseCase) => u.name || `Use Case ${u.id + 1}`;
+
+/**
+ * "Would the priority change if we cared more about X?" Sweeps each
+ * criterion's weight from 0 to 5 and shows how far each use case's rank can
+ * move (tornado), how ranks evolve along one sweep, and the weight at which
+ * the current #1 is overtaken.
+ */
+export default function SensitivityPanel({
+  useCases,
+  criteria,
+  scoring,
+}: {
+  useCases: UseCase[];
+  criteria: Criterion[];
+  scoring: ScoringConfig;
+}) {
+  const [open, setOpen] = useState(false);
+  const [focusId, setFocusId] = useState<number | null>(null); // null = current #1
+  const [sweepKey, setSweepKey] = useState<string | null>(null); // null = most disruptive criterion
+
+  const ranks = useMemo(() => rankUseCases(useCases, criteria, scoring), [useCases, criteria, scoring]);
+  // Only computed while the panel is open
+  const analysis = useMemo(
+    () => (open ? sensitivityAnalysis(useCases, criteria, scoring) : []),
+    [open, useCases, criteria, scoring]
+  );
+
+  const byId = (id: number) => useCases.find((u) => u.id === id);
+  const leader = byId(ranks[0]?.id ?? -1);
+  const focus = byId(focusId ?? -1) ?? leader;
+  const focusRank = ranks.find((r) => r.id === focus?.id)?.rank ?? 1;
+  const sweepCriterionInfo = analysis.find((a) => a.key === sweepKey) ?? analysis[0];
+
+  const tornado = focus
+    ? analysis
+        .map((a) => {
+          const { best, worst } = a.rankRange[focus.id];
+          return { label: a.label, best, worst, range: [best - 0.3, worst + 0.3] as [number, number] };
+        })
+        .sort((a, b) => b.worst - b.best - (a.worst - a.best))
+    : [];
+
+  const sweep = useMemo(
+    () => (sweepCriterionInfo ? sweepCriterion(useCases, criteria, scoring, sweepCriterionInfo.key) : []),
+    [sweepCriterionInfo, useCases, criteria, scoring]
+  );
+  const sweepData = sweep.map((p) => ({
+    weight: p.weight,
+    ...Object.fromEntries(useCases.map((u) => [`uc-${u.id}`, p.ranks[u.id]])),
+  }));
+
+  const rankTicks = useCases.map((_, i) => i + 1);
+  const moversAnywhere = new Set(analysis.flatMap((a) => a.movers)).size;
+  const thresholds = analysis.flatMap((a) => [a.raise, a.lower].filter((t): t is LeaderThreshold => t !== null));
+
+  const describeThreshold = (t: LeaderThreshold | null, verb: string) =>
+    t ? (
+      <span>
+        {verb} to {t.weight.toFixed(2)} → <strong>{displayName(byId(t.by)!)}</strong>
+      </span>
+    ) : (
+      <span className="text-slate-400">holds</span>
+    );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Sensitivity Analysis</CardTitle>
+          <p className="text-sm text-slate-600">
+            How stable is the ranking if a criterion's weight changes between 0 and {SWEEP_MAX}?
+            {open &&
+              analysis.length > 0 &&
+              ` ${moversAnywhere} of ${useCases.length} use cases can change position; ${
+                leader ? displayName(leader) : "#1"
+              } ${thresholds.length > 0 ? "can be overtaken" : "stays #1 across every sweep"}.`}
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setOpen((o) => !o)}>
+          {open ? <ChevronDown className="mr-2 h-4 w-4" /> : <ChevronRight className="mr-2 h-4 w-4" />}
+          {open ? "Hide analysis" : "Run analysis"}
+        </Button>
+      </CardHeader>
+
+      {open && (
+        <CardContent className="space-y-8">
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="text-sm font-medium text-slate-700">Rank range per criterion (tornado) for</div>
+              <select
+                value={focus?.id ?? ""}
+                onChange={(e) => setFocusId(Number(e.target.value))}
+                className={selectClass}
+                aria-label="Use case"
+              >
+                {ranks.map((r) => (
+                  <option key={r.id} value={r.id}>
+                    #{r.rank} {r.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <p className="text-xs text-slate-600">
+              Each bar spans the best and worst rank this use case reaches while that one weight sweeps from 0 to{" "}
+              {SWEEP_MAX}. The dashed line is its current rank; the longest bars are the weights worth debating.
+            </p>
+            <div className="w-full" style={{ height: Math.max(160, tornado.length * 30 + 50) }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={tornado} layout="vertical" margin={{ left: 8, right: 16 }}>
+                  <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                  <XAxis
+                    type="number"
+                    domain={[0.5, useCases.length + 0.5]}
+                    ticks={rankTicks}
+                    allowDecimals={false}
+                    label={{ value: "Rank", position: "insideBottom", offset: -2 }}
+                  />
+                  <YAxis type="category" dataKey="label" width={170} tick={{ fontSize: 12 }} />
+                  <RechartsTooltip
+                    formatter={(_value, _name, item) => {
+                      const { best, worst } = item.payload as { best: number; worst: number };
+                      return [best === worst ? `#${best} throughout` : `#${best} – #${worst}`, "Rank"];
+                    }}
+                  />
+                  <ReferenceLine x={focusRank} stroke="#334155" strokeDasharray="4 4" />
+                  <Bar dataKey="range" fill={focus ? COLORS[focus.id % COLORS.length] : "#64748b"} fillOpacity={0.7} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="text-sm font-medium text-slate-700">Rank stability while sweeping</div>
+              <select
+                value={sweepCriterionInfo?.key ?? ""}
+                onChange={(e) => setSweepKey(e.target.value)}
+                className={selectClass}
+                aria-label="Criterion"
+              >
+                {analysis.map((a) => (
+                  <option key={a.key} value={a.key}>
+                    {a.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="h-[300px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={sweepData} margin={{ left: 8, right: 16, top: 8 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="weight"
+                    type="number"
+                    domain={[0, SWEEP_MAX]}
+                    tickCount={SWEEP_MAX + 1}
+                    label={{ value: "Weight", position: "insideBottom", offset: -2 }}
+                  />
+                  <YAxis reversed domain={[1, useCases.length]} ticks={rankTicks} allowDecimals={false} width={30} />
+                  <RechartsTooltip labelFormatter={(w) => `Weight ${Number(w).toFixed(2)}`} />
+                  {sweepCriterionInfo && (
+                    <ReferenceLine x={sweepCriterionInfo.weight} stroke="#334155" strokeDasharray="4 4" />
+                  )}
+                  {useCases.map((u) => (
+                    <Line
+                      key={u.id}
+                      type="stepAfter"
+                      dataKey={`uc-${u.id}`}
+                      name={displayName(u)}
+                      stroke={COLORS[u.id % COLORS.length]}
+                      strokeWidth={u.id === focus?.id ? 3 : 1.5}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-left text-sm">
+              <thead>
+                <tr className="border-b text-slate-600">
+                  <th className="py-2 pr-4">Criterion</th>
+                  <th className="py-2 pr-4">Weight</th>
+                  <th className="py-2 pr-4">Use cases that move</th>
+                  <th className="py-2 pr-4">Raising it</th>
+                  <th className="py-2">Lowering it</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analysis.map((a) => (
+                  <tr key={a.key} className="border-b align-top last:border-0">
+                    <td className="py-2 pr-4">{a.label}</td>
+                    <td className="py-2 pr-4 font-mono">{a.weight.toFixed(1)}</td>
+                    <td className="py-2 pr-4">
+                      {a.movers.length === 0 ? (
+                        <span className="text-slate-400">none</span>
+                      ) : (
+                        <div className="flex flex-wrap gap-1">
+                          {a.movers.map((id) => {
+                            const { best, worst } = a.rankRange[id];
+                            return (
+                              <span
+                                key={id}
+                                className="rounded border px-1.5 text-xs"
+                                style={{ color: COLORS[id % COLORS.length], borderColor: COLORS[id % COLORS.length] }}
+                              >
+                                {displayName(byId(id)!)} #{best}–#{worst}
+                              </span>
+                            );
+                          })}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">{describeThreshold(a.raise, "Raise")}</td>
+                    <td className="py-2">{describeThreshold(a.lower, "Lower")}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-slate-500">
+              “Raise to 2.35 → X” means that once this weight passes 2.35 (others unchanged), X replaces the current #1.
+            </p>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Check, Copy, Link2 } from "lucide-react";
+import { LONG_LINK, type ShareMode } from "@/lib/share";
+
+/**
+ * Toolbar button that builds a read-only or editable link to the current
+ * project and copies it to the clipboard.
+ */
+export default function SharePanel({ onCreateLink }: { onCreateLink: (mode: ShareMode) => Promise<string> }) {
+  const [open, setOpen] = useState(false);
+  const [link, setLink] = useState<{ mode: ShareMode; url: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Clipboard access can be refused; the link stays selectable in the field below
+  async function copy(url: string) {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      setError("Could not copy automatically — copy the link below manually.");
+    }
+  }
+
+  async function create(mode: ShareMode) {
+    setCopied(false);
+    setError(null);
+    let url: string;
+    try {
+      url = await onCreateLink(mode);
+    } catch (e) {
+      setLink(null);
+      setError(`The link could not be created. ${(e as Error).message}`);
+      return;
+    }
+    setLink({ mode, url });
+    await copy(url);
+  }
+
+  return (
+    <div className="relative">
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant={open ? "secondary" : "outline"}
+            size="icon"
+            onClick={() => setOpen((o) => !o)}
+            aria-label="Share project"
+            aria-expanded={open}
+          >
+            <Link2 className="h-4 w-4" />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>Share a link to this project</TooltipContent>
+      </Tooltip>
+
+      {open && (
+        <div className="absolute right-0 top-11 z-20 w-96 space-y-3 rounded-xl border bg-white p-3 shadow-lg">
+          <div className="text-sm font-medium text-slate-700">Share project</div>
+          <p className="text-xs text-slate-600">
+            The whole project is packed into the link itself — nothing is uploaded. Recipients see the step you are on.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => create("view")}>
+              Copy read-only link
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => create("edit")}>
+              Copy editable link
+            </Button>
+          </div>
+
+          {link && (
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Input value={link.url} readOnly onFocus={(e) => e.currentTarget.select()} className="h-8 text-xs" />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    setError(null);
+                    copy(link.url);
+                  }}
+                  aria-label="Copy link"
+                >
+                  {copied ? <Check className="h-4 w-4 text-emerald-600" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+              <div className="text-xs text-slate-500">
+                {copied ? "Copied. " : ""}
+                {link.mode === "view"
+                  ? "Opens as a read-only snapshot."
+                  : "Opens as a new workspace the recipient can edit."}{" "}
+                {link.url.length.toLocaleString()} characters.
+              </div>
+              {link.url.length > LONG_LINK && (
+                <div className="text-xs text-amber-700">
+                  Long links can be cut off by some chat and email apps. If the recipient sees an "incomplete link"
+                  warning, send the exported project file instead.
+                </div>
+              )}
+            </div>
+          )}
+          {error && <div className="text-xs text-red-700">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
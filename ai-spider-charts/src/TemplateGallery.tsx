@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Save, Trash2, X } from "lucide-react";
+import { READINESS, band } from "./Scoring_Readiness";
+import type { ProjectTemplate } from "@/lib/templates";
+
+/**
+ * Gallery for starting a new workspace from a sector template or one of the
+ * organization's saved templates, and for saving the current project as one.
+ */
+export default function TemplateGallery({
+  templates,
+  onUse,
+  onSave,
+  onDelete,
+  onClose,
+}: {
+  templates: ProjectTemplate[];
+  onUse: (template: ProjectTemplate) => void;
+  onSave: (details: { name: string; sector: string; description: string }) => boolean;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState({ name: "", sector: "", description: "" });
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  function save() {
+    const name = draft.name.trim();
+    if (!name) return;
+    if (onSave({ name, sector: draft.sector.trim() || "Custom", description: draft.description.trim() })) {
+      setDraft({ name: "", sector: "", description: "" });
+      setSaveError(null);
+    } else {
+      setSaveError("The template could not be saved — browser storage may be full.");
+    }
+  }
+
+  function confirmDelete(t: ProjectTemplate) {
+    if (window.confirm(`Delete the template "${t.name}"? Workspaces created from it are not affected.`)) {
+      onDelete(t.id);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle>Start from a template</CardTitle>
+          <p className="text-sm text-slate-600">
+            Each template opens as a new workspace with readiness defaults, seeded use cases and suggested board
+            positions. Your current workspace is kept.
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close templates">
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          {templates.map((t) => {
+            const { scores, useCases } = t.state;
+            const avg = READINESS.reduce((sum, r) => sum + scores[r.key], 0) / READINESS.length;
+            const { label, tone } = band(avg);
+            return (
+              <div key={t.id} className="flex flex-col gap-2 rounded-xl border bg-white p-4">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-700">{t.sector}</span>
+                  {!t.builtIn && (
+                    <div className="flex items-center gap-1">
+                      <span className="text-xs text-slate-500">Saved</span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => confirmDelete(t)}
+                        aria-label={`Delete template ${t.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                <div className="font-medium">{t.name}</div>
+                {t.description && <p className="text-sm text-slate-600">{t.description}</p>}
+                <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+                  <span>
+                    {useCases.length} use case{useCases.length === 1 ? "" : "s"}
+                  </span>
+                  <span className={`rounded-full border px-2 py-0.5 ${tone}`}>
+                    Readiness {avg.toFixed(1)} · {label}
+                  </span>
+                </div>
+                <ul className="list-disc pl-5 text-xs text-slate-600">
+                  {useCases.slice(0, 3).map((u) => (
+                    <li key={u.id} className="truncate">
+                      {u.name}
+                    </li>
+                  ))}
+                  {useCases.length > 3 && <li className="list-none text-slate-400">and {useCases.length - 3} more</li>}
+                </ul>
+                <Button size="sm" className="mt-auto self-start" onClick={() => onUse(t)}>
+                  Use template
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-3 rounded-xl border bg-slate-50 p-4">
+          <div className="text-sm font-medium text-slate-700">Save this project as a template</div>
+          <p className="text-xs text-slate-600">
+            Saves the current readiness scores, criteria, use cases and board positions so other projects can start
+            from them.
+          </p>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="template-name">Name</Label>
+              <Input
+                id="template-name"
+                value={draft.name}
+                onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))}
+                placeholder="e.g. Municipal services 2025"
+                maxLength={60}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="template-sector">Sector</Label>
+              <Input
+                id="template-sector"
+                value={draft.sector}
+                onChange={(e) => setDraft((d) => ({ ...d, sector: e.target.value }))}
+                placeholder="Custom"
+                maxLength={30}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea
+              id="template-description"
+              value={draft.description}
+              onChange={(e) => setDraft((d) => ({ ...d, description: e.target.value }))}
+              rows={2}
+            />
+          </div>
+          <div className="flex items-center gap-3">
+            <Button variant="outline" onClick={save} disabled={!draft.name.trim()}>
+              <Save className="mr-2 h-4 w-4" /> Save template
+            </Button>
+            {saveError && <span className="text-sm text-red-700">{saveError}</span>}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,147 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { COLORS, type Criterion, type UseCase } from "@/lib/useCases";
+import { rankUseCases, type ScoringConfig } from "@/lib/scoring";
+import { DEFAULT_RUNS, RUN_OPTIONS, hasRanges, simulateRanking } from "@/lib/uncertainty";
+
+const selectClass = "h-8 rounded-md border border-input bg-white px-2 text-sm";
+
+const displayName = (u: UseCase) => u.name || `Use Case ${u.id + 1}`;
+
+/**
+ * Monte Carlo view of the ranking: every run draws each score between its low
+ * and high estimate (most often near the likely score) and re-ranks, giving the
+ * probability that a use case makes the top N and a 90% interval on its score.
+ */
+export default function UncertaintyPanel({
+  useCases,
+  criteria,
+  scoring,
+}: {
+  useCases: UseCase[];
+  criteria: Criterion[];
+  scoring: ScoringConfig;
+}) {
+  const [open, setOpen] = useState(false);
+  const [topN, setTopN] = useState(3);
+  const [runs, setRuns] = useState(DEFAULT_RUNS);
+
+  const anyRanges = hasRanges(useCases);
+  const ranks = useMemo(() => rankUseCases(useCases, criteria, scoring), [useCases, criteria, scoring]);
+  // Only computed while the panel is open
+  const simulated = useMemo(
+    () => (open ? simulateRanking(useCases, criteria, scoring, topN, runs) : null),
+    [open, useCases, criteria, scoring, topN, runs]
+  );
+
+  const rows = simulated
+    ? ranks
+        .map((r) => ({ rank: r, use: useCases.find((u) => u.id === r.id)!, sim: simulated[r.id] }))
+        .sort((a, b) => b.sim.pTop - a.sim.pTop || a.sim.meanRank - b.sim.meanRank)
+    : [];
+  const topChoices = Array.from({ length: Math.max(1, useCases.length - 1) }, (_, i) => i + 1);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Probabilistic Ranking</CardTitle>
+          <p className="text-sm text-slate-600">
+            How likely is each use case to make the top {topN} when scores are uncertain?
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setOpen((o) => !o)}>
+          {open ? <ChevronDown className="mr-2 h-4 w-4" /> : <ChevronRight className="mr-2 h-4 w-4" />}
+          {open ? "Hide simulation" : "Run simulation"}
+        </Button>
+      </CardHeader>
+
+      {open && (
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              Top
+              <select value={topN} onChange={(e) => setTopN(Number(e.target.value))} className={selectClass}>
+                {topChoices.map((n) => (
+                  <option key={n} value={n}>
+                    {n}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Runs
+              <select value={runs} onChange={(e) => setRuns(Number(e.target.value))} className={selectClass}>
+                {RUN_OPTIONS.map((n) => (
+                  <option key={n} value={n}>
+                    {n.toLocaleString()}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {!anyRanges && (
+            <p className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+              No score has a low–high range yet, so every run gives the current ranking. Add ranges with “+ uncertainty
+              range” under the criteria you are least sure about.
+            </p>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-left text-sm">
+              <thead>
+                <tr className="border-b text-slate-600">
+                  <th className="py-2 pr-4">Use case</th>
+                  <th className="py-2 pr-4">Current rank</th>
+                  <th className="py-2 pr-4">P(top {topN})</th>
+                  <th className="py-2 pr-4">Mean rank</th>
+                  <th className="py-2">Score (90% interval)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ rank, use, sim }) => (
+                  <tr key={use.id} className="border-b last:border-0">
+                    <td className="py-2 pr-4">
+                      <span className="inline-flex items-center gap-2">
+                        <span
+                          className="inline-block h-2.5 w-2.5 rounded-full"
+                          style={{ backgroundColor: COLORS[use.id % COLORS.length] }}
+                        />
+                        {displayName(use)}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-4 font-mono">#{rank.rank}</td>
+                    <td className="py-2 pr-4">
+                      <div className="flex items-center gap-2">
+                        <div className="h-2 w-24 overflow-hidden rounded bg-slate-100">
+                          <div
+                            className="h-full rounded"
+                            style={{ width: `${sim.pTop * 100}%`, backgroundColor: COLORS[use.id % COLORS.length] }}
+                          />
+                        </div>
+                        <span className="font-mono">{Math.round(sim.pTop * 100)}%</span>
+                      </div>
+                    </td>
+                    <td className="py-2 pr-4 font-mono">{sim.meanRank.toFixed(1)}</td>
+                    <td className="py-2 font-mono">
+                      {rank.score.toFixed(2)}{" "}
+                      <span className="text-slate-500">
+                        [{sim.score.low.toFixed(2)} – {sim.score.high.toFixed(2)}]
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-slate-500">
+              Scores without a range stay fixed. Runs use a fixed seed, so the same inputs always give the same figures.
+            </p>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
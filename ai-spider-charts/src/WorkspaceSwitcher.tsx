@@ -0,0 +1,122 @@
+import { useState, type ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Building2, Check, Copy, LayoutTemplate, Pencil, Plus, Trash2, X } from "lucide-react";
+import type { WorkspaceMeta } from "@/lib/workspaces";
+
+export type SaveStatus = { state: "saved"; at: Date } | { state: "error" } | { state: "idle" };
+
+/**
+ * Workspace picker shown above the wizard.
+ * Lists saved projects and lets the user create (blank or from a template),
+ * rename, duplicate and delete them, or open the department portfolio.
+ */
+export default function WorkspaceSwitcher({
+  workspaces,
+  activeId,
+  saveStatus,
+  onSwitch,
+  onCreate,
+  onOpenTemplates,
+  onOpenPortfolio,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: {
+  workspaces: WorkspaceMeta[];
+  activeId: string;
+  saveStatus: SaveStatus;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onOpenTemplates: () => void;
+  onOpenPortfolio: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const active = workspaces.find((w) => w.id === activeId);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  function startRename() {
+    setDraft(active?.name ?? "");
+    setEditing(true);
+  }
+
+  function commitRename() {
+    const name = draft.trim();
+    if (name) onRename(activeId, name);
+    setEditing(false);
+  }
+
+  function confirmDelete() {
+    if (window.confirm(`Delete "${active?.name ?? "this workspace"}"? This cannot be undone.`)) {
+      onDelete(activeId);
+    }
+  }
+
+  const iconButton = (label: string, icon: ReactNode, onClick: () => void, disabled = false) => (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button variant="outline" size="icon" onClick={onClick} disabled={disabled} aria-label={label}>
+          {icon}
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent>{label}</TooltipContent>
+    </Tooltip>
+  );
+
+  return (
+    <div className="flex flex-col gap-2 rounded-xl border bg-white p-3 sm:flex-row sm:items-center sm:justify-between">
+      <div className="flex flex-1 items-center gap-2">
+        <span className="text-sm font-medium text-slate-700">Workspace</span>
+        {editing ? (
+          <>
+            <Input
+              autoFocus
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") commitRename();
+                if (e.key === "Escape") setEditing(false);
+              }}
+              className="h-9 max-w-xs"
+              maxLength={60}
+            />
+            {iconButton("Save name", <Check className="h-4 w-4" />, commitRename)}
+            {iconButton("Cancel", <X className="h-4 w-4" />, () => setEditing(false))}
+          </>
+        ) : (
+          <select
+            value={activeId}
+            onChange={(e) => onSwitch(e.target.value)}
+            className="h-9 max-w-xs flex-1 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm"
+          >
+            {workspaces.map((w) => (
+              <option key={w.id} value={w.id}>
+                {w.name}
+              </option>
+            ))}
+          </select>
+        )}
+        {!editing && (
+          <>
+            {iconButton("New workspace", <Plus className="h-4 w-4" />, onCreate)}
+            {iconButton("New from template", <LayoutTemplate className="h-4 w-4" />, onOpenTemplates)}
+            {iconButton("Rename", <Pencil className="h-4 w-4" />, startRename)}
+            {iconButton("Duplicate", <Copy className="h-4 w-4" />, () => onDuplicate(activeId))}
+            {iconButton("Delete", <Trash2 className="h-4 w-4" />, confirmDelete)}
+            {iconButton("Department portfolio", <Building2 className="h-4 w-4" />, onOpenPortfolio)}
+          </>
+        )}
+      </div>
+      <div className="text-xs text-slate-500">
+        {saveStatus.state === "saved" && <>Autosaved at {saveStatus.at.toLocaleTimeString()}</>}
+        {saveStatus.state === "error" && (
+          <span className="text-red-600">Autosave failed — browser storage may be full.</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useCallback, useReducer, type SetStateAction } from "react";
+
+// -----------------------------
+// Undo/redo stack for a single state value
+// -----------------------------
+
+export type HistoryEntry<T> = {
+  state: T; // snapshot on the *other* side of the change (before it for `past`, after it for `future`)
+  label: string;
+  key: string;
+  at: number;
+};
+
+/**
+ * Describes what changed between two states. `key` groups rapid repeats of the
+ * same edit (dragging a token, sliding a score) into one history entry.
+ * Return null for changes that should not be recorded (e.g. UI-only fields).
+ */
+export type DescribeChange<T> = (prev: T, next: T) => { key: string; label: string } | null;
+
+type HistoryState<T> = { past: HistoryEntry<T>[]; present: T; future: HistoryEntry<T>[] };
+
+type HistoryAction<T> =
+  | { type: "set"; action: SetStateAction<T>; label?: string; at: number }
+  | { type: "undo" }
+  | { type: "redo" }
+  | { type: "reset"; state: T };
+
+const LIMIT = 100;
+const COALESCE_MS = 1000;
+
+function reducerFor<T>(describe: DescribeChange<T>) {
+  return (s: HistoryState<T>, a: HistoryAction<T>): HistoryState<T> => {
+    switch (a.type) {
+      case "set": {
+        const next =
+          typeof a.action === "function" ? (a.action as (prev: T) => T)(s.present) : a.action;
+        if (next === s.present) return s;
+
+        const change = a.label ? { key: `label:${a.at}`, label: a.label } : describe(s.present, next);
+        // Unrecorded changes (e.g. UI-only state) still invalidate redo, which would overwrite them
+        if (!change) return { ...s, present: next, future: [] };
+
+        const last = s.past[s.past.length - 1];
+        if (last && !a.label && last.key === change.key && a.at - last.at < COALESCE_MS) {
+          // Same edit repeated quickly: extend the previous entry instead of adding one
+          const merged = describe(last.state, next);
+          const past = s.past.slice(0, -1);
+          return {
+            past: merged ? [...past, { ...last, label: merged.label, at: a.at }] : past,
+            present: next,
+            future: [],
+          };
+        }
+
+        return {
+          past: [...s.past, { state: s.present, ...change, at: a.at }].slice(-LIMIT),
+          present: next,
+          future: [],
+        };
+      }
+      case "undo": {
+        const last = s.past[s.past.length - 1];
+        if (!last) return s;
+        return {
+          past: s.past.slice(0, -1),
+          present: last.state,
+          future: [{ ...last, state: s.present }, ...s.future],
+        };
+      }
+      case "redo": {
+        const [first, ...rest] = s.future;
+        if (!first) return s;
+        return {
+          past: [...s.past, { ...first, state: s.present }],
+          present: first.state,
+          future: rest,
+        };
+      }
+      case "reset":
+        return { past: [], present: a.state, future: [] };
+    }
+  };
+}
+
+export function useHistory<T>(initial: T, describe: DescribeChange<T>) {
+  const [state, dispatch] = useReducer(reducerFor(describe), {
+    past: [],
+    present: initial,
+    future: [],
+  });
+
+  /** Like a useState setter; pass `label` to record the change under an explicit name. */
+  const set = useCallback(
+    (action: SetStateAction<T>, label?: string) => dispatch({ type: "set", action, label, at: Date.now() }),
+    []
+  );
+  const undo = useCallback(() => dispatch({ type: "undo" }), []);
+  const redo = useCallback(() => dispatch({ type: "redo" }), []);
+  const reset = useCallback((next: T) => dispatch({ type: "reset", state: next }), []);
+
+  return {
+    present: state.present,
+    past: state.past,
+    future: state.future,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    set,
+    undo,
+    redo,
+    reset,
+  };
+}
+
+/** Derives a useState-style setter for one field of an object held in history. */
+export function useFieldSetter<T, K extends keyof T>(set: (action: SetStateAction<T>) => void, key: K) {
+  return useCallback(
+    (action: SetStateAction<T[K]>) =>
+      set((prev) => ({
+        ...prev,
+        [key]: typeof action === "function" ? (action as (p: T[K]) => T[K])(prev[key]) : action,
+      })),
+    [set, key]
+  );
+}
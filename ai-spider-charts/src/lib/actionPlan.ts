@@ -0,0 +1,226 @@
+import { READINESS, type ReadinessKey, type ReadinessScores } from "@/Scoring_Readiness";
+
+// -----------------------------
+// Readiness gap action plan
+// -----------------------------
+// A playbook entry fires when every dimension it lists scores at or below its
+// threshold; entries on several dimensions cover combinations (e.g. weak data
+// *and* weak infrastructure). The generated plan is a list of editable items
+// ordered by how far the triggering dimensions fall short.
+
+export type PlaybookEntry = {
+  id: string;
+  dimensions: ReadinessKey[]; // all must be at or below `threshold`
+  threshold: number; // 1–4
+  action: string;
+  owner: string;
+  timeframe: string;
+};
+
+export type ActionItem = {
+  id: string;
+  entryId: string | null; // null for items added by hand
+  dimensions: ReadinessKey[];
+  action: string;
+  owner: string;
+  timeframe: string;
+  done: boolean;
+};
+
+export type ActionPlanConfig = {
+  playbook: PlaybookEntry[];
+  items: ActionItem[]; // in priority order
+};
+
+const entry = (
+  id: string,
+  dimensions: ReadinessKey[],
+  threshold: number,
+  action: string,
+  owner: string,
+  timeframe: string
+): PlaybookEntry => ({ id, dimensions, threshold, action, owner, timeframe });
+
+export const DEFAULT_PLAYBOOK: PlaybookEntry[] = [
+  // Combinations first: they replace several single-dimension fixes with one joined-up one
+  entry(
+    "data-tech",
+    ["dataMaturity", "techInfra"],
+    2,
+    "Fund a shared data platform project: inventory key datasets, move them off spreadsheets and expose them through documented APIs.",
+    "CIO / Head of Data",
+    "6–12 months"
+  ),
+  entry(
+    "governance-ethics",
+    ["governanceRisk", "ethicsTrust"],
+    2,
+    "Set up an AI review board and adopt a responsible-AI policy with impact assessments for every pilot.",
+    "Legal & Compliance",
+    "0–6 months"
+  ),
+  entry(
+    "people-change",
+    ["peopleSkills", "changeReadiness"],
+    2,
+    "Run an AI literacy and change programme: champions network, hands-on workshops and visible quick wins.",
+    "HR / Change lead",
+    "3–9 months"
+  ),
+  entry(
+    "resources-leadership",
+    ["resourcesBudget", "leadershipAlignment"],
+    2,
+    "Prepare an executive briefing and business case that ties AI pilots to strategy and secures ring-fenced funding.",
+    "Director / Strategy office",
+    "0–3 months"
+  ),
+  entry(
+    "data",
+    ["dataMaturity"],
+    2,
+    "Catalogue the datasets each candidate use case needs, assign data owners and fix the top quality issues.",
+    "Head of Data",
+    "0–6 months"
+  ),
+  entry(
+    "people",
+    ["peopleSkills"],
+    2,
+    "Train a first cohort of AI champions and give all staff a short AI awareness course.",
+    "HR / Learning & Development",
+    "0–6 months"
+  ),
+  entry(
+    "processes",
+    ["processesWorkflows"],
+    2,
+    "Map and document the workflows the priority use cases would change before automating them.",
+    "Operations manager",
+    "0–3 months"
+  ),
+  entry(
+    "governance",
+    ["governanceRisk"],
+    2,
+    "Draft AI usage guidelines covering approval, accountability and risk classification.",
+    "Legal & Compliance",
+    "0–3 months"
+  ),
+  entry(
+    "resources",
+    ["resourcesBudget"],
+    2,
+    "Identify a small pilot budget and dedicated staff time for the first AI use case.",
+    "Finance / Director",
+    "0–3 months"
+  ),
+  entry(
+    "tech",
+    ["techInfra"],
+    2,
+    "Assess integration options for legacy systems and choose a cloud or platform route for AI workloads.",
+    "CIO / IT architecture",
+    "3–9 months"
+  ),
+  entry(
+    "change",
+    ["changeReadiness"],
+    2,
+    "Involve front-line staff in designing pilots and communicate early results openly.",
+    "Change lead",
+    "0–6 months"
+  ),
+  entry(
+    "leadership",
+    ["leadershipAlignment"],
+    2,
+    "Name an executive sponsor and add AI objectives to the departmental strategy.",
+    "Director",
+    "0–3 months"
+  ),
+  entry(
+    "partnerships",
+    ["partnerships"],
+    2,
+    "Set up partnerships with a university, a peer department or a vendor for expertise and benchmarking.",
+    "Innovation / Partnerships lead",
+    "3–12 months"
+  ),
+  entry(
+    "citizens",
+    ["citizenOrientation"],
+    2,
+    "Add user research and citizen feedback loops to the design of every AI-enabled service.",
+    "Service design lead",
+    "3–6 months"
+  ),
+  entry(
+    "ethics",
+    ["ethicsTrust"],
+    2,
+    "Publish how AI is used in the department and test pilots for bias before launch.",
+    "Ethics / Data protection officer",
+    "0–6 months"
+  ),
+];
+
+export const defaultActionPlan = (): ActionPlanConfig => ({ playbook: DEFAULT_PLAYBOOK, items: [] });
+
+export const newPlanId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const dimensionLabel = (key: ReadinessKey) => READINESS.find((r) => r.key === key)?.label ?? key;
+
+export const entryMatches = (e: PlaybookEntry, scores: ReadinessScores) =>
+  e.dimensions.length > 0 && e.dimensions.every((d) => scores[d] <= e.threshold);
+
+/** How far the triggering dimensions fall short of 5, with a bonus for combinations. */
+function urgency(e: PlaybookEntry, scores: ReadinessScores) {
+  const gap = e.dimensions.reduce((sum, d) => sum + (5 - scores[d]), 0) / e.dimensions.length;
+  return gap + 0.5 * (e.dimensions.length - 1);
+}
+
+/**
+ * Items for every matching playbook entry, most urgent first. A single-
+ * dimension entry is skipped when a matching combination already covers that
+ * dimension.
+ */
+export function generatePlan(scores: ReadinessScores, playbook: PlaybookEntry[]): ActionItem[] {
+  const matching = playbook.filter((e) => entryMatches(e, scores));
+  const covered = new Set(matching.filter((e) => e.dimensions.length > 1).flatMap((e) => e.dimensions));
+  return matching
+    .filter((e) => e.dimensions.length > 1 || !covered.has(e.dimensions[0]))
+    .map((e, i) => ({ e, i, urgency: urgency(e, scores) }))
+    .sort((a, b) => b.urgency - a.urgency || a.i - b.i)
+    .map(({ e }) => ({
+      id: newPlanId("a"),
+      entryId: e.id,
+      dimensions: e.dimensions,
+      action: e.action,
+      owner: e.owner,
+      timeframe: e.timeframe,
+      done: false,
+    }));
+}
+
+/** Standalone Markdown document of the plan. */
+export function toActionPlanMarkdown(items: ActionItem[], scores: ReadinessScores, title = "AI Readiness Improvement Plan") {
+  const cell = (s: string) => s.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+  const lowest = READINESS.filter((r) => scores[r.key] <= 2).map((r) => `${r.label} (${scores[r.key]}/5)`);
+  return [
+    `# ${title}`,
+    "",
+    lowest.length ? `Dimensions scoring 2 or lower: ${lowest.join(", ")}.` : "No dimension scores 2 or lower.",
+    "",
+    "| # | Action | Readiness dimensions | Owner | Time frame | Status |",
+    "| --- | --- | --- | --- | --- | --- |",
+    ...items.map(
+      (item, i) =>
+        `| ${i + 1} | ${cell(item.action)} | ${cell(item.dimensions.map(dimensionLabel).join(", "))} | ${cell(
+          item.owner
+        )} | ${cell(item.timeframe)} | ${item.done ? "Done" : "Open"} |`
+    ),
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,169 @@
+import type { Criterion, CriterionGroup } from "@/AISpiderCharts";
+
+// -----------------------------
+// Analytic Hierarchy Process (pairwise comparison)
+// -----------------------------
+// Judgments are stored per pair as "how many times more important is the
+// first item than the second" on Saaty's 1–9 scale (reciprocals for the other
+// direction). Pairs never judged count as equal. Priorities are the principal
+// eigenvector of the comparison matrix.
+
+export type Judgments = Record<string, number>; // "a|b" → a over b, 1/9..9
+
+export type PairwiseConfig = {
+  criteria: Judgments; // between criterion keys
+  useCases: Record<string, Judgments>; // criterion key → judgments between use case ids
+};
+
+export const defaultPairwiseConfig = (): PairwiseConfig => ({ criteria: {}, useCases: {} });
+
+/** Saaty's verbal scale; the even values are the steps in between. */
+export const SAATY_SCALE: Record<number, string> = {
+  1: "Equal",
+  2: "Equal to moderate",
+  3: "Moderate",
+  4: "Moderate to strong",
+  5: "Strong",
+  6: "Strong to very strong",
+  7: "Very strong",
+  8: "Very to extremely strong",
+  9: "Extreme",
+};
+
+/** Judgments are considered acceptable up to a consistency ratio of 10%. */
+export const CR_THRESHOLD = 0.1;
+
+// Saaty's random consistency index by matrix size
+const RANDOM_INDEX = [0, 0, 0, 0.58, 0.9, 1.12, 1.24, 1.32, 1.41, 1.45, 1.49, 1.51, 1.48, 1.56, 1.57, 1.59];
+
+const pairKey = (a: string | number, b: string | number) => `${a}|${b}`;
+
+export const clampJudgment = (n: number) => Math.max(1 / 9, Math.min(9, n));
+
+/** How many times more important `a` is than `b` (1 when not judged). */
+export function judgment(judgments: Judgments, a: string | number, b: string | number) {
+  const direct = judgments[pairKey(a, b)];
+  if (direct !== undefined) return direct;
+  const reverse = judgments[pairKey(b, a)];
+  return reverse !== undefined ? 1 / reverse : 1;
+}
+
+/** Records `a` over `b`; a pair is stored once, whichever direction it was first entered in. */
+export function setJudgment(judgments: Judgments, a: string | number, b: string | number, value: number): Judgments {
+  const reverse = pairKey(b, a);
+  if (judgments[reverse] !== undefined) return { ...judgments, [reverse]: clampJudgment(1 / value) };
+  return { ...judgments, [pairKey(a, b)]: clampJudgment(value) };
+}
+
+/** Drops judgments involving items that no longer exist. */
+export function pruneJudgments(judgments: Judgments, ids: (string | number)[]): Judgments {
+  const known = new Set(ids.map(String));
+  return Object.fromEntries(
+    Object.entries(judgments).filter(([k]) => {
+      const [a, b] = k.split("|");
+      return known.has(a) && known.has(b);
+    })
+  );
+}
+
+/** Keeps the judgments in step with the current criteria and use cases; returns the same object when nothing is dropped. */
+export function prunePairwise(config: PairwiseConfig, criteria: Criterion[], useCaseIds: number[]): PairwiseConfig {
+  const keys = criteria.map((c) => c.key);
+  const criteriaJudgments = pruneJudgments(config.criteria, keys);
+  const useCases = Object.fromEntries(
+    Object.entries(config.useCases)
+      .filter(([key]) => keys.includes(key))
+      .map(([key, judgments]) => [key, pruneJudgments(judgments, useCaseIds)])
+  );
+  const count = (j: PairwiseConfig) =>
+    Object.keys(j.criteria).length + Object.values(j.useCases).reduce((acc, u) => acc + Object.keys(u).length, 0);
+  const next = { criteria: criteriaJudgments, useCases };
+  return count(next) === count(config) && Object.keys(useCases).length === Object.keys(config.useCases).length
+    ? config
+    : next;
+}
+
+export type InconsistentJudgment = {
+  a: string | number;
+  b: string | number;
+  given: number; // a over b as entered
+  implied: number; // a over b according to the resulting priorities
+  factor: number; // how far apart the two are (≥ 1)
+};
+
+export type AhpResult = {
+  priorities: number[]; // same order as the ids, summing to 1
+  lambdaMax: number;
+  ci: number; // consistency index
+  cr: number; // consistency ratio; 0 for 1–2 items
+  consistent: boolean;
+  inconsistent: InconsistentJudgment[]; // judgments that disagree most with the rest, worst first
+};
+
+/** Priority vector, consistency ratio and the judgments most at odds with the rest. */
+export function analyzePairwise(ids: (string | number)[], judgments: Judgments): AhpResult {
+  const n = ids.length;
+  const matrix = ids.map((a) => ids.map((b) => (a === b ? 1 : judgment(judgments, a, b))));
+
+  // Principal eigenvector by power iteration
+  let w: number[] = ids.map(() => 1 / n);
+  for (let iter = 0; iter < 100; iter++) {
+    const next = matrix.map((row) => row.reduce((acc, v, j) => acc + v * w[j], 0));
+    const sum = next.reduce((a, b) => a + b, 0);
+    const normalized = next.map((v) => v / sum);
+    const delta = Math.max(...normalized.map((v, i) => Math.abs(v - w[i])));
+    w = normalized;
+    if (delta < 1e-10) break;
+  }
+
+  const lambdaMax = n > 0 ? matrix.reduce((acc, row, i) => acc + row.reduce((s, v, j) => s + v * w[j], 0) / w[i], 0) / n : 0;
+  const ci = n > 2 ? Math.max(0, (lambdaMax - n) / (n - 1)) : 0;
+  const ri = RANDOM_INDEX[Math.min(n, RANDOM_INDEX.length - 1)];
+  const cr = ri > 0 ? ci / ri : 0;
+
+  const consistent = cr <= CR_THRESHOLD;
+  const inconsistent = consistent
+    ? []
+    : ids
+        .flatMap((a, i) =>
+          ids.slice(i + 1).map((b, k) => {
+            const given = matrix[i][i + 1 + k];
+            const implied = w[i] / w[i + 1 + k];
+            return { a, b, given, implied, factor: Math.max(given / implied, implied / given) };
+          })
+        )
+        .filter((j) => j.factor >= 2)
+        .sort((x, y) => y.factor - x.factor)
+        .slice(0, 3);
+
+  return { priorities: w, lambdaMax, ci, cr, consistent, inconsistent };
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Turns criterion priorities into the ranking's weights: each group weight is
+ * its share of the priorities (averaging 1) and each criterion weight its share
+ * within the group (averaging 1), so effective weights match the priorities.
+ */
+export function weightsFromPriorities(criteria: Criterion[], priorities: number[]) {
+  const groups: CriterionGroup[] = ["Impact", "Feasibility"];
+  const total = (g: CriterionGroup) => criteria.reduce((acc, c, i) => acc + (c.group === g ? priorities[i] : 0), 0);
+  const count = (g: CriterionGroup) => criteria.filter((c) => c.group === g).length;
+  const groupWeights = Object.fromEntries(
+    groups.map((g) => [g, count(g) ? round2(Math.min(5, groups.length * total(g))) : 1])
+  ) as Record<CriterionGroup, number>;
+  return {
+    groupWeights,
+    criteria: criteria.map((c, i) => ({
+      ...c,
+      weight: round2(Math.min(5, (priorities[i] * count(c.group)) / total(c.group))),
+    })),
+  };
+}
+
+/** Use case priorities as 1–10 scores, the strongest at 10 and the rest in proportion. */
+export function scoresFromPriorities(priorities: number[]) {
+  const max = Math.max(...priorities);
+  return priorities.map((p) => (max > 0 ? Math.max(1, Math.round((10 * p) / max)) : 5));
+}
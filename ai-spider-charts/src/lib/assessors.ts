@@ -0,0 +1,111 @@
+import type { Criterion, UseCase } from "@/AISpiderCharts";
+
+// -----------------------------
+// Multi-assessor scoring
+// -----------------------------
+// Each named assessor keeps their own score set per use case
+// (`UseCase.assessorScores[assessorId]`). While a project has assessors,
+// `UseCase.scores` holds the consensus of those sets, so ranking, charts and
+// the board keep reading a single score per criterion.
+
+export type Assessor = { id: string; name: string };
+
+export type ConsensusMethod = "mean" | "median";
+
+export type AssessmentConfig = {
+  assessors: Assessor[];
+  method: ConsensusMethod;
+  spreadThreshold: number; // standard deviation (score points) above which a criterion is flagged
+};
+
+export const CONSENSUS_METHODS: { value: ConsensusMethod; label: string; help: string }[] = [
+  { value: "mean", label: "Mean", help: "Average of all assessors. Every score moves the consensus." },
+  { value: "median", label: "Median", help: "Middle score. One outlying assessor cannot drag the consensus." },
+];
+
+export const defaultAssessmentConfig = (): AssessmentConfig => ({
+  assessors: [],
+  method: "mean",
+  spreadThreshold: 2,
+});
+
+export const assessorName = (a: Assessor) => a.name || "Unnamed assessor";
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function mean(values: number[]) {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+export function consensusOf(values: number[], method: ConsensusMethod) {
+  if (values.length === 0) return 0;
+  return round1(method === "median" ? median(values) : mean(values));
+}
+
+/** Every assessor's score for one criterion, in assessor order (missing sets fall back to the consensus). */
+function assessorValues(u: UseCase, key: string, assessors: Assessor[]) {
+  return assessors.map((a) => u.assessorScores?.[a.id]?.[key] ?? u.scores[key]);
+}
+
+export type CriterionSpread = {
+  values: number[];
+  min: number;
+  max: number;
+  sd: number;
+  highVariance: boolean;
+};
+
+/** Disagreement on one criterion; null unless at least two assessors have scored. */
+export function criterionSpread(u: UseCase, key: string, config: AssessmentConfig): CriterionSpread | null {
+  if (config.assessors.length < 2) return null;
+  const values = assessorValues(u, key, config.assessors);
+  const m = mean(values);
+  const sd = Math.sqrt(mean(values.map((v) => (v - m) ** 2)));
+  return {
+    values,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    sd,
+    highVariance: sd > config.spreadThreshold,
+  };
+}
+
+/** Recomputes each use case's consensus `scores` from its assessor sets; a no-op without assessors. */
+export function applyConsensus(useCases: UseCase[], criteria: Criterion[], config: AssessmentConfig): UseCase[] {
+  if (config.assessors.length === 0) return useCases;
+  return useCases.map((u) => ({
+    ...u,
+    scores: Object.fromEntries(
+      criteria.map((c) => [c.key, consensusOf(assessorValues(u, c.key, config.assessors), config.method)])
+    ),
+  }));
+}
+
+/**
+ * Brings use cases in line with a changed assessor list: removed assessors'
+ * score sets are dropped, new assessors start from the current (rounded)
+ * consensus, then the consensus is recomputed with the new method.
+ */
+export function syncAssessors(
+  useCases: UseCase[],
+  criteria: Criterion[],
+  prev: AssessmentConfig,
+  next: AssessmentConfig
+): UseCase[] {
+  const keep = new Set(next.assessors.map((a) => a.id));
+  const added = next.assessors.filter((a) => !prev.assessors.some((p) => p.id === a.id));
+  const synced = useCases.map((u) => {
+    const sets = Object.fromEntries(Object.entries(u.assessorScores ?? {}).filter(([id]) => keep.has(id)));
+    added.forEach((a) => {
+      sets[a.id] = Object.fromEntries(criteria.map((c) => [c.key, Math.round(u.scores[c.key])]));
+    });
+    return { ...u, assessorScores: sets };
+  });
+  return applyConsensus(synced, criteria, next);
+}
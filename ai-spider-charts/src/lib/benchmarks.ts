@@ -0,0 +1,163 @@
+import { READINESS, type ReadinessKey, type ReadinessScores } from "@/Scoring_Readiness";
+
+// -----------------------------
+// Readiness benchmarks
+// -----------------------------
+// A benchmark is another department's (or a sector's average) readiness on
+// the same eleven dimensions, 1–5 with decimals allowed. A few illustrative
+// profiles are bundled; more can be imported from JSON and travel with the
+// project.
+
+export type BenchmarkProfile = {
+  id: string;
+  name: string;
+  description?: string;
+  scores: Record<ReadinessKey, number>;
+};
+
+export type BenchmarkConfig = {
+  imported: BenchmarkProfile[];
+  activeId: string | null; // profile compared against on Step 1, bundled or imported
+};
+
+export const defaultBenchmarkConfig = (): BenchmarkConfig => ({ imported: [], activeId: null });
+
+export const BUILT_IN_BENCHMARKS: BenchmarkProfile[] = [
+  {
+    id: "public-sector-average",
+    name: "Public sector average (illustrative)",
+    description: "A typical government department early in its AI journey.",
+    scores: {
+      dataMaturity: 2.6,
+      peopleSkills: 2.4,
+      processesWorkflows: 2.9,
+      governanceRisk: 2.5,
+      resourcesBudget: 2.2,
+      techInfra: 2.8,
+      changeReadiness: 2.7,
+      leadershipAlignment: 3.0,
+      partnerships: 2.3,
+      citizenOrientation: 2.9,
+      ethicsTrust: 2.6,
+    },
+  },
+  {
+    id: "digital-leader",
+    name: "Digital-leader department (illustrative)",
+    description: "A peer that already runs AI pilots in production.",
+    scores: {
+      dataMaturity: 4.0,
+      peopleSkills: 3.6,
+      processesWorkflows: 3.8,
+      governanceRisk: 3.7,
+      resourcesBudget: 3.4,
+      techInfra: 4.1,
+      changeReadiness: 3.9,
+      leadershipAlignment: 4.2,
+      partnerships: 3.5,
+      citizenOrientation: 3.8,
+      ethicsTrust: 3.7,
+    },
+  },
+  {
+    id: "service-delivery-peer",
+    name: "Service-delivery peer (illustrative)",
+    description: "A citizen-facing department with strong processes but legacy systems.",
+    scores: {
+      dataMaturity: 2.8,
+      peopleSkills: 2.9,
+      processesWorkflows: 3.6,
+      governanceRisk: 3.1,
+      resourcesBudget: 2.6,
+      techInfra: 2.3,
+      changeReadiness: 3.0,
+      leadershipAlignment: 3.2,
+      partnerships: 2.7,
+      citizenOrientation: 3.9,
+      ethicsTrust: 3.3,
+    },
+  },
+];
+
+export function allBenchmarks(config: BenchmarkConfig) {
+  return [...BUILT_IN_BENCHMARKS, ...config.imported];
+}
+
+export function activeBenchmark(config: BenchmarkConfig): BenchmarkProfile | null {
+  return allBenchmarks(config).find((p) => p.id === config.activeId) ?? null;
+}
+
+export const newBenchmarkId = () => `b-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const clamp15 = (n: number) => Math.max(1, Math.min(5, n));
+
+/** Reads one profile's scores; keys may be dimension keys or labels. Returns null if none match. */
+function readScores(raw: Record<string, unknown>): Record<ReadinessKey, number> | null {
+  const entries = READINESS.flatMap((r): [ReadinessKey, number][] => {
+    const value = raw[r.key] ?? raw[r.label];
+    const num = Number(value);
+    return value === undefined || value === null || value === "" || Number.isNaN(num)
+      ? []
+      : [[r.key, Math.round(clamp15(num) * 10) / 10]];
+  });
+  if (entries.length === 0) return null;
+  // Dimensions the file leaves out sit at the scale midpoint
+  return { ...Object.fromEntries(READINESS.map((r) => [r.key, 3])), ...Object.fromEntries(entries) } as Record<
+    ReadinessKey,
+    number
+  >;
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+/**
+ * Profiles from an imported JSON file. Accepts `{ name, scores }`, an array or
+ * `{ profiles: [...] }` of those, or a plain readiness export from Step 1
+ * (named after `fallbackName`). Throws when nothing usable is found.
+ */
+export function parseBenchmarkFile(raw: unknown, fallbackName: string): BenchmarkProfile[] {
+  const list = Array.isArray(raw) ? raw : isRecord(raw) && Array.isArray(raw.profiles) ? raw.profiles : [raw];
+  const profiles = list.flatMap((item, i): BenchmarkProfile[] => {
+    if (!isRecord(item)) return [];
+    const scores = readScores(isRecord(item.scores) ? item.scores : item);
+    if (!scores) return [];
+    const name =
+      typeof item.name === "string" && item.name.trim()
+        ? item.name.trim()
+        : list.length > 1
+        ? `${fallbackName} ${i + 1}`
+        : fallbackName;
+    return [
+      {
+        id: newBenchmarkId(),
+        name,
+        ...(typeof item.description === "string" && item.description.trim() ? { description: item.description.trim() } : {}),
+        scores,
+      },
+    ];
+  });
+  if (profiles.length === 0) throw new Error("No readiness scores found. Expected dimension keys or labels with 1–5 values.");
+  return profiles;
+}
+
+export type ReadinessGap = { key: ReadinessKey; label: string; own: number; peer: number; gap: number };
+
+/** Own score minus the benchmark's per dimension (negative: the department lags). */
+export function readinessGaps(scores: ReadinessScores, benchmark: BenchmarkProfile): ReadinessGap[] {
+  return READINESS.map((r) => ({
+    key: r.key,
+    label: r.label,
+    own: scores[r.key],
+    peer: benchmark.scores[r.key],
+    gap: Math.round((scores[r.key] - benchmark.scores[r.key]) * 10) / 10,
+  }));
+}
+
+/** Gaps of at least half a point behind the benchmark, worst first. */
+export function largestLags(gaps: ReadinessGap[], limit = 3) {
+  return gaps
+    .filter((g) => g.gap <= -0.5)
+    .sort((a, b) => a.gap - b.gap)
+    .slice(0, limit);
+}
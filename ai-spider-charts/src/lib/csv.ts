@@ -0,0 +1,244 @@
+import { READINESS, type ReadinessKey, type ReadinessScores } from "@/Scoring_Readiness";
+import type { Criterion, UseCase } from "@/AISpiderCharts";
+
+// -----------------------------
+// CSV reading and writing (RFC 4180: quoted fields, "" escapes, embedded newlines)
+// -----------------------------
+
+type Cell = string | number | boolean;
+
+function escapeCell(value: Cell) {
+  const s = String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** CSV text with a UTF-8 BOM so spreadsheet apps pick the right encoding. */
+export function toCsv(rows: Cell[][]) {
+  return "\uFEFF" + rows.map((r) => r.map(escapeCell).join(",")).join("\r\n");
+}
+
+// Some locales save "CSV" with semicolons; pick whichever separates the header more
+function detectDelimiter(text: string) {
+  const header = text.split(/\r?\n/, 1)[0];
+  return (header.match(/;/g)?.length ?? 0) > (header.match(/,/g)?.length ?? 0) ? ";" : ",";
+}
+
+/** Parses CSV text into rows of cells, dropping blank lines. */
+export function parseCsv(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(src);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+export function downloadCsv(filename: string, csv: string) {
+  const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// -----------------------------
+// Header mapping and row validation
+// -----------------------------
+
+export type CsvField = { key: string; label: string; required?: boolean; aliases?: string[] };
+
+/** Field key → column index in the file (null = not mapped). */
+export type ColumnMapping = Record<string, number | null>;
+
+export type RowResult<T> = {
+  line: number; // 1-based row in the file (header = 1, blank lines not counted)
+  value: T | null; // null when the row has errors and will be skipped
+  errors: string[];
+  warnings: string[];
+};
+
+const normalizeHeader = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/** Matches each field to the first header equal to its label, key or an alias (ignoring case and punctuation). */
+export function guessMapping(fields: CsvField[], headers: string[]): ColumnMapping {
+  const names = headers.map(normalizeHeader);
+  return Object.fromEntries(
+    fields.map((f) => {
+      const candidates = [f.label, f.key, ...(f.aliases ?? [])].map(normalizeHeader);
+      const idx = names.findIndex((n) => candidates.includes(n));
+      return [f.key, idx >= 0 ? idx : null];
+    })
+  );
+}
+
+function cellAt(row: string[], mapping: ColumnMapping, key: string) {
+  const idx = mapping[key];
+  return idx === null || idx === undefined ? undefined : (row[idx] ?? "").trim();
+}
+
+function parseInRange(raw: string, min: number, max: number) {
+  const n = Number(raw.replace(",", ".")); // decimal comma from semicolon-separated files
+  return raw !== "" && Number.isFinite(n) && n >= min && n <= max ? n : null;
+}
+
+const TRUE_WORDS = ["true", "yes", "y", "1", "shown", "visible"];
+const FALSE_WORDS = ["false", "no", "n", "0", "hidden"];
+
+// -----------------------------
+// Use cases: Name, Description, Visible, one column per criterion
+// -----------------------------
+
+export type UseCaseRow = Omit<UseCase, "id" | "assessorScores">;
+
+export function csvFieldsForUseCases(criteria: Criterion[]): CsvField[] {
+  return [
+    { key: "name", label: "Name", required: true, aliases: ["use case", "title"] },
+    { key: "description", label: "Description" },
+    { key: "visible", label: "Visible" },
+    ...criteria.map((c) => ({ key: `score:${c.key}`, label: c.label, aliases: [c.key] })),
+  ];
+}
+
+export function toUseCaseCsv(useCases: UseCase[], criteria: Criterion[]) {
+  return toCsv([
+    ["Name", "Description", "Visible", ...criteria.map((c) => c.label)],
+    ...useCases.map((u) => [u.name, u.description, u.visible, ...criteria.map((c) => u.scores[c.key])]),
+  ]);
+}
+
+export function readUseCaseRows(rows: string[][], mapping: ColumnMapping, criteria: Criterion[]): RowResult<UseCaseRow>[] {
+  return rows.map((row, i) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const name = cellAt(row, mapping, "name") ?? "";
+    if (!name) errors.push("Name is empty.");
+
+    const visibleRaw = (cellAt(row, mapping, "visible") ?? "").toLowerCase();
+    let visible = true;
+    if (FALSE_WORDS.includes(visibleRaw)) visible = false;
+    else if (visibleRaw && !TRUE_WORDS.includes(visibleRaw)) errors.push(`Visible "${visibleRaw}" should be yes or no.`);
+
+    const scores: UseCaseRow["scores"] = {};
+    criteria.forEach((c) => {
+      const raw = cellAt(row, mapping, `score:${c.key}`);
+      if (raw === undefined) {
+        scores[c.key] = 5;
+        return;
+      }
+      if (raw === "") {
+        scores[c.key] = 5;
+        warnings.push(`${c.label} is blank; using 5.`);
+        return;
+      }
+      const n = parseInRange(raw, 1, 10);
+      if (n === null) errors.push(`${c.label} "${raw}" must be a number from 1 to 10.`);
+      else if (!Number.isInteger(n)) warnings.push(`${c.label} ${raw} rounded to ${Math.round(n)}.`);
+      scores[c.key] = Math.round(n ?? 5);
+    });
+
+    return {
+      line: i + 2,
+      value: errors.length ? null : { name, description: cellAt(row, mapping, "description") ?? "", visible, scores },
+      errors,
+      warnings,
+    };
+  });
+}
+
+// -----------------------------
+// Readiness: one row per dimension (Dimension, Score, Justification, Evidence)
+// -----------------------------
+
+// Several evidence references share one cell
+const EVIDENCE_SEPARATOR = "; ";
+
+/** `note` and `links` are only set when the file has those columns. */
+export type ReadinessRow = { key: ReadinessKey; score: number; note?: string; links?: string[] };
+
+export const READINESS_CSV_FIELDS: CsvField[] = [
+  { key: "dimension", label: "Dimension", required: true, aliases: ["area", "key"] },
+  { key: "score", label: "Score", required: true, aliases: ["rating", "value"] },
+  { key: "note", label: "Justification", aliases: ["notes", "rationale", "comment"] },
+  { key: "links", label: "Evidence", aliases: ["links", "references", "sources"] },
+];
+
+export function toReadinessCsv(scores: ReadinessScores) {
+  return toCsv([
+    ["Dimension", "Score", "Justification", "Evidence"],
+    ...READINESS.map((r) => {
+      const e = scores.evidence?.[r.key];
+      return [r.label, scores[r.key], e?.note ?? "", (e?.links ?? []).join(EVIDENCE_SEPARATOR)];
+    }),
+  ]);
+}
+
+export function readReadinessRows(rows: string[][], mapping: ColumnMapping): RowResult<ReadinessRow>[] {
+  const seen = new Set<ReadinessKey>();
+  return rows.map((row, i) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const dimension = cellAt(row, mapping, "dimension") ?? "";
+    const match = READINESS.find(
+      (r) => normalizeHeader(r.label) === normalizeHeader(dimension) || normalizeHeader(r.key) === normalizeHeader(dimension)
+    );
+    if (!match) errors.push(`Unknown dimension "${dimension}".`);
+    else if (seen.has(match.key)) warnings.push(`${match.label} appears more than once; the last row wins.`);
+    if (match) seen.add(match.key);
+
+    const raw = cellAt(row, mapping, "score") ?? "";
+    const n = parseInRange(raw, 1, 5);
+    const score = n !== null && Number.isInteger(n) ? n : null;
+    if (score === null) errors.push(`Score "${raw}" must be a whole number from 1 to 5.`);
+
+    const note = cellAt(row, mapping, "note");
+    const links = cellAt(row, mapping, "links");
+    return {
+      line: i + 2,
+      value:
+        match && score !== null
+          ? {
+              key: match.key,
+              score,
+              ...(note !== undefined && { note }),
+              ...(links !== undefined && { links: links.split(/\s*;\s*/).filter(Boolean) }),
+            }
+          : null,
+      errors,
+      warnings,
+    };
+  });
+}
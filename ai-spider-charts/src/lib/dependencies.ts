@@ -0,0 +1,183 @@
+import type { UseCase } from "@/AISpiderCharts";
+import { HORIZON_KEYS, quarterLabel, roadmapItem, type HorizonKey, type RoadmapConfig } from "@/lib/roadmap";
+
+// -----------------------------
+// Prerequisite links between use cases
+// -----------------------------
+// `UseCase.prerequisites` lists the ids of the use cases that must be
+// delivered first. Links are checked against the 3 Horizons (a use case may
+// not sit in an earlier horizon than its prerequisite) and the timeline
+// (it should not start before the prerequisite finishes).
+
+export const prerequisitesOf = (u: UseCase) => u.prerequisites ?? [];
+
+/** Sets the prerequisite ids; the field is dropped once empty. */
+export function setPrerequisites(u: UseCase, ids: number[]): UseCase {
+  const next: UseCase = { ...u, prerequisites: ids.filter((id) => id !== u.id) };
+  if (next.prerequisites!.length === 0) delete next.prerequisites;
+  return next;
+}
+
+/** Drops links to use cases that no longer exist; returns the same array when nothing changes. */
+export function prunePrerequisites(useCases: UseCase[]): UseCase[] {
+  const ids = new Set(useCases.map((u) => u.id));
+  let changed = false;
+  const next = useCases.map((u) => {
+    const kept = prerequisitesOf(u).filter((id) => ids.has(id) && id !== u.id);
+    if (kept.length === prerequisitesOf(u).length) return u;
+    changed = true;
+    return setPrerequisites(u, kept);
+  });
+  return changed ? next : useCases;
+}
+
+/** Groups of use cases that depend on each other in a loop (strongly connected components of two or more). */
+export function findCycles(useCases: UseCase[]): number[][] {
+  const index = new Map<number, number>();
+  const low = new Map<number, number>();
+  const stack: number[] = [];
+  const onStack = new Set<number>();
+  const cycles: number[][] = [];
+  let counter = 0;
+  const byId = new Map(useCases.map((u) => [u.id, u]));
+
+  // Tarjan's algorithm
+  const visit = (id: number) => {
+    index.set(id, counter);
+    low.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+    for (const next of prerequisitesOf(byId.get(id)!)) {
+      if (!byId.has(next)) continue;
+      if (!index.has(next)) {
+        visit(next);
+        low.set(id, Math.min(low.get(id)!, low.get(next)!));
+      } else if (onStack.has(next)) {
+        low.set(id, Math.min(low.get(id)!, index.get(next)!));
+      }
+    }
+    if (low.get(id) === index.get(id)) {
+      const component: number[] = [];
+      let member: number;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      if (component.length > 1) cycles.push(component.reverse());
+    }
+  };
+
+  useCases.forEach((u) => {
+    if (!index.has(u.id)) visit(u.id);
+  });
+  return cycles;
+}
+
+/** True when `id` already (directly or indirectly) is a prerequisite of `prerequisite`. */
+export function wouldCreateCycle(useCases: UseCase[], id: number, prerequisite: number) {
+  const byId = new Map(useCases.map((u) => [u.id, u]));
+  const seen = new Set<number>();
+  const stack = [prerequisite];
+  while (stack.length) {
+    const current = stack.pop()!;
+    if (current === id) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    const u = byId.get(current);
+    if (u) stack.push(...prerequisitesOf(u));
+  }
+  return false;
+}
+
+/**
+ * Column for each use case in the dependency graph: 0 for use cases without
+ * prerequisites, otherwise one more than the deepest prerequisite. Links
+ * inside a cycle are ignored so every use case still gets a column.
+ */
+export function dependencyLayers(useCases: UseCase[]): Record<number, number> {
+  const byId = new Map(useCases.map((u) => [u.id, u]));
+  const layers: Record<number, number> = {};
+  const visiting = new Set<number>();
+  const layerOf = (id: number): number => {
+    if (layers[id] !== undefined) return layers[id];
+    if (visiting.has(id)) return -1; // back edge of a cycle
+    visiting.add(id);
+    const deps = prerequisitesOf(byId.get(id)!).filter((p) => byId.has(p));
+    const layer = Math.max(0, ...deps.map((p) => layerOf(p) + 1));
+    visiting.delete(id);
+    layers[id] = layer;
+    return layer;
+  };
+  useCases.forEach((u) => layerOf(u.id));
+  return layers;
+}
+
+export type DependencyIssue = {
+  id: number; // the dependent use case
+  prerequisite: number;
+  kind: "earlier-horizon" | "prerequisite-not-planned" | "starts-before-prerequisite";
+};
+
+/**
+ * Sequencing problems on the 3 Horizons roadmap: a use case in an earlier
+ * horizon than its prerequisite, a prerequisite that is on no horizon at all,
+ * or a timeline start before the prerequisite's bar ends.
+ */
+export function sequencingIssues(
+  useCases: UseCase[],
+  buckets: Record<HorizonKey, UseCase[]>,
+  roadmap: RoadmapConfig
+): DependencyIssue[] {
+  const horizonOf = new Map<number, HorizonKey>();
+  HORIZON_KEYS.forEach((h) => buckets[h].forEach((u) => horizonOf.set(u.id, h)));
+
+  return useCases.flatMap((u) => {
+    const horizon = horizonOf.get(u.id);
+    if (!horizon) return [];
+    return prerequisitesOf(u).flatMap((p): DependencyIssue[] => {
+      const before = horizonOf.get(p);
+      if (!before) return [{ id: u.id, prerequisite: p, kind: "prerequisite-not-planned" }];
+      if (HORIZON_KEYS.indexOf(horizon) < HORIZON_KEYS.indexOf(before)) {
+        return [{ id: u.id, prerequisite: p, kind: "earlier-horizon" }];
+      }
+      const item = roadmapItem(roadmap, u.id, horizon);
+      const prereqItem = roadmapItem(roadmap, p, before);
+      if (item.start < prereqItem.start + prereqItem.duration) {
+        return [{ id: u.id, prerequisite: p, kind: "starts-before-prerequisite" }];
+      }
+      return [];
+    });
+  });
+}
+
+/** One-line explanation of an issue, for the roadmap and the dependency graph. */
+export function describeIssue(
+  issue: DependencyIssue,
+  useCases: UseCase[],
+  buckets: Record<HorizonKey, UseCase[]>,
+  roadmap: RoadmapConfig
+) {
+  const name = (id: number) => {
+    const u = useCases.find((x) => x.id === id);
+    return u?.name || `Use Case ${id + 1}`;
+  };
+  const horizonOf = (id: number) => HORIZON_KEYS.find((h) => buckets[h].some((u) => u.id === id));
+  const a = name(issue.id);
+  const b = name(issue.prerequisite);
+  switch (issue.kind) {
+    case "earlier-horizon":
+      return `${a} is in ${horizonOf(issue.id)} but depends on ${b} in ${horizonOf(issue.prerequisite)}.`;
+    case "prerequisite-not-planned":
+      return `${a} depends on ${b}, which is on no horizon (low impact on the board).`;
+    case "starts-before-prerequisite": {
+      const item = roadmapItem(roadmap, issue.id, horizonOf(issue.id)!);
+      const prereq = roadmapItem(roadmap, issue.prerequisite, horizonOf(issue.prerequisite)!);
+      return `${a} starts ${quarterLabel(roadmap, item.start)}, before ${b} finishes (${quarterLabel(
+        roadmap,
+        prereq.start + prereq.duration - 1
+      )}).`;
+    }
+  }
+}
@@ -0,0 +1,395 @@
+import { READINESS } from "@/Scoring_Readiness";
+import type { Criterion, UseCase } from "@/AISpiderCharts";
+import type { ProjectState } from "@/lib/project";
+import { AGGREGATION_METHODS, criterionWeight, type ScoringConfig } from "@/lib/scoring";
+import { CONSENSUS_METHODS, assessorName, type AssessmentConfig, type Assessor } from "@/lib/assessors";
+import { HORIZON_KEYS, quarterLabel, type RoadmapConfig } from "@/lib/roadmap";
+import { judgment, type Judgments, type PairwiseConfig } from "@/lib/ahp";
+import { describeRule, positionToScore, type HorizonConfig } from "@/lib/horizonRules";
+import { activeBenchmark, type BenchmarkConfig } from "@/lib/benchmarks";
+import { snapshotName, type ReadinessSnapshot } from "@/lib/readinessHistory";
+import type { ActionPlanConfig } from "@/lib/actionPlan";
+
+// -----------------------------
+// Human-readable labels for project history entries
+// -----------------------------
+
+type Change = { key: string; label: string };
+
+const displayName = (u: UseCase) => u.name || `Use Case ${u.id + 1}`;
+
+function describeReadiness(prev: ProjectState["scores"], next: ProjectState["scores"]): Change | null {
+  const changed = READINESS.filter((r) => prev[r.key] !== next[r.key]);
+  if (changed.length === 1) {
+    const r = changed[0];
+    return { key: `readiness:${r.key}`, label: `Readiness — ${r.label} ${prev[r.key]}→${next[r.key]}` };
+  }
+  if (changed.length > 1) return { key: "readiness:*", label: `Readiness — updated ${changed.length} dimensions` };
+  if (prev.notes !== next.notes) return { key: "readiness:notes", label: "Readiness — edited notes" };
+  const evidence = READINESS.find((r) => prev.evidence?.[r.key] !== next.evidence?.[r.key]);
+  if (evidence) return { key: `readiness:evidence:${evidence.key}`, label: `Readiness — ${evidence.label} evidence` };
+  return null;
+}
+
+function describeCriteria(prev: Criterion[], next: Criterion[]): Change | null {
+  if (next.length > prev.length) {
+    const added = next.find((c) => !prev.some((p) => p.key === c.key));
+    return { key: `criterion-add:${added?.key}`, label: `Criteria — added ${added?.label ?? "criterion"}` };
+  }
+  if (next.length < prev.length) {
+    const removed = prev.find((c) => !next.some((n) => n.key === c.key));
+    return { key: `criterion-remove:${removed?.key}`, label: `Criteria — removed ${removed?.label ?? "criterion"}` };
+  }
+  if (prev.some((c, i) => c.key !== next[i].key)) {
+    return next.every((c) => prev.some((p) => p.key === c.key))
+      ? { key: "criteria:order", label: "Criteria — reordered" }
+      : { key: "criteria:*", label: "Criteria — replaced rubric" };
+  }
+  const changed = next.find((c, i) => c !== prev[i]);
+  if (!changed) return null;
+  const before = prev.find((p) => p.key === changed.key)!;
+  if (before.label !== changed.label) {
+    return { key: `criterion-label:${changed.key}`, label: `Criteria — renamed "${before.label}" → "${changed.label}"` };
+  }
+  if (before.group !== changed.group) {
+    return { key: `criterion-group:${changed.key}`, label: `Criteria — moved ${changed.label} to ${changed.group}` };
+  }
+  if (criterionWeight(before) !== criterionWeight(changed)) {
+    return {
+      key: `criterion-weight:${changed.key}`,
+      label: `Weights — ${changed.label} ${criterionWeight(before)}→${criterionWeight(changed)}`,
+    };
+  }
+  return { key: `criterion-anchors:${changed.key}`, label: `Criteria — edited ${changed.label} anchors` };
+}
+
+function describeAdjustment(prev: ProjectState["readinessAdjustment"], next: ProjectState["readinessAdjustment"]): Change {
+  if (prev.strength !== next.strength) {
+    return {
+      key: "adjustment:strength",
+      label: `Readiness adjustment — strength ${Math.round(prev.strength * 100)}%→${Math.round(next.strength * 100)}%`,
+    };
+  }
+  return { key: "adjustment:links", label: "Readiness adjustment — edited links" };
+}
+
+function describeAssessment(prev: AssessmentConfig, next: AssessmentConfig): Change | null {
+  const added = next.assessors.find((a) => !prev.assessors.some((p) => p.id === a.id));
+  if (added) return { key: `assessor-add:${added.id}`, label: `Assessors — added ${assessorName(added)}` };
+  const removed = prev.assessors.find((a) => !next.assessors.some((n) => n.id === a.id));
+  if (removed) return { key: `assessor-remove:${removed.id}`, label: `Assessors — removed ${assessorName(removed)}` };
+  const renamed = next.assessors.find((a) => prev.assessors.find((p) => p.id === a.id)?.name !== a.name);
+  if (renamed) return { key: `assessor-name:${renamed.id}`, label: `Assessors — renamed ${assessorName(renamed)}` };
+  if (prev.method !== next.method) {
+    const label = CONSENSUS_METHODS.find((m) => m.value === next.method)?.label ?? next.method;
+    return { key: "assessment:method", label: `Consensus — ${label}` };
+  }
+  if (prev.spreadThreshold !== next.spreadThreshold) {
+    return {
+      key: "assessment:threshold",
+      label: `Consensus — flag spread above ${prev.spreadThreshold}→${next.spreadThreshold}`,
+    };
+  }
+  return null;
+}
+
+function describeScoring(prev: ScoringConfig, next: ScoringConfig): Change | null {
+  if (prev.method !== next.method) {
+    const label = AGGREGATION_METHODS.find((m) => m.value === next.method)?.label ?? next.method;
+    return { key: "scoring:method", label: `Ranking method — ${label}` };
+  }
+  const group = (["Impact", "Feasibility"] as const).find((g) => prev.groupWeights[g] !== next.groupWeights[g]);
+  if (group) {
+    return {
+      key: `scoring:group:${group}`,
+      label: `Weights — ${group} group ${prev.groupWeights[group]}→${next.groupWeights[group]}`,
+    };
+  }
+  return null;
+}
+
+const formatJudgment = (v: number) => (v >= 1 ? `${Math.round(v)}×` : `1/${Math.round(1 / v)}`);
+
+function changedPair(prev: Judgments, next: Judgments) {
+  const key = Object.keys(next).find((k) => prev[k] !== next[k]);
+  if (!key) return null;
+  const [a, b] = key.split("|");
+  return { key, a, b, value: judgment(next, a, b) };
+}
+
+function describePairwise(prev: PairwiseConfig, next: PairwiseConfig, criteria: Criterion[], useCases: UseCase[]): Change | null {
+  const criterionLabel = (key: string) => criteria.find((c) => c.key === key)?.label ?? key;
+  const pair = changedPair(prev.criteria, next.criteria);
+  if (pair) {
+    return {
+      key: `pairwise:${pair.key}`,
+      label: `Pairwise — ${criterionLabel(pair.a)} vs ${criterionLabel(pair.b)} ${formatJudgment(pair.value)}`,
+    };
+  }
+  const criterion = Object.keys(next.useCases).find((k) => prev.useCases[k] !== next.useCases[k]);
+  const ucPair = criterion ? changedPair(prev.useCases[criterion] ?? {}, next.useCases[criterion]) : null;
+  if (criterion && ucPair) {
+    const name = (id: string) => {
+      const u = useCases.find((x) => x.id === Number(id));
+      return u ? displayName(u) : `Use Case ${Number(id) + 1}`;
+    };
+    return {
+      key: `pairwise:${criterion}:${ucPair.key}`,
+      label: `Pairwise (${criterionLabel(criterion)}) — ${name(ucPair.a)} vs ${name(ucPair.b)} ${formatJudgment(ucPair.value)}`,
+    };
+  }
+  return { key: "pairwise:*", label: "Pairwise — reset comparisons" };
+}
+
+function describeRoadmap(prev: RoadmapConfig, next: RoadmapConfig, useCases: UseCase[]): Change | null {
+  if (prev.startYear !== next.startYear || prev.startQuarter !== next.startQuarter) {
+    return { key: "roadmap:start", label: `Roadmap — starts ${quarterLabel(next, 0)}` };
+  }
+  const horizon = HORIZON_KEYS.find(
+    (h) => prev.windows[h].from !== next.windows[h].from || prev.windows[h].to !== next.windows[h].to
+  );
+  if (horizon) {
+    const { from, to } = next.windows[horizon];
+    return { key: `roadmap:window:${horizon}`, label: `Roadmap — ${horizon} window ${from}–${to} months` };
+  }
+  const id = Object.keys(next.items)
+    .map(Number)
+    .find((k) => prev.items[k] !== next.items[k]);
+  if (id === undefined) return null;
+  const u = useCases.find((x) => x.id === id);
+  const name = u ? displayName(u) : `Use Case ${id + 1}`;
+  const before = prev.items[id];
+  const after = next.items[id];
+  if (before && before.milestones !== after.milestones) {
+    if (after.milestones.length > before.milestones.length) {
+      return { key: `roadmap:milestone-add:${id}`, label: `${name}: added milestone` };
+    }
+    if (after.milestones.length < before.milestones.length) {
+      return { key: `roadmap:milestone-remove:${id}`, label: `${name}: removed milestone` };
+    }
+    return { key: `roadmap:milestones:${id}`, label: `${name}: edited milestones` };
+  }
+  return {
+    key: `roadmap:item:${id}`,
+    label: `${name}: scheduled ${quarterLabel(next, after.start)}, ${after.duration} quarter${after.duration === 1 ? "" : "s"}`,
+  };
+}
+
+const HORIZON_THRESHOLDS: { key: "impact" | "feasibility" | "h2From" | "h1From"; label: string }[] = [
+  { key: "impact", label: "impact threshold" },
+  { key: "feasibility", label: "feasibility threshold" },
+  { key: "h2From", label: "H2 from" },
+  { key: "h1From", label: "H1 from" },
+];
+
+function describeHorizons(prev: HorizonConfig, next: HorizonConfig, criteria: Criterion[]): Change | null {
+  const threshold = HORIZON_THRESHOLDS.find((t) => prev[t.key] !== next[t.key]);
+  if (threshold) {
+    return {
+      key: `horizons:${threshold.key}`,
+      label: `Board — ${threshold.label} ${positionToScore(next[threshold.key]).toFixed(1)}`,
+    };
+  }
+  if (next.rules.length > prev.rules.length) {
+    return { key: "horizons:rule-add", label: `Horizon rules — added ${describeRule(next.rules[next.rules.length - 1], criteria)}` };
+  }
+  if (next.rules.length < prev.rules.length) {
+    const removed = prev.rules.find((r) => !next.rules.some((n) => n.id === r.id));
+    return { key: "horizons:rule-remove", label: `Horizon rules — removed ${removed ? describeRule(removed, criteria) : "rule"}` };
+  }
+  const edited = next.rules.find((r, i) => prev.rules[i] !== r);
+  if (!edited) return null;
+  return { key: `horizons:rule:${edited.id}`, label: `Horizon rules — ${describeRule(edited, criteria)}` };
+}
+
+function describeBenchmarks(prev: BenchmarkConfig, next: BenchmarkConfig): Change {
+  if (next.imported.length > prev.imported.length) {
+    const added = next.imported.slice(prev.imported.length);
+    return {
+      key: "benchmarks:import",
+      label: `Benchmarks — imported ${added.length === 1 ? added[0].name : `${added.length} profiles`}`,
+    };
+  }
+  if (next.imported.length < prev.imported.length) {
+    const removed = prev.imported.find((p) => !next.imported.some((n) => n.id === p.id));
+    return { key: "benchmarks:remove", label: `Benchmarks — removed ${removed?.name ?? "profile"}` };
+  }
+  const active = activeBenchmark(next);
+  return { key: "benchmarks:active", label: active ? `Benchmarks — compare with ${active.name}` : "Benchmarks — none" };
+}
+
+function describeReadinessHistory(prev: ReadinessSnapshot[], next: ReadinessSnapshot[]): Change {
+  if (next.length > prev.length) {
+    const added = next.find((s) => !prev.some((p) => p.id === s.id));
+    return { key: "readiness-history:add", label: `Readiness — saved snapshot ${added ? snapshotName(added) : ""}`.trim() };
+  }
+  if (next.length < prev.length) {
+    const removed = prev.find((s) => !next.some((n) => n.id === s.id));
+    return { key: "readiness-history:remove", label: `Readiness — deleted snapshot ${removed ? snapshotName(removed) : ""}`.trim() };
+  }
+  const edited = next.find((s) => !prev.includes(s));
+  return {
+    key: `readiness-history:edit:${edited?.id ?? "*"}`,
+    label: `Readiness — edited snapshot ${edited ? snapshotName(edited) : ""}`.trim(),
+  };
+}
+
+function describeActionPlan(prev: ActionPlanConfig, next: ActionPlanConfig): Change {
+  if (prev.playbook !== next.playbook) {
+    if (next.playbook.length > prev.playbook.length) return { key: "action-plan:playbook-add", label: "Playbook — added entry" };
+    if (next.playbook.length < prev.playbook.length) return { key: "action-plan:playbook-remove", label: "Playbook — removed entry" };
+    const edited = next.playbook.find((e, i) => prev.playbook[i] !== e);
+    return { key: `action-plan:playbook:${edited?.id ?? "*"}`, label: "Playbook — edited entry" };
+  }
+  if (prev.items.length === 0 && next.items.length > 0) {
+    return { key: "action-plan:generate", label: `Action plan — generated ${next.items.length} actions` };
+  }
+  if (next.items.length > prev.items.length) return { key: "action-plan:add", label: "Action plan — added action" };
+  if (next.items.length < prev.items.length) return { key: "action-plan:remove", label: "Action plan — removed action" };
+  const index = next.items.findIndex((item, i) => prev.items[i] !== item);
+  const item = next.items[index];
+  if (item && prev.items[index].id !== item.id) return { key: "action-plan:reorder", label: "Action plan — reordered" };
+  if (item && prev.items[index].done !== item.done) {
+    return { key: `action-plan:done:${item.id}`, label: `Action plan — #${index + 1} ${item.done ? "done" : "reopened"}` };
+  }
+  return { key: `action-plan:item:${item?.id ?? "*"}`, label: `Action plan — edited #${index + 1}` };
+}
+
+function describeUseCases(
+  prev: UseCase[],
+  next: UseCase[],
+  criteria: Criterion[],
+  assessors: Assessor[]
+): Change | null {
+  if (next.length > prev.length) {
+    const added = next.find((u) => !prev.some((p) => p.id === u.id));
+    return { key: `add:${added?.id}`, label: `Added ${added ? displayName(added) : "use case"}` };
+  }
+  if (next.length < prev.length) {
+    const removed = prev.find((u) => !next.some((n) => n.id === u.id));
+    return { key: `remove:${removed?.id}`, label: `Removed ${removed ? displayName(removed) : "use case"}` };
+  }
+
+  if (next.some((u, i) => u.id !== prev[i].id) && next.every((u) => prev.includes(u))) {
+    return { key: "reorder", label: "Reordered use cases" };
+  }
+
+  const changed = next.filter((u, i) => u !== prev[i]);
+  if (changed.length !== 1) {
+    return changed.length ? { key: "usecases:*", label: `Updated ${changed.length} use cases` } : null;
+  }
+
+  const after = changed[0];
+  const before = prev.find((p) => p.id === after.id);
+  if (!before) return { key: "usecases:*", label: `Updated ${displayName(after)}` };
+
+  if (before.name !== after.name) {
+    return { key: `name:${after.id}`, label: `Renamed "${displayName(before)}" → "${displayName(after)}"` };
+  }
+  if (before.description !== after.description) {
+    return { key: `desc:${after.id}`, label: `${displayName(after)}: edited description` };
+  }
+  if (before.visible !== after.visible) {
+    return { key: `visible:${after.id}`, label: `${displayName(after)}: ${after.visible ? "shown" : "hidden"} in comparison` };
+  }
+
+  if (before.prerequisites !== after.prerequisites) {
+    const was = before.prerequisites ?? [];
+    const now = after.prerequisites ?? [];
+    const added = now.find((id) => !was.includes(id));
+    const removed = was.find((id) => !now.includes(id));
+    const other = (id: number) => {
+      const u = next.find((x) => x.id === id) ?? prev.find((x) => x.id === id);
+      return u ? displayName(u) : `Use Case ${id + 1}`;
+    };
+    if (added !== undefined) {
+      return { key: `prereq:${after.id}:${added}`, label: `${displayName(after)}: now depends on ${other(added)}` };
+    }
+    if (removed !== undefined) {
+      return { key: `prereq:${after.id}:${removed}`, label: `${displayName(after)}: no longer depends on ${other(removed)}` };
+    }
+  }
+
+  if (before.ranges !== after.ranges) {
+    const c = criteria.find((c) => before.ranges?.[c.key] !== after.ranges?.[c.key]);
+    const range = c && after.ranges?.[c.key];
+    return {
+      key: `range:${after.id}:${c?.key}`,
+      label: range
+        ? `${displayName(after)}: ${c.label} range ${range.low}–${range.high}`
+        : `${displayName(after)}: removed ${c?.label ?? "a"} range`,
+    };
+  }
+
+  // An assessor's score: report that rather than the consensus it moved
+  const assessor = assessors.find((a) => before.assessorScores?.[a.id] !== after.assessorScores?.[a.id]);
+  if (assessor) {
+    const b = before.assessorScores?.[assessor.id] ?? before.scores;
+    const a = after.assessorScores?.[assessor.id] ?? after.scores;
+    const c = criteria.find((c) => b[c.key] !== a[c.key]);
+    if (c) {
+      return {
+        key: `score:${after.id}:${assessor.id}:${c.key}`,
+        label: `${displayName(after)}: ${c.label} ${b[c.key]}→${a[c.key]} (${assessorName(assessor)})`,
+      };
+    }
+  }
+
+  const scoreChanges = criteria.filter((c) => before.scores[c.key] !== after.scores[c.key]);
+  if (scoreChanges.length === 1) {
+    const c = scoreChanges[0];
+    return {
+      key: `score:${after.id}:${c.key}`,
+      label: `${displayName(after)}: ${c.label} ${before.scores[c.key]}→${after.scores[c.key]}`,
+    };
+  }
+  if (scoreChanges.length > 1) {
+    return { key: `score:${after.id}:*`, label: `${displayName(after)}: updated ${scoreChanges.length} scores` };
+  }
+  return null;
+}
+
+function describePlacements(prev: ProjectState["placements"], next: ProjectState["placements"]): Change | null {
+  const ids = new Set([...Object.keys(prev), ...Object.keys(next)].filter((k) => k !== "__activeId"));
+  const moved = [...ids].map(Number).filter((id) => {
+    const a = prev[id];
+    const b = next[id];
+    return a?.x !== b?.x || a?.y !== b?.y;
+  });
+  if (moved.length === 1) return { key: `move:${moved[0]}`, label: `Moved token ${moved[0] + 1}` };
+  if (moved.length > 1) return { key: "move:*", label: `Moved ${moved.length} tokens` };
+  // Only the drag handle (__activeId) changed — not worth an undo step
+  return null;
+}
+
+export function describeProjectChange(prev: ProjectState, next: ProjectState): Change | null {
+  // A criteria edit also re-aligns every use case's scores; report it as the criteria change
+  if (prev.criteria !== next.criteria) return describeCriteria(prev.criteria, next.criteria);
+  // Likewise an assessor change re-syncs every use case's score sets
+  if (prev.assessment !== next.assessment) return describeAssessment(prev.assessment, next.assessment);
+  // Removing a use case also drops its board position; report it as the removal
+  if (next.useCases.length < prev.useCases.length) {
+    return describeUseCases(prev.useCases, next.useCases, next.criteria, next.assessment.assessors);
+  }
+
+  const parts = [
+    prev.scores !== next.scores ? describeReadiness(prev.scores, next.scores) : null,
+    prev.scoring !== next.scoring ? describeScoring(prev.scoring, next.scoring) : null,
+    prev.readinessAdjustment !== next.readinessAdjustment
+      ? describeAdjustment(prev.readinessAdjustment, next.readinessAdjustment)
+      : null,
+    prev.roadmap !== next.roadmap ? describeRoadmap(prev.roadmap, next.roadmap, next.useCases) : null,
+    prev.horizons !== next.horizons ? describeHorizons(prev.horizons, next.horizons, next.criteria) : null,
+    prev.benchmarks !== next.benchmarks ? describeBenchmarks(prev.benchmarks, next.benchmarks) : null,
+    prev.readinessHistory !== next.readinessHistory
+      ? describeReadinessHistory(prev.readinessHistory, next.readinessHistory)
+      : null,
+    prev.actionPlan !== next.actionPlan ? describeActionPlan(prev.actionPlan, next.actionPlan) : null,
+    prev.pairwise !== next.pairwise ? describePairwise(prev.pairwise, next.pairwise, next.criteria, next.useCases) : null,
+    prev.useCases !== next.useCases ? describeUseCases(prev.useCases, next.useCases, next.criteria, next.assessment.assessors) : null,
+    prev.placements !== next.placements ? describePlacements(prev.placements, next.placements) : null,
+  ].filter((c): c is Change => c !== null);
+
+  if (parts.length > 1) return { key: "project:*", label: "Updated project" };
+  return parts[0] ?? null;
+}
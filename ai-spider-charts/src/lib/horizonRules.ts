@@ -0,0 +1,145 @@
+import type { Criterion, CriterionGroup, UseCase } from "@/AISpiderCharts";
+import type { Placements } from "@/lib/project";
+import { groupScore } from "@/lib/scoring";
+import { HORIZON_KEYS, type HorizonKey } from "@/lib/roadmap";
+
+// -----------------------------
+// Board thresholds and horizon rules
+// -----------------------------
+// Thresholds are board positions (0..1, the same units as placements): a use
+// case at or above `impact` is on the roadmap and its feasibility position
+// picks the horizon. Rules then run in order against the Step 2 scores, e.g.
+// "noRisk < 4 ⇒ never H1", and every assignment keeps the reasons behind it.
+
+export type RuleOperator = "<" | "<=" | ">" | ">=";
+
+export const RULE_OPERATORS: RuleOperator[] = ["<", "<=", ">", ">="];
+
+export type HorizonRule = {
+  id: string;
+  subject: string; // criterion key, or "group:Impact" / "group:Feasibility" for a group score
+  operator: RuleOperator;
+  value: number; // on the 1–10 score scale
+  action: "never" | "always";
+  horizon: HorizonKey;
+};
+
+export type HorizonConfig = {
+  impact: number; // roadmap (and quadrant) line on the impact axis
+  feasibility: number; // quadrant line on the feasibility axis
+  h2From: number; // feasibility from which a use case is H2 (below: H3)
+  h1From: number; // feasibility from which a use case is H1
+  rules: HorizonRule[];
+};
+
+export const defaultHorizonConfig = (): HorizonConfig => ({
+  impact: 0.5,
+  feasibility: 0.5,
+  h2From: 1 / 3,
+  h1From: 2 / 3,
+  rules: [],
+});
+
+/** Board position ↔ the 1–10 score it corresponds to (see `suggestedPosition`). */
+export const positionToScore = (p: number) => 1 + 9 * p;
+export const scoreToPosition = (s: number) => Math.max(0, Math.min(1, (s - 1) / 9));
+
+export const newRuleId = () => `r-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const GROUP_PREFIX = "group:";
+
+export function subjectLabel(subject: string, criteria: Criterion[]) {
+  if (subject.startsWith(GROUP_PREFIX)) return `${subject.slice(GROUP_PREFIX.length)} score`;
+  return criteria.find((c) => c.key === subject)?.label ?? subject;
+}
+
+export function subjectValue(u: UseCase, subject: string, criteria: Criterion[]) {
+  if (subject.startsWith(GROUP_PREFIX)) {
+    return groupScore(u, criteria, subject.slice(GROUP_PREFIX.length) as CriterionGroup);
+  }
+  return u.scores[subject];
+}
+
+/** True when the rule's subject refers to a criterion or group that exists in the project. */
+export function validSubject(subject: string, criteria: Criterion[]) {
+  return subject === "group:Impact" || subject === "group:Feasibility" || criteria.some((c) => c.key === subject);
+}
+
+/** Drops rules on criteria that no longer exist; returns the same object when nothing is dropped. */
+export function pruneHorizonRules(config: HorizonConfig, criteria: Criterion[]): HorizonConfig {
+  const rules = config.rules.filter((r) => validSubject(r.subject, criteria));
+  return rules.length === config.rules.length ? config : { ...config, rules };
+}
+
+export function ruleMatches(rule: HorizonRule, u: UseCase, criteria: Criterion[]) {
+  const v = subjectValue(u, rule.subject, criteria);
+  if (v === undefined) return false;
+  switch (rule.operator) {
+    case "<":
+      return v < rule.value;
+    case "<=":
+      return v <= rule.value;
+    case ">":
+      return v > rule.value;
+    case ">=":
+      return v >= rule.value;
+  }
+}
+
+export function describeRule(rule: HorizonRule, criteria: Criterion[]) {
+  const then = rule.action === "never" ? `never ${rule.horizon}` : `always ${rule.horizon}`;
+  return `${subjectLabel(rule.subject, criteria)} ${rule.operator} ${rule.value} ⇒ ${then}`;
+}
+
+export type HorizonAssignment = {
+  horizon: HorizonKey | null; // null: below the impact line, or every horizon ruled out
+  board: HorizonKey | null; // what the board position alone gives
+  reasons: string[];
+};
+
+const fmt = (p: number) => positionToScore(p).toFixed(1);
+
+/** Horizon of every use case by id, with the board position and rules that decided it. */
+export function assignHorizons(
+  useCases: UseCase[],
+  criteria: Criterion[],
+  placements: Placements,
+  config: HorizonConfig
+): Record<number, HorizonAssignment> {
+  return Object.fromEntries(
+    useCases.map((u) => {
+      const p = placements[u.id] ?? { x: 0.5, y: 0.5 }; // unplaced tokens count as centred
+      if (p.y < config.impact) {
+        return [
+          u.id,
+          { horizon: null, board: null, reasons: [`Board: impact ${fmt(p.y)} is below the roadmap line (${fmt(config.impact)})`] },
+        ];
+      }
+      const board: HorizonKey = p.x >= config.h1From ? "H1" : p.x >= config.h2From ? "H2" : "H3";
+      const cut =
+        board === "H1"
+          ? `≥ ${fmt(config.h1From)}`
+          : board === "H2"
+          ? `${fmt(config.h2From)}–${fmt(config.h1From)}`
+          : `< ${fmt(config.h2From)}`;
+      const reasons = [`Board: feasibility ${fmt(p.x)} (${cut}) ⇒ ${board}`];
+
+      const matching = config.rules.filter((r) => ruleMatches(r, u, criteria));
+      const forced = matching.find((r) => r.action === "always");
+      const excluded = new Set(matching.filter((r) => r.action === "never").map((r) => r.horizon));
+      let horizon: HorizonKey | null = forced ? forced.horizon : board;
+      if (forced) reasons.push(`Rule: ${describeRule(forced, criteria)}`);
+
+      if (horizon && excluded.has(horizon)) {
+        const blocking = matching.find((r) => r.action === "never" && r.horizon === horizon)!;
+        // Prefer a later horizon, then an earlier one
+        const index = HORIZON_KEYS.indexOf(horizon);
+        const order = [...HORIZON_KEYS.slice(index + 1), ...HORIZON_KEYS.slice(0, index).reverse()];
+        const next = order.find((h) => !excluded.has(h)) ?? null;
+        reasons.push(`Rule: ${describeRule(blocking, criteria)}${next ? ` — moved to ${next}` : " — left off the roadmap"}`);
+        horizon = next;
+      }
+      return [u.id, { horizon, board, reasons }];
+    })
+  );
+}
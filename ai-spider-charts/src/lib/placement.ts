@@ -0,0 +1,49 @@
+import type { Criterion, UseCase } from "@/AISpiderCharts";
+import { groupScore } from "@/lib/scoring";
+import type { Placements } from "@/lib/project";
+import { assignHorizons, defaultHorizonConfig, type HorizonConfig } from "@/lib/horizonRules";
+import type { HorizonKey } from "@/lib/roadmap";
+
+// -----------------------------
+// Score-derived positions on the Impact/Feasibility board
+// -----------------------------
+
+/** Board distance (0..1 units) beyond which a manual placement is flagged. */
+export const DEVIATION_THRESHOLD = 0.25;
+
+const toUnit = (score: number) => Math.max(0, Math.min(1, (score - 1) / 9)); // 1..10 → 0..1
+
+/** x from the Feasibility group score, y from the Impact group score. */
+export function suggestedPosition(u: UseCase, criteria: Criterion[]) {
+  return {
+    x: toUnit(groupScore(u, criteria, "Feasibility")),
+    y: toUnit(groupScore(u, criteria, "Impact")),
+  };
+}
+
+export function suggestedPlacements(useCases: UseCase[], criteria: Criterion[]): Placements {
+  return Object.fromEntries(useCases.map((u) => [u.id, suggestedPosition(u, criteria)]));
+}
+
+/**
+ * 3 Horizons split of the high-impact part of the board by feasibility, with
+ * the thresholds and rules of `config` (by default: H1 right third, H2 middle,
+ * H3 left). Unplaced tokens count as centred.
+ */
+export function horizonBuckets(
+  useCases: UseCase[],
+  placements: Placements,
+  criteria: Criterion[],
+  config: HorizonConfig = defaultHorizonConfig()
+): Record<HorizonKey, UseCase[]> {
+  const assigned = assignHorizons(useCases, criteria, placements, config);
+  return {
+    H1: useCases.filter((u) => assigned[u.id].horizon === "H1"),
+    H2: useCases.filter((u) => assigned[u.id].horizon === "H2"),
+    H3: useCases.filter((u) => assigned[u.id].horizon === "H3"),
+  };
+}
+
+export function distance(a: { x: number; y: number }, b: { x: number; y: number }) {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
@@ -0,0 +1,185 @@
+import { READINESS, type ReadinessKey } from "@/Scoring_Readiness";
+import type { UseCase } from "@/AISpiderCharts";
+import { fromProjectPayload, type ProjectState } from "@/lib/project";
+import { suggestedPosition } from "@/lib/placement";
+import { readinessAverage } from "@/lib/readinessHistory";
+import { loadWorkspace, type WorkspaceMeta } from "@/lib/workspaces";
+
+// -----------------------------
+// Multi-department portfolio
+// -----------------------------
+// A portfolio groups saved workspaces, one per department, for an
+// organisation-wide roll-up. Membership and department names live in
+// localStorage next to the workspace index; the departments' data stays in
+// their own workspaces.
+
+export type PortfolioMember = { workspaceId: string; department: string };
+
+export type Portfolio = { name: string; members: PortfolioMember[] };
+
+const PORTFOLIO_KEY = "ai-strategy:portfolio";
+
+export const defaultPortfolio = (): Portfolio => ({ name: "Organisation portfolio", members: [] });
+
+export function loadPortfolio(): Portfolio {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PORTFOLIO_KEY) ?? "null");
+    if (!parsed || typeof parsed !== "object" || !Array.isArray(parsed.members)) return defaultPortfolio();
+    return {
+      name: typeof parsed.name === "string" && parsed.name ? parsed.name : defaultPortfolio().name,
+      members: parsed.members.filter(
+        (m: unknown): m is PortfolioMember =>
+          typeof m === "object" &&
+          m !== null &&
+          typeof (m as PortfolioMember).workspaceId === "string" &&
+          typeof (m as PortfolioMember).department === "string"
+      ),
+    };
+  } catch {
+    return defaultPortfolio();
+  }
+}
+
+/** Returns false when the browser refuses the write (quota, private mode). */
+export function savePortfolio(portfolio: Portfolio): boolean {
+  try {
+    localStorage.setItem(PORTFOLIO_KEY, JSON.stringify(portfolio));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export type Department = { workspaceId: string; name: string; state: ProjectState };
+
+/** Loads every member's saved project; members whose workspace is gone or unreadable are skipped. */
+export function loadDepartments(portfolio: Portfolio, workspaces: WorkspaceMeta[]): Department[] {
+  return portfolio.members.flatMap((m): Department[] => {
+    if (!workspaces.some((w) => w.id === m.workspaceId)) return [];
+    try {
+      return [{ workspaceId: m.workspaceId, name: m.department, state: fromProjectPayload(loadWorkspace(m.workspaceId)) }];
+    } catch {
+      return [];
+    }
+  });
+}
+
+// -----------------------------
+// Roll-ups
+// -----------------------------
+
+export type ReadinessRollup = {
+  rows: { department: string; average: number; scores: Record<ReadinessKey, number> }[];
+  organisation: Record<ReadinessKey, number>; // mean across departments
+  organisationAverage: number;
+  weakest: { key: ReadinessKey; label: string; mean: number }[]; // organisation-wide, lowest first
+};
+
+export function readinessRollup(departments: Department[]): ReadinessRollup {
+  const rows = departments.map((d) => {
+    const scores = Object.fromEntries(READINESS.map((r) => [r.key, d.state.scores[r.key]])) as Record<ReadinessKey, number>;
+    return { department: d.name, average: readinessAverage(scores), scores };
+  });
+  const organisation = Object.fromEntries(
+    READINESS.map((r) => [r.key, rows.length ? rows.reduce((sum, row) => sum + row.scores[r.key], 0) / rows.length : 0])
+  ) as Record<ReadinessKey, number>;
+  return {
+    rows,
+    organisation,
+    organisationAverage: rows.length ? readinessAverage(organisation) : 0,
+    weakest: READINESS.map((r) => ({ key: r.key, label: r.label, mean: organisation[r.key] }))
+      .sort((a, b) => a.mean - b.mean)
+      .slice(0, 3),
+  };
+}
+
+export type PortfolioToken = { department: number; useCase: UseCase; x: number; y: number; placed: boolean };
+
+/**
+ * Every department's use cases on one Impact/Feasibility board: the workshop
+ * placement where there is one, otherwise the score-based position.
+ */
+export function mergedBoard(departments: Department[]): PortfolioToken[] {
+  return departments.flatMap((d, department) =>
+    d.state.useCases.map((u) => {
+      const placed = d.state.placements[u.id];
+      const pos = placed ?? suggestedPosition(u, d.state.criteria);
+      return { department, useCase: u, x: pos.x, y: pos.y, placed: Boolean(placed) };
+    })
+  );
+}
+
+// -----------------------------
+// Similar use cases across departments
+// -----------------------------
+
+const STOPWORDS = new Set(
+  "a an and are as at be by case for from in into is it of on or our the to with using use via ai based new".split(" ")
+);
+
+/** Lower-cased content words of the name and description, with a crude plural strip. */
+export function keywords(u: UseCase): Set<string> {
+  const words = `${u.name} ${u.description}`
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length > 2 && !STOPWORDS.has(w))
+    .map((w) => (w.length > 4 && w.endsWith("s") ? w.slice(0, -1) : w));
+  return new Set(words);
+}
+
+export function similarity(a: Set<string>, b: Set<string>) {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((w) => b.has(w) && shared++);
+  return shared / (a.size + b.size - shared); // Jaccard
+}
+
+export type SimilarGroup = {
+  members: { department: number; useCase: UseCase }[];
+  similarity: number; // best pairwise match inside the group
+  shared: string[]; // keywords common to the best match
+};
+
+/**
+ * Groups use cases from different departments whose names and descriptions
+ * overlap by at least `threshold` (Jaccard on keywords). Matches chain, so a
+ * group can hold several departments.
+ */
+export function similarUseCases(departments: Department[], threshold = 0.3): SimilarGroup[] {
+  const items = departments.flatMap((d, department) =>
+    d.state.useCases
+      .map((useCase) => ({ department, useCase, words: keywords(useCase) }))
+      .filter((item) => item.words.size > 0) // e.g. untouched "Use Case 3" placeholders
+  );
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const best = new Map<number, { score: number; shared: string[] }>();
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (items[i].department === items[j].department) continue;
+      const score = similarity(items[i].words, items[j].words);
+      if (score < threshold) continue;
+      parent[find(i)] = find(j);
+      const shared = [...items[i].words].filter((w) => items[j].words.has(w));
+      [i, j].forEach((k) => {
+        if ((best.get(k)?.score ?? 0) < score) best.set(k, { score, shared });
+      });
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  items.forEach((_, i) => {
+    if (best.has(i)) groups.set(find(i), [...(groups.get(find(i)) ?? []), i]);
+  });
+  return [...groups.values()]
+    .map((members) => {
+      const top = members.map((k) => best.get(k)!).sort((a, b) => b.score - a.score)[0];
+      return {
+        members: members.map((k) => ({ department: items[k].department, useCase: items[k].useCase })),
+        similarity: top.score,
+        shared: top.shared,
+      };
+    })
+    .sort((a, b) => b.similarity - a.similarity);
+}
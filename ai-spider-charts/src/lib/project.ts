@@ -0,0 +1,767 @@
+import { READINESS, defaultReadiness, type ReadinessKey, type ReadinessScores } from "@/Scoring_Readiness";
+import { CRITERIA, emptyScores, type Criterion, type UseCase } from "@/lib/useCases";
+import { AGGREGATION_METHODS, defaultScoringConfig, type ScoringConfig } from "@/lib/scoring";
+import { defaultReadinessAdjustment, type ReadinessAdjustment } from "@/lib/readinessAdjustment";
+import {
+  CONSENSUS_METHODS,
+  applyConsensus,
+  defaultAssessmentConfig,
+  type AssessmentConfig,
+  type Assessor,
+} from "@/lib/assessors";
+import {
+  HORIZON_KEYS,
+  MAX_ROADMAP_MONTHS,
+  defaultRoadmap,
+  type Milestone,
+  type RoadmapConfig,
+  type RoadmapItem,
+} from "@/lib/roadmap";
+import { prunePrerequisites } from "@/lib/dependencies";
+import { clampJudgment, defaultPairwiseConfig, pruneJudgments, type Judgments, type PairwiseConfig } from "@/lib/ahp";
+import {
+  RULE_OPERATORS,
+  defaultHorizonConfig,
+  validSubject,
+  type HorizonConfig,
+  type HorizonRule,
+} from "@/lib/horizonRules";
+import { defaultBenchmarkConfig, type BenchmarkConfig, type BenchmarkProfile } from "@/lib/benchmarks";
+import { isIsoDate, sortSnapshots, type ReadinessSnapshot } from "@/lib/readinessHistory";
+import { defaultActionPlan, type ActionItem, type ActionPlanConfig, type PlaybookEntry } from "@/lib/actionPlan";
+import { normalizeEvidence } from "@/lib/readinessEvidence";
+
+// -----------------------------
+// Project schema (export file == saved workspace)
+// -----------------------------
+// Every file carries a `version`. Older versions are upgraded one step at a
+// time through `MIGRATIONS` until they reach `PROJECT_VERSION`, then
+// normalized into app state. Bump the version (and add a migration) whenever
+// the stored shape changes.
+
+export const PROJECT_VERSION = 15;
+
+export const MIN_USE_CASES = 2;
+export const MAX_USE_CASES = 10;
+export const MIN_CRITERIA = 3; // fewer axes can't form a spider chart
+
+// x: feasibility (0..1), y: impact (0..1); __activeId is the token being dragged
+export type Placements = Record<number, { x: number; y: number }> & { __activeId?: number };
+
+export type ProjectState = {
+  scores: ReadinessScores;
+  criteria: Criterion[];
+  scoring: ScoringConfig;
+  readinessAdjustment: ReadinessAdjustment;
+  assessment: AssessmentConfig;
+  pairwise: PairwiseConfig;
+  roadmap: RoadmapConfig;
+  horizons: HorizonConfig;
+  benchmarks: BenchmarkConfig;
+  readinessHistory: ReadinessSnapshot[];
+  actionPlan: ActionPlanConfig;
+  useCases: UseCase[];
+  placements: Placements;
+};
+
+/** v1: written by the original exporter. Imported as exactly 8 use cases / 8 criteria. */
+export type ProjectFileV1 = {
+  version: 1;
+  exportedAt: string;
+  scores: ReadinessScores;
+  useCases: UseCase[];
+  placements: Record<number, { x: number; y: number }> & { __activeId?: number };
+};
+
+/** v2: lossless — every criterion, 2–10 use cases with stable ids, notes and the active token. */
+export type ProjectFileV2 = {
+  version: 2;
+  exportedAt: string;
+  scores: ReadinessScores;
+  useCases: UseCase[];
+  placements: Record<number, { x: number; y: number }>;
+  activePlacementId: number | null;
+};
+
+/** v3: the evaluation criteria are part of the project instead of a fixed rubric. */
+export type ProjectFileV3 = Omit<ProjectFileV2, "version"> & {
+  version: 3;
+  criteria: Criterion[];
+};
+
+/** v4: weighted ranking — optional `weight` per criterion plus method and group weights. */
+export type ProjectFileV4 = Omit<ProjectFileV3, "version"> & {
+  version: 4;
+  scoring: ScoringConfig;
+};
+
+/** v5: readiness dimensions linked to feasibility criteria. */
+export type ProjectFileV5 = Omit<ProjectFileV4, "version"> & {
+  version: 5;
+  readinessAdjustment: ReadinessAdjustment;
+};
+
+/** v6: named assessors; use cases may carry `assessorScores` alongside the consensus `scores`. */
+export type ProjectFileV6 = Omit<ProjectFileV5, "version"> & {
+  version: 6;
+  assessment: AssessmentConfig;
+};
+
+/** v7: use cases may carry optional low/high `ranges` per criterion. */
+export type ProjectFileV7 = Omit<ProjectFileV6, "version"> & {
+  version: 7;
+};
+
+/** v8: AHP pairwise judgments between criteria and between use cases per criterion. */
+export type ProjectFileV8 = Omit<ProjectFileV7, "version"> & {
+  version: 8;
+  pairwise: PairwiseConfig;
+};
+
+/** v9: timeline roadmap — horizon time windows plus start, duration and milestones per use case. */
+export type ProjectFileV9 = Omit<ProjectFileV8, "version"> & {
+  version: 9;
+  roadmap: RoadmapConfig;
+};
+
+/** v10: use cases may list `prerequisites` (ids of other use cases). */
+export type ProjectFileV10 = Omit<ProjectFileV9, "version"> & {
+  version: 10;
+};
+
+/** v11: configurable quadrant/horizon thresholds and horizon assignment rules. */
+export type ProjectFileV11 = Omit<ProjectFileV10, "version"> & {
+  version: 11;
+  horizons: HorizonConfig;
+};
+
+/** v12: imported readiness benchmark profiles and the one compared against. */
+export type ProjectFileV12 = Omit<ProjectFileV11, "version"> & {
+  version: 12;
+  benchmarks: BenchmarkConfig;
+};
+
+/** v13: dated snapshots of the readiness assessment. */
+export type ProjectFileV13 = Omit<ProjectFileV12, "version"> & {
+  version: 13;
+  readinessHistory: ReadinessSnapshot[];
+};
+
+/** v14: editable readiness playbook and the improvement plan generated from it. */
+export type ProjectFileV14 = Omit<ProjectFileV13, "version"> & {
+  version: 14;
+  actionPlan: ActionPlanConfig;
+};
+
+/** v15: readiness scores may carry a justification and evidence references per dimension. */
+export type ProjectFileV15 = Omit<ProjectFileV14, "version"> & {
+  version: 15;
+};
+
+export type ProjectPayload = ProjectFileV15;
+
+type AnyRecord = Record<string, unknown>;
+
+function isRecord(v: unknown): v is AnyRecord {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function clampInt(n: unknown, min: number, max: number, fallback: number) {
+  const num = Math.round(Number(n));
+  if (n === undefined || n === null || Number.isNaN(num)) return fallback;
+  return Math.max(min, Math.min(max, num));
+}
+
+function clampNumber(n: unknown, min: number, max: number, fallback: number) {
+  const num = Number(n);
+  if (n === null || Number.isNaN(num)) return fallback;
+  return Math.max(min, Math.min(max, num));
+}
+
+function clamp01(n: unknown) {
+  const num = Number(n);
+  return Number.isNaN(num) ? null : Math.max(0, Math.min(1, num));
+}
+
+// -----------------------------
+// Migrations: MIGRATIONS[n] upgrades a version-n file to version n + 1
+// -----------------------------
+
+const MIGRATIONS: Record<number, (file: AnyRecord) => AnyRecord> = {
+  1: (v1) => {
+    const placements = isRecord(v1.placements) ? { ...v1.placements } : {};
+    const activeId = placements.__activeId;
+    delete placements.__activeId;
+    return {
+      ...v1,
+      version: 2,
+      placements,
+      activePlacementId: typeof activeId === "number" ? activeId : null,
+    };
+  },
+  // Files before v3 were all scored against the built-in rubric
+  2: (v2) => ({ ...v2, version: 3, criteria: CRITERIA }),
+  // Unweighted mean reproduces the old ranking order
+  3: (v3) => ({ ...v3, version: 4, scoring: defaultScoringConfig() }),
+  4: (v4) => ({ ...v4, version: 5, readinessAdjustment: defaultReadinessAdjustment() }),
+  5: (v5) => ({ ...v5, version: 6, assessment: defaultAssessmentConfig() }),
+  // Ranges are optional; older files simply have none
+  6: (v6) => ({ ...v6, version: 7 }),
+  7: (v7) => ({ ...v7, version: 8, pairwise: defaultPairwiseConfig() }),
+  8: (v8) => ({ ...v8, version: 9, roadmap: defaultRoadmap() }),
+  // Prerequisites are optional; older files simply have none
+  9: (v9) => ({ ...v9, version: 10 }),
+  // The defaults are the fixed halves and thirds older versions used
+  10: (v10) => ({ ...v10, version: 11, horizons: defaultHorizonConfig() }),
+  11: (v11) => ({ ...v11, version: 12, benchmarks: defaultBenchmarkConfig() }),
+  12: (v12) => ({ ...v12, version: 13, readinessHistory: [] }),
+  13: (v13) => ({ ...v13, version: 14, actionPlan: defaultActionPlan() }),
+  // Evidence is optional; older files simply have none
+  14: (v14) => ({ ...v14, version: 15 }),
+};
+
+/** Upgrades any known file version to the current one; throws on unreadable input. */
+export function migrateProject(raw: unknown): ProjectPayload {
+  if (!isRecord(raw)) throw new Error("The file does not contain a project object.");
+  // Files saved before versioning was introduced have no version field
+  let version = raw.version === undefined ? 1 : Number(raw.version);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Unrecognized project version "${String(raw.version)}".`);
+  }
+  if (version > PROJECT_VERSION) {
+    throw new Error(
+      `This project was saved by a newer version of the tool (v${version}); this tool reads up to v${PROJECT_VERSION}.`
+    );
+  }
+  let file: AnyRecord = raw;
+  while (version < PROJECT_VERSION) {
+    file = MIGRATIONS[version](file);
+    version += 1;
+  }
+  return file as ProjectPayload;
+}
+
+// -----------------------------
+// Normalization (repair anything out of range)
+// -----------------------------
+
+function normalizeReadiness(raw: unknown): ReadinessScores {
+  const next: ReadinessScores = { ...defaultReadiness() };
+  if (!isRecord(raw)) return next;
+  READINESS.forEach((r) => {
+    next[r.key] = clampInt(raw[r.key], 1, 5, next[r.key]);
+  });
+  if (typeof raw.notes === "string") next.notes = raw.notes;
+  const evidence = normalizeEvidence(raw.evidence);
+  if (Object.keys(evidence).length) next.evidence = evidence;
+  return next;
+}
+
+function normalizeCriteria(raw: unknown): Criterion[] {
+  if (!Array.isArray(raw)) return CRITERIA;
+  const seen = new Set<string>();
+  const criteria = raw.flatMap((c: unknown): Criterion[] => {
+    if (!isRecord(c) || typeof c.key !== "string" || !c.key || seen.has(c.key)) return [];
+    seen.add(c.key);
+    const d = isRecord(c.descriptions) ? c.descriptions : {};
+    const text = (v: unknown) => (typeof v === "string" ? v : "");
+    return [
+      {
+        key: c.key,
+        label: typeof c.label === "string" && c.label ? c.label : c.key,
+        group: c.group === "Feasibility" ? "Feasibility" : "Impact",
+        descriptions: { 0: text(d[0]), 5: text(d[5]), 10: text(d[10]) },
+        ...(c.weight !== undefined && { weight: clampNumber(c.weight, 0, 5, 1) }),
+      },
+    ];
+  });
+  return criteria.length >= MIN_CRITERIA ? criteria : CRITERIA;
+}
+
+function normalizeScoring(raw: unknown): ScoringConfig {
+  const fallback = defaultScoringConfig();
+  if (!isRecord(raw)) return fallback;
+  const method = AGGREGATION_METHODS.find((m) => m.value === raw.method)?.value ?? fallback.method;
+  const gw = isRecord(raw.groupWeights) ? raw.groupWeights : {};
+  return {
+    method,
+    groupWeights: {
+      Impact: clampNumber(gw.Impact ?? 1, 0, 5, 1),
+      Feasibility: clampNumber(gw.Feasibility ?? 1, 0, 5, 1),
+    },
+  };
+}
+
+function normalizeReadinessAdjustment(raw: unknown, criteria: Criterion[]): ReadinessAdjustment {
+  if (!isRecord(raw)) return { strength: 0.5, links: [] };
+  const links = (Array.isArray(raw.links) ? raw.links : []).flatMap((l: unknown) =>
+    isRecord(l) &&
+    READINESS.some((r) => r.key === l.readiness) &&
+    criteria.some((c) => c.key === l.criterion)
+      ? [{ readiness: l.readiness as ReadinessKey, criterion: l.criterion as string }]
+      : []
+  );
+  return { strength: clampNumber(raw.strength ?? 0.5, 0, 1, 0.5), links };
+}
+
+function normalizeAssessment(raw: unknown): AssessmentConfig {
+  const fallback = defaultAssessmentConfig();
+  if (!isRecord(raw)) return fallback;
+  const seen = new Set<string>();
+  const assessors = (Array.isArray(raw.assessors) ? raw.assessors : []).flatMap((a: unknown): Assessor[] => {
+    if (!isRecord(a) || typeof a.id !== "string" || !a.id || seen.has(a.id)) return [];
+    seen.add(a.id);
+    return [{ id: a.id, name: typeof a.name === "string" ? a.name : "" }];
+  });
+  return {
+    assessors,
+    method: CONSENSUS_METHODS.find((m) => m.value === raw.method)?.value ?? fallback.method,
+    spreadThreshold: clampNumber(raw.spreadThreshold ?? fallback.spreadThreshold, 0.5, 5, fallback.spreadThreshold),
+  };
+}
+
+function normalizeJudgments(raw: unknown, ids: (string | number)[]): Judgments {
+  if (!isRecord(raw)) return {};
+  const valid = Object.entries(raw).flatMap(([k, v]) => {
+    const n = Number(v);
+    return typeof v === "number" && n > 0 ? [[k, clampJudgment(n)] as const] : [];
+  });
+  return pruneJudgments(Object.fromEntries(valid), ids);
+}
+
+function normalizePairwise(raw: unknown, criteria: Criterion[], useCases: UseCase[]): PairwiseConfig {
+  if (!isRecord(raw)) return defaultPairwiseConfig();
+  const perCriterion = isRecord(raw.useCases) ? raw.useCases : {};
+  const ids = useCases.map((u) => u.id);
+  return {
+    criteria: normalizeJudgments(raw.criteria, criteria.map((c) => c.key)),
+    useCases: Object.fromEntries(
+      criteria.flatMap((c) => {
+        const judgments = normalizeJudgments(perCriterion[c.key], ids);
+        return Object.keys(judgments).length ? [[c.key, judgments]] : [];
+      })
+    ),
+  };
+}
+
+function normalizeRoadmap(raw: unknown, useCases: UseCase[]): RoadmapConfig {
+  const fallback = defaultRoadmap();
+  if (!isRecord(raw)) return fallback;
+  const rawWindows = isRecord(raw.windows) ? raw.windows : {};
+  const windows = Object.fromEntries(
+    HORIZON_KEYS.map((h) => {
+      const w = isRecord(rawWindows[h]) ? rawWindows[h] : {};
+      const from = clampInt(w.from, 0, MAX_ROADMAP_MONTHS - 1, fallback.windows[h].from);
+      return [h, { from, to: clampInt(w.to, from + 1, MAX_ROADMAP_MONTHS, Math.max(from + 1, fallback.windows[h].to)) }];
+    })
+  ) as RoadmapConfig["windows"];
+  const rawItems = isRecord(raw.items) ? raw.items : {};
+  const items = Object.fromEntries(
+    useCases.flatMap((u): [number, RoadmapItem][] => {
+      const item = rawItems[u.id];
+      if (!isRecord(item)) return [];
+      const milestones = (Array.isArray(item.milestones) ? item.milestones : []).flatMap((m: unknown): Milestone[] =>
+        isRecord(m) && typeof m.id === "string"
+          ? [
+              {
+                id: m.id,
+                label: typeof m.label === "string" ? m.label : "",
+                month: clampInt(m.month, 0, MAX_ROADMAP_MONTHS - 1, 0),
+              },
+            ]
+          : []
+      );
+      return [
+        [
+          u.id,
+          {
+            start: clampInt(item.start, 0, MAX_ROADMAP_MONTHS / 3 - 1, 0),
+            duration: clampInt(item.duration, 1, MAX_ROADMAP_MONTHS / 3, 2),
+            milestones,
+          },
+        ],
+      ];
+    })
+  );
+  return {
+    startYear: clampInt(raw.startYear, 2000, 2100, fallback.startYear),
+    startQuarter: clampInt(raw.startQuarter, 1, 4, fallback.startQuarter),
+    windows,
+    items,
+  };
+}
+
+function normalizeHorizons(raw: unknown, criteria: Criterion[]): HorizonConfig {
+  const fallback = defaultHorizonConfig();
+  if (!isRecord(raw)) return fallback;
+  const h2From = clampNumber(raw.h2From, 0, 1, fallback.h2From);
+  const rules = (Array.isArray(raw.rules) ? raw.rules : []).flatMap((r: unknown): HorizonRule[] =>
+    isRecord(r) &&
+    typeof r.id === "string" &&
+    typeof r.subject === "string" &&
+    validSubject(r.subject, criteria) &&
+    RULE_OPERATORS.includes(r.operator as HorizonRule["operator"]) &&
+    (r.action === "never" || r.action === "always") &&
+    HORIZON_KEYS.includes(r.horizon as HorizonRule["horizon"])
+      ? [
+          {
+            id: r.id,
+            subject: r.subject,
+            operator: r.operator as HorizonRule["operator"],
+            value: clampNumber(r.value, 1, 10, 5),
+            action: r.action,
+            horizon: r.horizon as HorizonRule["horizon"],
+          },
+        ]
+      : []
+  );
+  return {
+    impact: clampNumber(raw.impact, 0, 1, fallback.impact),
+    feasibility: clampNumber(raw.feasibility, 0, 1, fallback.feasibility),
+    h2From,
+    h1From: clampNumber(raw.h1From, h2From, 1, Math.max(h2From, fallback.h1From)),
+    rules,
+  };
+}
+
+function normalizeBenchmarks(raw: unknown): BenchmarkConfig {
+  if (!isRecord(raw)) return defaultBenchmarkConfig();
+  const imported = (Array.isArray(raw.imported) ? raw.imported : []).flatMap((p: unknown): BenchmarkProfile[] => {
+    if (!isRecord(p) || typeof p.id !== "string" || !isRecord(p.scores)) return [];
+    const scores = p.scores;
+    return [
+      {
+        id: p.id,
+        name: typeof p.name === "string" && p.name.trim() ? p.name : "Imported benchmark",
+        ...(typeof p.description === "string" ? { description: p.description } : {}),
+        scores: Object.fromEntries(READINESS.map((r) => [r.key, clampNumber(scores[r.key], 1, 5, 3)])) as BenchmarkProfile["scores"],
+      },
+    ];
+  });
+  return { imported, activeId: typeof raw.activeId === "string" ? raw.activeId : null };
+}
+
+function normalizeReadinessHistory(raw: unknown): ReadinessSnapshot[] {
+  if (!Array.isArray(raw)) return [];
+  return sortSnapshots(
+    raw.flatMap((s: unknown): ReadinessSnapshot[] => {
+      if (!isRecord(s) || typeof s.id !== "string" || !isIsoDate(s.date) || !isRecord(s.scores)) return [];
+      const scores = s.scores;
+      return [
+        {
+          id: s.id,
+          date: s.date,
+          label: typeof s.label === "string" ? s.label : "",
+          scores: Object.fromEntries(READINESS.map((r) => [r.key, clampInt(scores[r.key], 1, 5, 3)])) as ReadinessSnapshot["scores"],
+        },
+      ];
+    })
+  );
+}
+
+function readinessKeys(raw: unknown): ReadinessKey[] {
+  if (!Array.isArray(raw)) return [];
+  return READINESS.map((r) => r.key).filter((k) => raw.includes(k));
+}
+
+const str = (v: unknown) => (typeof v === "string" ? v : "");
+
+function normalizeActionPlan(raw: unknown): ActionPlanConfig {
+  if (!isRecord(raw)) return defaultActionPlan();
+  const playbook = Array.isArray(raw.playbook)
+    ? raw.playbook.flatMap((e: unknown): PlaybookEntry[] =>
+        isRecord(e) && typeof e.id === "string"
+          ? [
+              {
+                id: e.id,
+                dimensions: readinessKeys(e.dimensions),
+                threshold: clampInt(e.threshold, 1, 4, 2),
+                action: str(e.action),
+                owner: str(e.owner),
+                timeframe: str(e.timeframe),
+              },
+            ]
+          : []
+      )
+    : defaultActionPlan().playbook;
+  const items = (Array.isArray(raw.items) ? raw.items : []).flatMap((i: unknown): ActionItem[] =>
+    isRecord(i) && typeof i.id === "string"
+      ? [
+          {
+            id: i.id,
+            entryId: typeof i.entryId === "string" ? i.entryId : null,
+            dimensions: readinessKeys(i.dimensions),
+            action: str(i.action),
+            owner: str(i.owner),
+            timeframe: str(i.timeframe),
+            done: i.done === true,
+          },
+        ]
+      : []
+  );
+  return { playbook, items };
+}
+
+function alignScoreSet(scores: Record<string, number>, criteria: Criterion[]) {
+  const next = emptyScores(criteria);
+  criteria.forEach(({ key }) => {
+    if (typeof scores[key] === "number") next[key] = scores[key];
+  });
+  return next;
+}
+
+/**
+ * Keeps each use case's scores (and every assessor's) in step with the
+ * criteria: drops removed keys, adds new ones at 5. Ranges of removed criteria are dropped.
+ */
+export function alignScores(useCases: UseCase[], criteria: Criterion[]): UseCase[] {
+  return useCases.map((u) => ({
+    ...u,
+    scores: alignScoreSet(u.scores, criteria),
+    ...(u.assessorScores && {
+      assessorScores: Object.fromEntries(
+        Object.entries(u.assessorScores).map(([id, scores]) => [id, alignScoreSet(scores, criteria)])
+      ),
+    }),
+    ...(u.ranges && {
+      ranges: Object.fromEntries(Object.entries(u.ranges).filter(([key]) => criteria.some((c) => c.key === key))),
+    }),
+  }));
+}
+
+// Low/high per criterion; dropped when missing or when they don't span anything
+function normalizeRanges(raw: unknown, criteria: Criterion[]): UseCase["ranges"] {
+  if (!isRecord(raw)) return undefined;
+  const entries = criteria.flatMap(({ key }) => {
+    const r = raw[key];
+    if (!isRecord(r)) return [];
+    const a = clampInt(r.low, 1, 10, NaN);
+    const b = clampInt(r.high, 1, 10, NaN);
+    if (Number.isNaN(a) || Number.isNaN(b) || a === b) return [];
+    return [[key, { low: Math.min(a, b), high: Math.max(a, b) }] as const];
+  });
+  return entries.length ? Object.fromEntries(entries) : undefined;
+}
+
+const rawUseCaseId = (u: unknown) =>
+  isRecord(u) && Number.isInteger(u.id) && (u.id as number) >= 0 ? (u.id as number) : null;
+
+/**
+ * Moves use case ids at or above MAX_USE_CASES (e.g. from a hand-edited file)
+ * to free ids below it and renames every reference: placements, roadmap
+ * items, pairwise judgments and prerequisites.
+ */
+function remapOutOfRangeIds(file: ProjectPayload): ProjectPayload {
+  const incoming: unknown[] = (Array.isArray(file.useCases) ? file.useCases : []).slice(0, MAX_USE_CASES);
+  const used = new Set(incoming.map(rawUseCaseId).filter((id): id is number => id !== null && id < MAX_USE_CASES));
+  const remap = new Map<number, number>();
+  incoming.forEach((u) => {
+    const id = rawUseCaseId(u);
+    if (id === null || id < MAX_USE_CASES || remap.has(id)) return;
+    let free = 0;
+    while (used.has(free)) free++;
+    used.add(free);
+    remap.set(id, free);
+  });
+  if (remap.size === 0) return file;
+
+  const to = (id: string | number) => String(remap.get(Number(id)) ?? id);
+  const rekey = (rec: unknown, key: (k: string) => string) =>
+    isRecord(rec) ? Object.fromEntries(Object.entries(rec).map(([k, v]) => [key(k), v])) : rec;
+  const pair = (k: string) => k.split("|").map(to).join("|");
+  const { pairwise, roadmap } = file as AnyRecord;
+  return {
+    ...file,
+    useCases: incoming.map((u) => {
+      if (!isRecord(u)) return u;
+      const id = rawUseCaseId(u);
+      const prerequisites = Array.isArray(u.prerequisites)
+        ? u.prerequisites.map((p: unknown) => (Number.isInteger(p) ? remap.get(p as number) ?? p : p))
+        : u.prerequisites;
+      return { ...u, id: id === null ? u.id : remap.get(id) ?? id, prerequisites };
+    }) as UseCase[],
+    placements: rekey(file.placements, to) as ProjectPayload["placements"],
+    activePlacementId:
+      typeof file.activePlacementId === "number"
+        ? remap.get(file.activePlacementId) ?? file.activePlacementId
+        : file.activePlacementId,
+    roadmap: (isRecord(roadmap) ? { ...roadmap, items: rekey(roadmap.items, to) } : roadmap) as RoadmapConfig,
+    pairwise: (isRecord(pairwise) && isRecord(pairwise.useCases)
+      ? {
+          ...pairwise,
+          useCases: Object.fromEntries(Object.entries(pairwise.useCases).map(([c, judgments]) => [c, rekey(judgments, pair)])),
+        }
+      : pairwise) as PairwiseConfig,
+  };
+}
+
+function normalizeUseCases(raw: unknown, criteria: Criterion[], assessors: Assessor[]): UseCase[] {
+  const incoming = (Array.isArray(raw) ? raw : []).slice(0, MAX_USE_CASES);
+  // Ids stay below MAX_USE_CASES so the color and number derived from them are unique
+  const claimed = new Set(incoming.map(rawUseCaseId).filter((id): id is number => id !== null && id < MAX_USE_CASES));
+  const seen = new Set<number>();
+  const freeId = (preferred: number) => {
+    let id = claimed.has(preferred) || seen.has(preferred) ? 0 : preferred;
+    while (claimed.has(id) || seen.has(id)) id++;
+    return id;
+  };
+
+  const useCases = incoming.map((u: unknown, i: number): UseCase => {
+    const rec = isRecord(u) ? u : {};
+    const rawScores = isRecord(rec.scores) ? rec.scores : {};
+    // Keep ids stable (placements are keyed by them); only repair missing, duplicate or out-of-range ones
+    const given = rawUseCaseId(rec);
+    const id = given !== null && given < MAX_USE_CASES && !seen.has(given) ? given : freeId(i);
+    seen.add(id);
+
+    // Consensus scores may be fractional; they are recomputed from the assessor sets anyway
+    const scores = emptyScores(criteria);
+    criteria.forEach(({ key }) => {
+      scores[key] = clampNumber(rawScores[key] ?? scores[key], 1, 10, scores[key]);
+    });
+
+    // One full score set per known assessor; gaps start from the consensus
+    const rawSets = isRecord(rec.assessorScores) ? rec.assessorScores : {};
+    const assessorScores = Object.fromEntries(
+      assessors.map((a) => {
+        const rawSet = rawSets[a.id];
+        const set = isRecord(rawSet) ? rawSet : {};
+        return [a.id, Object.fromEntries(criteria.map(({ key }) => [key, clampInt(set[key], 1, 10, Math.round(scores[key]))]))];
+      })
+    );
+
+    const ranges = normalizeRanges(rec.ranges, criteria);
+    // Checked against the final ids below
+    const prerequisites = (Array.isArray(rec.prerequisites) ? rec.prerequisites : []).filter(
+      (p: unknown, k: number, all: unknown[]): p is number => Number.isInteger(p) && all.indexOf(p) === k
+    );
+
+    return {
+      id,
+      name: typeof rec.name === "string" ? rec.name : `Use Case ${i + 1}`,
+      description: typeof rec.description === "string" ? rec.description : "",
+      visible: typeof rec.visible === "boolean" ? rec.visible : true,
+      scores,
+      ...(assessors.length > 0 && { assessorScores }),
+      ...(ranges && { ranges }),
+      ...(prerequisites.length > 0 && { prerequisites }),
+    };
+  });
+
+  while (useCases.length < MIN_USE_CASES) {
+    const id = freeId(useCases.length);
+    seen.add(id);
+    useCases.push({
+      id,
+      name: `Use Case ${useCases.length + 1}`,
+      description: "",
+      visible: true,
+      scores: emptyScores(criteria),
+      ...(assessors.length > 0 && {
+        assessorScores: Object.fromEntries(assessors.map((a) => [a.id, emptyScores(criteria)])),
+      }),
+    });
+  }
+  return prunePrerequisites(useCases);
+}
+
+function normalizePlacements(raw: unknown, activeId: unknown): Placements {
+  const next: Placements = {};
+  if (isRecord(raw)) {
+    Object.keys(raw).forEach((k) => {
+      const id = Number(k);
+      const p = raw[k];
+      if (!Number.isInteger(id) || !isRecord(p)) return;
+      const x = clamp01(p.x);
+      const y = clamp01(p.y);
+      if (x !== null && y !== null) next[id] = { x, y };
+    });
+  }
+  if (typeof activeId === "number" && Number.isInteger(activeId)) next.__activeId = activeId;
+  return next;
+}
+
+// -----------------------------
+// Public API
+// -----------------------------
+
+/**
+ * Smallest id not in use. Ids never change once assigned and stay below
+ * MAX_USE_CASES, so the color and number derived from an id are unique.
+ */
+export function nextUseCaseId(useCases: UseCase[]) {
+  let id = 0;
+  while (useCases.some((u) => u.id === id)) id++;
+  return id;
+}
+
+/**
+ * Ids of use cases whose displayed name (ignoring case and surrounding
+ * spaces) is shared with another use case.
+ */
+export function duplicateNameIds(useCases: UseCase[]): Set<number> {
+  const byName = new Map<string, number[]>();
+  useCases.forEach((u) => {
+    const name = (u.name.trim() || `Use Case ${u.id + 1}`).toLowerCase();
+    byName.set(name, [...(byName.get(name) ?? []), u.id]);
+  });
+  return new Set([...byName.values()].filter((ids) => ids.length > 1).flat());
+}
+
+/** Drops board positions of use cases that no longer exist (same object when nothing is dropped). */
+export function prunePlacements(placements: Placements, useCases: UseCase[]): Placements {
+  const { __activeId, ...positions } = placements;
+  const stale = Object.keys(positions).filter((k) => !useCases.some((u) => u.id === Number(k)));
+  if (stale.length === 0 && (__activeId === undefined || useCases.some((u) => u.id === __activeId))) return placements;
+  const next: Placements = Object.fromEntries(Object.entries(positions).filter(([k]) => !stale.includes(k)));
+  if (__activeId !== undefined && useCases.some((u) => u.id === __activeId)) next.__activeId = __activeId;
+  return next;
+}
+
+export function toProjectPayload(state: ProjectState): ProjectPayload {
+  const { __activeId, ...placements } = state.placements;
+  return {
+    version: PROJECT_VERSION,
+    exportedAt: new Date().toISOString(),
+    scores: state.scores,
+    criteria: state.criteria,
+    scoring: state.scoring,
+    readinessAdjustment: state.readinessAdjustment,
+    assessment: state.assessment,
+    pairwise: state.pairwise,
+    roadmap: state.roadmap,
+    horizons: state.horizons,
+    benchmarks: state.benchmarks,
+    readinessHistory: state.readinessHistory,
+    actionPlan: state.actionPlan,
+    useCases: state.useCases,
+    placements,
+    activePlacementId: __activeId ?? null,
+  };
+}
+
+/**
+ * Reads an exported project (or a saved workspace) of any known version back
+ * into app state. Out-of-range values are repaired; unknown versions throw.
+ */
+export function fromProjectPayload(raw: unknown): ProjectState {
+  const file = remapOutOfRangeIds(migrateProject(raw));
+  const criteria = normalizeCriteria(file.criteria);
+  const assessment = normalizeAssessment(file.assessment);
+  const useCases = applyConsensus(normalizeUseCases(file.useCases, criteria, assessment.assessors), criteria, assessment);
+  return {
+    scores: normalizeReadiness(file.scores),
+    criteria,
+    scoring: normalizeScoring(file.scoring),
+    readinessAdjustment: normalizeReadinessAdjustment(file.readinessAdjustment, criteria),
+    assessment,
+    pairwise: normalizePairwise(file.pairwise, criteria, useCases),
+    roadmap: normalizeRoadmap(file.roadmap, useCases),
+    horizons: normalizeHorizons(file.horizons, criteria),
+    benchmarks: normalizeBenchmarks(file.benchmarks),
+    readinessHistory: normalizeReadinessHistory(file.readinessHistory),
+    actionPlan: normalizeActionPlan(file.actionPlan),
+    useCases,
+    placements: normalizePlacements(file.placements, file.activePlacementId),
+  };
+}
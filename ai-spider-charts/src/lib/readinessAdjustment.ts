@@ -0,0 +1,67 @@
+import type { ReadinessKey, ReadinessScores } from "@/Scoring_Readiness";
+import type { Criterion, UseCase } from "@/AISpiderCharts";
+import { groupScore } from "@/lib/scoring";
+
+// -----------------------------
+// Readiness-adjusted feasibility
+// -----------------------------
+// A feasibility criterion linked to one or more readiness dimensions is scaled
+// down when the department scores low on them: with strength s and mean linked
+// readiness r (1..5), the factor is 1 − s · (5 − r) / 4. Fully ready (r = 5)
+// leaves the score untouched; r = 1 multiplies it by 1 − s.
+
+export type ReadinessLink = { readiness: ReadinessKey; criterion: string };
+
+export type ReadinessAdjustment = {
+  strength: number; // 0..1
+  links: ReadinessLink[];
+};
+
+export const defaultReadinessAdjustment = (): ReadinessAdjustment => ({
+  strength: 0.5,
+  links: [
+    { readiness: "dataMaturity", criterion: "dataReady" },
+    { readiness: "techInfra", criterion: "techMature" },
+    { readiness: "resourcesBudget", criterion: "lowImplementationCost" },
+  ],
+});
+
+/** Multiplier applied to each linked feasibility criterion (criteria without links are absent). */
+export function readinessFactors(readiness: ReadinessScores, adjustment: ReadinessAdjustment) {
+  const linked: Record<string, number[]> = {};
+  adjustment.links.forEach(({ readiness: r, criterion }) => {
+    (linked[criterion] ??= []).push(readiness[r]);
+  });
+  return Object.fromEntries(
+    Object.entries(linked).map(([criterion, values]) => {
+      const mean = values.reduce((a, b) => a + b, 0) / values.length;
+      return [criterion, 1 - adjustment.strength * ((5 - mean) / 4)];
+    })
+  );
+}
+
+/** The use case with its linked feasibility scores scaled by department readiness (never below 1). */
+export function adjustUseCase(
+  u: UseCase,
+  criteria: Criterion[],
+  readiness: ReadinessScores,
+  adjustment: ReadinessAdjustment
+): UseCase {
+  const factors = readinessFactors(readiness, adjustment);
+  const scores = { ...u.scores };
+  criteria.forEach((c) => {
+    if (c.group === "Feasibility" && factors[c.key] !== undefined) {
+      scores[c.key] = Math.max(1, scores[c.key] * factors[c.key]);
+    }
+  });
+  return { ...u, scores };
+}
+
+export function adjustedFeasibility(
+  u: UseCase,
+  criteria: Criterion[],
+  readiness: ReadinessScores,
+  adjustment: ReadinessAdjustment
+) {
+  return groupScore(adjustUseCase(u, criteria, readiness, adjustment), criteria, "Feasibility");
+}
@@ -0,0 +1,58 @@
+import { READINESS, type ReadinessKey, type ReadinessScores } from "@/Scoring_Readiness";
+
+// -----------------------------
+// Readiness evidence
+// -----------------------------
+// Each readiness dimension can carry a justification note and references to
+// supporting evidence. References are free text: a URL, or the name or path
+// of a document kept elsewhere (the tool stores no files itself).
+
+export type DimensionEvidence = { note: string; links: string[] };
+
+export type ReadinessEvidence = Partial<Record<ReadinessKey, DimensionEvidence>>;
+
+/** Scores at or above this should be backed by at least one reference. */
+export const EVIDENCE_EXPECTED_FROM = 4;
+
+const EMPTY: DimensionEvidence = { note: "", links: [] };
+
+export const evidenceFor = (scores: ReadinessScores, key: ReadinessKey): DimensionEvidence =>
+  scores.evidence?.[key] ?? EMPTY;
+
+export const isUrl = (ref: string) => /^https?:\/\/\S+$/i.test(ref.trim());
+
+/** Sets one dimension's evidence; entries with no note and no references are dropped. */
+export function withEvidence(scores: ReadinessScores, key: ReadinessKey, patch: Partial<DimensionEvidence>): ReadinessScores {
+  const next = { ...evidenceFor(scores, key), ...patch };
+  const evidence = { ...scores.evidence };
+  if (next.note.trim() || next.links.length) evidence[key] = next;
+  else delete evidence[key];
+  return { ...scores, evidence };
+}
+
+/** Dimensions scored 4–5 without a single evidence reference. */
+export function unsupportedHighScores(scores: ReadinessScores) {
+  return READINESS.filter((r) => scores[r.key] >= EVIDENCE_EXPECTED_FROM && evidenceFor(scores, r.key).links.length === 0).map(
+    (r) => ({ key: r.key, label: r.label, score: scores[r.key] })
+  );
+}
+
+/** Keeps known dimensions with a string note and non-empty string references. */
+export function normalizeEvidence(raw: unknown): ReadinessEvidence {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return {};
+  const source = raw as Record<string, unknown>;
+  const evidence: ReadinessEvidence = {};
+  READINESS.forEach((r) => {
+    const e = source[r.key];
+    if (typeof e !== "object" || e === null) return;
+    const { note, links } = e as Record<string, unknown>;
+    const entry = {
+      note: typeof note === "string" ? note : "",
+      links: Array.isArray(links)
+        ? links.filter((l): l is string => typeof l === "string" && l.trim() !== "").map((l) => l.trim())
+        : [],
+    };
+    if (entry.note.trim() || entry.links.length) evidence[r.key] = entry;
+  });
+  return evidence;
+}
@@ -0,0 +1,69 @@
+import { READINESS, type ReadinessKey, type ReadinessScores } from "@/Scoring_Readiness";
+
+// -----------------------------
+// Dated readiness snapshots
+// -----------------------------
+// The Step 1 scores are the live assessment; a snapshot freezes them under a
+// date (YYYY-MM-DD) so repeated assessments can be charted and compared.
+
+export type ReadinessSnapshot = {
+  id: string;
+  date: string; // YYYY-MM-DD
+  label: string;
+  scores: Record<ReadinessKey, number>;
+};
+
+export const newSnapshotId = () => `s-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const todayIso = (now = new Date()) =>
+  `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+
+export const isIsoDate = (s: unknown): s is string => typeof s === "string" && /^\d{4}-\d{2}-\d{2}$/.test(s);
+
+export function readinessAverage(scores: Record<ReadinessKey, number>) {
+  return READINESS.reduce((sum, r) => sum + scores[r.key], 0) / READINESS.length;
+}
+
+/** Freezes the current scores (without notes). */
+export function takeSnapshot(scores: ReadinessScores, date: string, label = ""): ReadinessSnapshot {
+  return {
+    id: newSnapshotId(),
+    date,
+    label,
+    scores: Object.fromEntries(READINESS.map((r) => [r.key, scores[r.key]])) as Record<ReadinessKey, number>,
+  };
+}
+
+/** Oldest first; snapshots on the same day keep the order they were taken in. */
+export function sortSnapshots(snapshots: ReadinessSnapshot[]) {
+  return [...snapshots].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function snapshotName(s: ReadinessSnapshot) {
+  return s.label ? `${s.date} · ${s.label}` : s.date;
+}
+
+/** One chart row per snapshot: its date, overall average and every dimension. */
+export function trendData(snapshots: ReadinessSnapshot[]) {
+  return sortSnapshots(snapshots).map((s) => ({
+    id: s.id,
+    name: snapshotName(s),
+    overall: Math.round(readinessAverage(s.scores) * 100) / 100,
+    ...s.scores,
+  }));
+}
+
+export type ReadinessChange = { key: ReadinessKey | "overall"; label: string; from: number; to: number; delta: number };
+
+/** Per-dimension change from `a` to `b`, overall average first. */
+export function compareSnapshots(
+  a: Record<ReadinessKey, number>,
+  b: Record<ReadinessKey, number>
+): ReadinessChange[] {
+  const round = (n: number) => Math.round(n * 100) / 100;
+  const overall = { from: round(readinessAverage(a)), to: round(readinessAverage(b)) };
+  return [
+    { key: "overall", label: "Overall average", ...overall, delta: round(overall.to - overall.from) },
+    ...READINESS.map((r) => ({ key: r.key, label: r.label, from: a[r.key], to: b[r.key], delta: b[r.key] - a[r.key] })),
+  ];
+}
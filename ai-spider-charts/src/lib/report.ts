@@ -0,0 +1,620 @@
+import { GState, jsPDF } from "jspdf";
+import { READINESS, band } from "@/Scoring_Readiness";
+import { COLORS, type UseCase } from "@/lib/useCases";
+import type { ProjectState } from "@/lib/project";
+import { horizonBuckets } from "@/lib/placement";
+import { assignHorizons } from "@/lib/horizonRules";
+import { activeBenchmark, largestLags, readinessGaps } from "@/lib/benchmarks";
+import { compareSnapshots, readinessAverage, snapshotName, sortSnapshots } from "@/lib/readinessHistory";
+import { dimensionLabel } from "@/lib/actionPlan";
+import { EVIDENCE_EXPECTED_FROM, evidenceFor, unsupportedHighScores } from "@/lib/readinessEvidence";
+import { quarterLabel, roadmapItem } from "@/lib/roadmap";
+import { AGGREGATION_METHODS, formatScore, groupScore, rankUseCases, type RankedUseCase } from "@/lib/scoring";
+
+// -----------------------------
+// Multi-page PDF report
+// -----------------------------
+// Everything is drawn with jsPDF primitives (text, lines, polygons) rather
+// than screenshots, so charts stay sharp at any zoom. A4 portrait, units in mm.
+
+const PAGE_W = 210;
+const PAGE_H = 297;
+const MARGIN = 18;
+const CONTENT_W = PAGE_W - 2 * MARGIN;
+const BOTTOM = PAGE_H - MARGIN - 6; // leaves room for the footer
+
+const INK = "#0f172a"; // slate-900
+const MUTED = "#64748b"; // slate-500
+const GRID = "#cbd5e1"; // slate-300
+
+type Point = [number, number];
+
+/** Tracks the write position and breaks to a new page when a block would not fit. */
+type Flow = { doc: jsPDF; y: number };
+
+function newPage(flow: Flow) {
+  flow.doc.addPage();
+  flow.y = MARGIN;
+}
+
+function ensureSpace(flow: Flow, height: number) {
+  if (flow.y + height > BOTTOM) newPage(flow);
+}
+
+const lineHeight = (fontSize: number) => fontSize * 0.3528 * 1.35; // pt → mm with leading
+
+function setText(doc: jsPDF, size: number, style: "normal" | "bold" | "italic" = "normal", color = INK) {
+  doc.setFont("helvetica", style);
+  doc.setFontSize(size);
+  doc.setTextColor(color);
+}
+
+/** Wrapped paragraph in the current font, breaking pages between lines. */
+function paragraph(flow: Flow, text: string, width = CONTENT_W, x = MARGIN) {
+  const size = flow.doc.getFontSize();
+  const lines: string[] = flow.doc.splitTextToSize(text, width);
+  lines.forEach((line) => {
+    ensureSpace(flow, lineHeight(size));
+    flow.doc.text(line, x, flow.y + lineHeight(size) * 0.75);
+    flow.y += lineHeight(size);
+  });
+}
+
+function heading(flow: Flow, text: string) {
+  ensureSpace(flow, 14);
+  setText(flow.doc, 16, "bold");
+  flow.doc.text(text, MARGIN, flow.y + 6);
+  flow.doc.setDrawColor(GRID);
+  flow.doc.setLineWidth(0.3);
+  flow.doc.line(MARGIN, flow.y + 9, PAGE_W - MARGIN, flow.y + 9);
+  flow.y += 14;
+}
+
+function polygon(doc: jsPDF, points: Point[], style: "S" | "F" | "FD") {
+  const [x0, y0] = points[0];
+  const deltas = points.slice(1).map(([x, y], i) => [x - points[i][0], y - points[i][1]]);
+  doc.lines(deltas, x0, y0, [1, 1], style, true);
+}
+
+function withOpacity(doc: jsPDF, opacity: number, draw: () => void) {
+  doc.saveGraphicsState();
+  doc.setGState(new GState({ opacity }));
+  draw();
+  doc.restoreGraphicsState();
+}
+
+const displayName = (u: UseCase) => u.name || `Use Case ${u.id + 1}`;
+
+// -----------------------------
+// Charts
+// -----------------------------
+
+type RadarSeries = { values: number[]; color: string };
+
+/** Spider chart centred on (cx, cy): 0–10 radial scale, first axis at 12 o'clock, clockwise. */
+function drawRadar(doc: jsPDF, cx: number, cy: number, r: number, labels: string[], series: RadarSeries[]) {
+  const n = labels.length;
+  const at = (i: number, value: number): Point => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * i) / n;
+    const d = (r * Math.max(0, Math.min(10, value))) / 10;
+    return [cx + d * Math.cos(angle), cy + d * Math.sin(angle)];
+  };
+
+  doc.setDrawColor(GRID);
+  doc.setLineWidth(0.2);
+  [2, 4, 6, 8, 10].forEach((ring) => polygon(doc, labels.map((_, i) => at(i, ring)), "S"));
+  labels.forEach((_, i) => doc.line(cx, cy, ...at(i, 10)));
+
+  setText(doc, 6.5, "normal", MUTED);
+  labels.forEach((label, i) => {
+    const [x, y] = at(i, 11.2);
+    const align = Math.abs(x - cx) < 1 ? "center" : x > cx ? "left" : "right";
+    const lines: string[] = doc.splitTextToSize(label, 34);
+    doc.text(lines, x, y + (y > cy ? 2 : y < cy - 1 ? -lineHeight(6.5) * (lines.length - 1) : 0), { align });
+  });
+
+  series.forEach(({ values, color }) => {
+    const pts = values.map((v, i) => at(i, v));
+    doc.setFillColor(color);
+    doc.setDrawColor(color);
+    doc.setLineWidth(0.5);
+    withOpacity(doc, 0.2, () => polygon(doc, pts, "F"));
+    polygon(doc, pts, "S");
+  });
+}
+
+function legend(flow: Flow, items: { label: string; color: string }[]) {
+  const { doc } = flow;
+  const colW = CONTENT_W / 2;
+  items.forEach((item, i) => {
+    const x = MARGIN + (i % 2) * colW;
+    if (i % 2 === 0) ensureSpace(flow, 5);
+    doc.setFillColor(item.color);
+    doc.rect(x, flow.y + 0.8, 3, 3, "F");
+    setText(doc, 9);
+    doc.text(doc.splitTextToSize(item.label, colW - 8)[0], x + 5, flow.y + 3.5);
+    if (i % 2 === 1 || i === items.length - 1) flow.y += 5;
+  });
+}
+
+// -----------------------------
+// Sections
+// -----------------------------
+
+function coverPage(flow: Flow, title: string, state: ProjectState, ranks: RankedUseCase[]) {
+  const { doc } = flow;
+  const avg = READINESS.reduce((sum, r) => sum + state.scores[r.key], 0) / READINESS.length;
+
+  doc.setFillColor(INK);
+  doc.rect(0, 0, PAGE_W, 90, "F");
+  setText(doc, 12, "normal", "#cbd5e1");
+  doc.text("AI Strategy Report", MARGIN, 40);
+  setText(doc, 26, "bold", "#ffffff");
+  doc.text(doc.splitTextToSize(title, CONTENT_W), MARGIN, 55);
+  setText(doc, 11, "normal", "#cbd5e1");
+  doc.text(
+    new Date().toLocaleDateString(undefined, { year: "numeric", month: "long", day: "numeric" }),
+    MARGIN,
+    80
+  );
+
+  flow.y = 110;
+  setText(doc, 12, "bold");
+  doc.text("At a glance", MARGIN, flow.y);
+  flow.y += 8;
+  const facts = [
+    ["Department readiness", `${avg.toFixed(2)} / 5 — ${band(avg).label}`],
+    ["Use cases evaluated", String(state.useCases.length)],
+    ["Evaluation criteria", String(state.criteria.length)],
+    ["Ranking method", AGGREGATION_METHODS.find((m) => m.value === state.scoring.method)?.label ?? ""],
+    ["Top-ranked use case", ranks[0] ? `${ranks[0].name} (${formatScore(ranks[0].score)})` : "—"],
+  ];
+  facts.forEach(([label, value]) => {
+    setText(doc, 11, "normal", MUTED);
+    doc.text(label, MARGIN, flow.y);
+    setText(doc, 11, "bold");
+    doc.text(value, MARGIN + 60, flow.y);
+    flow.y += 8;
+  });
+
+  setText(doc, 10, "normal", MUTED);
+  flow.y += 6;
+  paragraph(
+    flow,
+    "Contents: readiness summary and per-dimension breakdown; ranking; one spider chart per use case; comparison overlay; Impact/Feasibility board; 3 Horizons roadmap."
+  );
+}
+
+function readinessSection(flow: Flow, state: ProjectState) {
+  const { doc } = flow;
+  const avg = READINESS.reduce((sum, r) => sum + state.scores[r.key], 0) / READINESS.length;
+  const { label } = band(avg);
+
+  newPage(flow);
+  heading(flow, "Step 1 — Department Readiness");
+
+  setText(doc, 11);
+  doc.text(`Average score: ${avg.toFixed(2)} / 5`, MARGIN, flow.y + 4);
+  setText(doc, 11, "bold");
+  doc.text(`Band: ${label}`, PAGE_W - MARGIN, flow.y + 4, { align: "right" });
+  flow.y += 8;
+  doc.setFillColor("#e2e8f0");
+  doc.rect(MARGIN, flow.y, CONTENT_W, 3, "F");
+  doc.setFillColor(INK);
+  doc.rect(MARGIN, flow.y, (CONTENT_W * (avg - 1)) / 4, 3, "F");
+  flow.y += 8;
+
+  setText(doc, 9, "normal", MUTED);
+  paragraph(flow, "Foundational (up to 2.4): begin with data plumbing, policy basics, and pilot literacy.");
+  paragraph(flow, "Emerging (2.5–3.7): formalize workflows, governance, and partnerships.");
+  paragraph(flow, "Ready (3.8 and above): proceed with scoped AI pilots tied to strategy.");
+  flow.y += 6;
+
+  setText(doc, 12, "bold");
+  doc.text("Breakdown by dimension", MARGIN, flow.y + 4);
+  flow.y += 9;
+
+  const labelW = 62;
+  const barW = CONTENT_W - labelW - 14;
+  READINESS.forEach((r) => {
+    const score = state.scores[r.key];
+    const anchor = score <= 2 ? r.help.one : score >= 4 ? r.help.five : r.help.three;
+    ensureSpace(flow, 13);
+    setText(doc, 10, "bold");
+    doc.text(r.label, MARGIN, flow.y + 4);
+    doc.setFillColor("#e2e8f0");
+    doc.rect(MARGIN + labelW, flow.y + 1.5, barW, 3, "F");
+    doc.setFillColor(score <= 2 ? "#dc2626" : score >= 4 ? "#059669" : "#d97706");
+    doc.rect(MARGIN + labelW, flow.y + 1.5, (barW * score) / 5, 3, "F");
+    setText(doc, 10, "bold");
+    doc.text(`${score}/5`, PAGE_W - MARGIN, flow.y + 4, { align: "right" });
+    flow.y += 6;
+    setText(doc, 8, "normal", MUTED);
+    paragraph(flow, `Closest anchor: ${anchor}`, CONTENT_W - labelW, MARGIN + labelW);
+    const { note, links } = evidenceFor(state.scores, r.key);
+    setText(doc, 8, "normal", INK);
+    if (note.trim()) paragraph(flow, `Justification: ${note.trim()}`, CONTENT_W - labelW, MARGIN + labelW);
+    if (links.length) paragraph(flow, `Evidence: ${links.join("; ")}`, CONTENT_W - labelW, MARGIN + labelW);
+    if (score >= EVIDENCE_EXPECTED_FROM && !links.length) {
+      setText(doc, 8, "italic", "#b45309");
+      paragraph(flow, "No evidence recorded for this score.", CONTENT_W - labelW, MARGIN + labelW);
+    }
+    flow.y += 2;
+  });
+
+  const unsupported = unsupportedHighScores(state.scores);
+  if (unsupported.length) {
+    flow.y += 2;
+    setText(doc, 9, "normal", "#b45309");
+    paragraph(
+      flow,
+      `${unsupported.length} dimension${unsupported.length === 1 ? " is" : "s are"} scored ${EVIDENCE_EXPECTED_FROM} or higher without supporting evidence: ${unsupported
+        .map((u) => u.label)
+        .join(", ")}.`
+    );
+  }
+
+  // Comparison with the chosen peer or sector profile
+  const benchmark = activeBenchmark(state.benchmarks);
+  if (benchmark) {
+    const gaps = readinessGaps(state.scores, benchmark);
+    const lags = largestLags(gaps);
+    flow.y += 4;
+    setText(doc, 12, "bold");
+    ensureSpace(flow, 10);
+    doc.text(`Benchmark: ${benchmark.name}`, MARGIN, flow.y + 4);
+    flow.y += 8;
+    setText(doc, 9);
+    paragraph(
+      flow,
+      lags.length
+        ? `Largest lags: ${lags.map((g) => `${g.label} ${g.own} vs ${g.peer.toFixed(1)}`).join("; ")}.`
+        : "No dimension lags the benchmark by half a point or more."
+    );
+    setText(doc, 8, "normal", MUTED);
+    paragraph(flow, gaps.map((g) => `${g.label} ${g.gap > 0 ? "+" : ""}${g.gap.toFixed(1)}`).join(" · "));
+  }
+
+  // Progress since the first dated snapshot
+  if (state.readinessHistory.length) {
+    const [first] = sortSnapshots(state.readinessHistory);
+    const changes = compareSnapshots(first.scores, state.scores).filter((c) => c.delta !== 0);
+    flow.y += 4;
+    setText(doc, 12, "bold");
+    ensureSpace(flow, 10);
+    doc.text("Assessment history", MARGIN, flow.y + 4);
+    flow.y += 8;
+    setText(doc, 9);
+    paragraph(
+      flow,
+      sortSnapshots(state.readinessHistory)
+        .map((snap) => `${snapshotName(snap)}: ${readinessAverage(snap.scores).toFixed(2)}`)
+        .join(" · ")
+    );
+    setText(doc, 8, "normal", MUTED);
+    paragraph(
+      flow,
+      changes.length
+        ? `Since ${first.date}: ${changes.map((c) => `${c.label} ${c.from} → ${c.to}`).join("; ")}.`
+        : `No change since ${first.date}.`
+    );
+  }
+
+  if (state.actionPlan.items.length) {
+    flow.y += 4;
+    setText(doc, 12, "bold");
+    ensureSpace(flow, 10);
+    doc.text("Improvement plan", MARGIN, flow.y + 4);
+    flow.y += 8;
+    state.actionPlan.items.forEach((item, i) => {
+      setText(doc, 9, "bold");
+      paragraph(flow, `${i + 1}. ${item.action || "(no description)"}${item.done ? " — done" : ""}`);
+      setText(doc, 8, "normal", MUTED);
+      const details = [item.owner, item.timeframe, item.dimensions.map(dimensionLabel).join(", ")].filter(Boolean);
+      if (details.length) paragraph(flow, details.join(" · "), CONTENT_W - 5, MARGIN + 5);
+      flow.y += 1;
+    });
+  }
+
+  if (state.scores.notes?.trim()) {
+    flow.y += 4;
+    setText(doc, 12, "bold");
+    ensureSpace(flow, 10);
+    doc.text("Notes", MARGIN, flow.y + 4);
+    flow.y += 8;
+    setText(doc, 10);
+    paragraph(flow, state.scores.notes);
+  }
+}
+
+function rankingSection(flow: Flow, state: ProjectState, ranks: RankedUseCase[]) {
+  const { doc } = flow;
+  const method = AGGREGATION_METHODS.find((m) => m.value === state.scoring.method)?.label ?? "";
+  newPage(flow);
+  heading(flow, `Step 2 — Ranking (${method})`);
+
+  const cols = [
+    { title: "#", x: MARGIN },
+    { title: "Use case", x: MARGIN + 10 },
+    { title: "Score", x: MARGIN + 110 },
+    { title: "Impact", x: MARGIN + 132 },
+    { title: "Feasibility", x: MARGIN + 154 },
+  ];
+  setText(doc, 9, "bold", MUTED);
+  cols.forEach((c) => doc.text(c.title, c.x, flow.y + 4));
+  flow.y += 6;
+  doc.setDrawColor(GRID);
+  doc.line(MARGIN, flow.y, PAGE_W - MARGIN, flow.y);
+
+  ranks.forEach((r) => {
+    ensureSpace(flow, 7);
+    setText(doc, 10);
+    doc.text(String(r.rank), cols[0].x, flow.y + 5);
+    doc.text(doc.splitTextToSize(r.name, 96)[0], cols[1].x, flow.y + 5);
+    setText(doc, 10, "bold");
+    doc.text(formatScore(r.score), cols[2].x, flow.y + 5);
+    setText(doc, 10, "normal", MUTED);
+    doc.text(formatScore(r.impact), cols[3].x, flow.y + 5);
+    doc.text(formatScore(r.feasibility), cols[4].x, flow.y + 5);
+    flow.y += 7;
+    doc.line(MARGIN, flow.y, PAGE_W - MARGIN, flow.y);
+  });
+}
+
+function comparisonSection(flow: Flow, state: ProjectState) {
+  const { doc } = flow;
+  const shown = state.useCases.filter((u) => u.visible).map((u) => ({ u, color: COLORS[u.id % COLORS.length] }));
+  flow.y += 8;
+  ensureSpace(flow, 150);
+  setText(doc, 12, "bold");
+  doc.text("Comparison overlay", MARGIN, flow.y + 4);
+  flow.y += 8;
+
+  const r = 52;
+  drawRadar(
+    doc,
+    PAGE_W / 2,
+    flow.y + r + 10,
+    r,
+    state.criteria.map((c) => c.label),
+    shown.map(({ u, color }) => ({ values: state.criteria.map((c) => u.scores[c.key]), color }))
+  );
+  flow.y += 2 * r + 24;
+  legend(flow, shown.map(({ u, color }) => ({ label: displayName(u), color })));
+}
+
+function profilesSection(flow: Flow, state: ProjectState, ranks: RankedUseCase[]) {
+  const { doc } = flow;
+  const blockH = 118; // chart + description; two use cases per page
+  newPage(flow);
+  heading(flow, "Use case profiles");
+
+  state.useCases.forEach((u) => {
+    const rank = ranks.find((r) => r.id === u.id);
+    const color = COLORS[u.id % COLORS.length];
+    ensureSpace(flow, blockH);
+    const top = flow.y;
+
+    setText(doc, 13, "bold", color);
+    doc.text(doc.splitTextToSize(displayName(u), CONTENT_W - 30)[0], MARGIN, top + 5);
+    setText(doc, 11, "bold");
+    doc.text(rank ? `Rank #${rank.rank}` : "", PAGE_W - MARGIN, top + 5, { align: "right" });
+
+    const r = 34;
+    drawRadar(doc, MARGIN + 48, top + 12 + r + 8, r, state.criteria.map((c) => c.label), [
+      { values: state.criteria.map((c) => u.scores[c.key]), color },
+    ]);
+
+    const textX = MARGIN + 104;
+    const textW = PAGE_W - MARGIN - textX;
+    flow.y = top + 14;
+    if (rank) {
+      setText(doc, 9, "normal", MUTED);
+      paragraph(
+        flow,
+        `Score ${formatScore(rank.score)} · Impact ${formatScore(rank.impact)} · Feasibility ${formatScore(rank.feasibility)}`,
+        textW,
+        textX
+      );
+      flow.y += 2;
+    }
+    setText(doc, 10, u.description ? "normal" : "italic", u.description ? INK : MUTED);
+    paragraph(flow, u.description || "No description yet.", textW, textX);
+    flow.y += 3;
+    state.criteria.forEach((c) => {
+      setText(doc, 8, "normal", MUTED);
+      doc.text(doc.splitTextToSize(c.label, textW - 12)[0], textX, flow.y + 3);
+      setText(doc, 8, "bold");
+      doc.text(String(u.scores[c.key]), PAGE_W - MARGIN, flow.y + 3, { align: "right" });
+      flow.y += 3.8;
+    });
+
+    flow.y = Math.max(flow.y, top + blockH - 8) + 8;
+  });
+}
+
+function boardSection(flow: Flow, state: ProjectState) {
+  const { doc } = flow;
+  newPage(flow);
+  heading(flow, "Step 3 — Impact vs Feasibility");
+
+  const size = 140;
+  const x0 = (PAGE_W - size) / 2;
+  const y0 = flow.y + 2;
+  // Quadrants split at the configured thresholds
+  const { horizons } = state;
+  const xMid = x0 + horizons.feasibility * size;
+  const yMid = y0 + (1 - horizons.impact) * size;
+  const quadrants: [number, number, number, number, string, string][] = [
+    [x0, y0, xMid - x0, yMid - y0, "#fef3c7", "High impact / Low feasibility"],
+    [xMid, y0, x0 + size - xMid, yMid - y0, "#d1fae5", "High impact / High feasibility"],
+    [x0, yMid, xMid - x0, y0 + size - yMid, "#ffe4e6", "Low impact / Low feasibility"],
+    [xMid, yMid, x0 + size - xMid, y0 + size - yMid, "#e0f2fe", "Low impact / High feasibility"],
+  ];
+  quadrants.forEach(([x, y, w, h, fill, label]) => {
+    if (w <= 0 || h <= 0) return;
+    doc.setFillColor(fill);
+    doc.rect(x, y, w, h, "F");
+    setText(doc, 7, "normal", MUTED);
+    doc.text(label, x + 3, y === y0 ? y + 10 : y + h - 4);
+  });
+  doc.setDrawColor("#94a3b8");
+  doc.setLineWidth(0.3);
+  doc.rect(x0, y0, size, size, "S");
+  doc.line(xMid, y0, xMid, y0 + size);
+  doc.line(x0, yMid, x0 + size, yMid);
+  // Horizon cut-offs across the high-impact part
+  doc.setLineDashPattern([1.5, 1], 0);
+  [horizons.h2From, horizons.h1From].forEach((h) => doc.line(x0 + h * size, y0, x0 + h * size, yMid));
+  doc.setLineDashPattern([], 0);
+  setText(doc, 7, "bold", MUTED);
+  (
+    [
+      ["H3", 0, horizons.h2From],
+      ["H2", horizons.h2From, horizons.h1From],
+      ["H1", horizons.h1From, 1],
+    ] as const
+  )
+    .filter(([, from, to]) => to > from && yMid - y0 > 6)
+    .forEach(([h, from, to]) => doc.text(h, x0 + ((from + to) / 2) * size, yMid - 2, { align: "center" }));
+  setText(doc, 9, "bold");
+  doc.text("IMPACT", xMid, y0 - 2, { align: "center" });
+  doc.text("FEASIBILITY", x0 + size, y0 + size + 5, { align: "right" });
+
+  state.useCases.forEach((u) => {
+    const p = state.placements[u.id] ?? { x: 0.5, y: 0.5 };
+    const cx = x0 + p.x * size;
+    const cy = y0 + (1 - p.y) * size;
+    const color = COLORS[u.id % COLORS.length];
+    doc.setFillColor("#ffffff");
+    doc.circle(cx, cy, 3.6, "F");
+    doc.setFillColor(color);
+    withOpacity(doc, 0.2, () => doc.circle(cx, cy, 3.6, "F"));
+    doc.setDrawColor(color);
+    doc.setLineWidth(0.5);
+    doc.circle(cx, cy, 3.6, "S");
+    setText(doc, 8, "bold", color);
+    doc.text(String(u.id + 1), cx, cy, { align: "center", baseline: "middle" });
+  });
+
+  flow.y = y0 + size + 10;
+  setText(doc, 9, "normal", MUTED);
+  paragraph(flow, "Token positions as placed in the workshop; unplaced use cases sit at the centre.");
+  flow.y += 2;
+  state.useCases.forEach((u) => {
+    ensureSpace(flow, 5);
+    setText(doc, 9, "bold", COLORS[u.id % COLORS.length]);
+    doc.text(`${u.id + 1}.`, MARGIN, flow.y + 3.5);
+    setText(doc, 9);
+    doc.text(
+      `${displayName(u)} — Impact ${formatScore(groupScore(u, state.criteria, "Impact"))}, Feasibility ${formatScore(
+        groupScore(u, state.criteria, "Feasibility")
+      )}`,
+      MARGIN + 7,
+      flow.y + 3.5
+    );
+    flow.y += 5;
+  });
+}
+
+function horizonsSection(flow: Flow, state: ProjectState) {
+  const { doc } = flow;
+  const buckets = horizonBuckets(state.useCases, state.placements, state.criteria, state.horizons);
+  const assignments = assignHorizons(state.useCases, state.criteria, state.placements, state.horizons);
+  const columns = [
+    { key: "H1", title: "Horizon 1 (High Feasibility)", items: buckets.H1, fill: "#ecfdf5", ink: "#047857" },
+    { key: "H2", title: "Horizon 2 (Medium Feasibility)", items: buckets.H2, fill: "#fffbeb", ink: "#b45309" },
+    { key: "H3", title: "Horizon 3 (Low Feasibility)", items: buckets.H3, fill: "#fff1f2", ink: "#be123c" },
+  ] as const;
+  const gap = 5;
+  const colW = (CONTENT_W - 2 * gap) / 3;
+  const tallest = Math.max(1, ...columns.map((c) => c.items.length));
+  const boxH = 14 + tallest * 10;
+  const ruleNotes = state.useCases.filter((u) => assignments[u.id].reasons.length > 1);
+
+  flow.y += 6;
+  ensureSpace(flow, 40 + boxH + ruleNotes.length * 5);
+  heading(flow, "3 Horizons Roadmap");
+  setText(doc, 9, "normal", MUTED);
+  paragraph(flow, "Horizon 1: Immediate Opportunities — short-term, low-risk, mature tech and data available.");
+  paragraph(flow, "Horizon 2: Emerging Innovations — medium-term; needs some investment in data, workflows, or change management.");
+  paragraph(flow, "Horizon 3: Transformative Possibilities — longer-term; less mature tech or substantial new data infrastructure.");
+  flow.y += 4;
+
+  const top = flow.y;
+  columns.forEach((col, i) => {
+    const x = MARGIN + i * (colW + gap);
+    doc.setFillColor(col.fill);
+    doc.setDrawColor(GRID);
+    doc.roundedRect(x, top, colW, boxH, 2, 2, "FD");
+    setText(doc, 9, "bold", col.ink);
+    doc.text(col.title, x + 3, top + 6);
+    if (col.items.length === 0) {
+      setText(doc, 9, "italic", MUTED);
+      doc.text("No items yet.", x + 3, top + 13);
+    }
+    col.items.forEach((u, j) => {
+      setText(doc, 9, "bold", COLORS[u.id % COLORS.length]);
+      const lines: string[] = doc.splitTextToSize(`${u.id + 1}. ${displayName(u)}`, colW - 6);
+      doc.text(lines[0], x + 3, top + 13 + j * 10);
+      // Scheduled quarters from the timeline roadmap
+      const item = roadmapItem(state.roadmap, u.id, col.key);
+      setText(doc, 8, "normal", MUTED);
+      doc.text(
+        `${quarterLabel(state.roadmap, item.start)} – ${quarterLabel(state.roadmap, item.start + item.duration - 1)}` +
+          (item.milestones.length ? ` · ${item.milestones.length} milestone${item.milestones.length === 1 ? "" : "s"}` : ""),
+        x + 3,
+        top + 17 + j * 10
+      );
+    });
+  });
+  flow.y = top + boxH + 4;
+
+  // Which horizon rules moved (or confirmed) each use case
+  if (ruleNotes.length) {
+    setText(doc, 9, "bold");
+    paragraph(flow, "Placed by horizon rules");
+    setText(doc, 8, "normal", MUTED);
+    ruleNotes.forEach((u) =>
+      paragraph(flow, `${u.id + 1}. ${displayName(u)}: ${assignments[u.id].reasons
+          .slice(1)
+          .map((r) => r.replace(/^Rule: /, ""))
+          .join("; ")}`)
+    );
+  }
+}
+
+/** Page footers on every page but the cover. */
+function footers(doc: jsPDF, title: string) {
+  const total = doc.getNumberOfPages();
+  for (let page = 2; page <= total; page++) {
+    doc.setPage(page);
+    setText(doc, 8, "normal", MUTED);
+    doc.text(title, MARGIN, PAGE_H - 10);
+    doc.text(`Page ${page} of ${total}`, PAGE_W - MARGIN, PAGE_H - 10, { align: "right" });
+  }
+}
+
+// -----------------------------
+// Public API
+// -----------------------------
+
+export function buildReport(state: ProjectState, title: string): jsPDF {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const flow: Flow = { doc, y: MARGIN };
+  const ranks = rankUseCases(state.useCases, state.criteria, state.scoring);
+
+  coverPage(flow, title, state, ranks);
+  readinessSection(flow, state);
+  rankingSection(flow, state, ranks);
+  comparisonSection(flow, state);
+  profilesSection(flow, state, ranks);
+  boardSection(flow, state);
+  horizonsSection(flow, state);
+  footers(doc, title);
+  return doc;
+}
+
+export function downloadReport(state: ProjectState, title: string) {
+  buildReport(state, title).save(`${title.replace(/[\\/:*?"<>|]+/g, "-")} report.pdf`);
+}
@@ -0,0 +1,170 @@
+import type { UseCase } from "@/AISpiderCharts";
+
+// -----------------------------
+// Timeline roadmap for the 3 Horizons
+// -----------------------------
+// Times are offsets from the roadmap start (the first day of `startQuarter`):
+// bars start on a quarter and last whole quarters, milestones fall on a month.
+// Use cases without an explicit entry are drawn at the start of their
+// horizon's window.
+
+export type HorizonKey = "H1" | "H2" | "H3";
+
+export const HORIZON_KEYS: HorizonKey[] = ["H1", "H2", "H3"];
+
+export type Milestone = { id: string; label: string; month: number };
+
+export type RoadmapItem = {
+  start: number; // quarters from the roadmap start
+  duration: number; // quarters
+  milestones: Milestone[];
+};
+
+export type RoadmapConfig = {
+  startYear: number;
+  startQuarter: number; // 1–4
+  windows: Record<HorizonKey, { from: number; to: number }>; // months from the roadmap start
+  items: Record<number, RoadmapItem>; // by use case id
+};
+
+export const MAX_ROADMAP_MONTHS = 120;
+
+export function defaultRoadmap(now = new Date()): RoadmapConfig {
+  return {
+    startYear: now.getFullYear(),
+    startQuarter: Math.floor(now.getMonth() / 3) + 1,
+    windows: { H1: { from: 0, to: 12 }, H2: { from: 12, to: 24 }, H3: { from: 24, to: 36 } },
+    items: {},
+  };
+}
+
+/** Where a use case sits when nobody has scheduled it yet: two quarters at the start of its window. */
+export function defaultItem(config: RoadmapConfig, horizon: HorizonKey): RoadmapItem {
+  const { from, to } = config.windows[horizon];
+  return { start: Math.floor(from / 3), duration: Math.max(1, Math.min(2, Math.ceil((to - from) / 3))), milestones: [] };
+}
+
+export function roadmapItem(config: RoadmapConfig, id: number, horizon: HorizonKey): RoadmapItem {
+  return config.items[id] ?? defaultItem(config, horizon);
+}
+
+/** True when the bar starts before or after its horizon's window. */
+export function outsideWindow(config: RoadmapConfig, item: RoadmapItem, horizon: HorizonKey) {
+  const { from, to } = config.windows[horizon];
+  const month = item.start * 3;
+  return month < from || month >= to;
+}
+
+/** First day of the month `month` months after the roadmap start (UTC). */
+export function monthDate(config: RoadmapConfig, month: number) {
+  return new Date(Date.UTC(config.startYear, (config.startQuarter - 1) * 3 + month, 1));
+}
+
+export function quarterLabel(config: RoadmapConfig, quarter: number) {
+  const index = config.startQuarter - 1 + quarter;
+  return `Q${(index % 4) + 1} ${config.startYear + Math.floor(index / 4)}`;
+}
+
+export function monthLabel(config: RoadmapConfig, month: number) {
+  return monthDate(config, month).toLocaleDateString("en-US", { month: "short", year: "numeric", timeZone: "UTC" });
+}
+
+/** Months shown on the timeline: the horizon windows and every bar and milestone, in whole quarters. */
+export function roadmapSpan(config: RoadmapConfig, items: RoadmapItem[]) {
+  const ends = [
+    ...HORIZON_KEYS.map((h) => config.windows[h].to),
+    ...items.map((i) => (i.start + i.duration) * 3),
+    ...items.flatMap((i) => i.milestones.map((m) => m.month + 1)),
+  ];
+  return Math.min(MAX_ROADMAP_MONTHS, Math.ceil(Math.max(12, ...ends) / 3) * 3);
+}
+
+/** Drops entries for use cases that no longer exist; returns the same object when nothing is dropped. */
+export function pruneRoadmap(config: RoadmapConfig, useCases: UseCase[]): RoadmapConfig {
+  const stale = Object.keys(config.items).filter((k) => !useCases.some((u) => u.id === Number(k)));
+  if (stale.length === 0) return config;
+  return { ...config, items: Object.fromEntries(Object.entries(config.items).filter(([k]) => !stale.includes(k))) };
+}
+
+export const newMilestoneId = () => `m-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// -----------------------------
+// iCalendar export (RFC 5545)
+// -----------------------------
+
+export type RoadmapRow = { useCase: UseCase; horizon: HorizonKey; item: RoadmapItem };
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const icsDate = (d: Date) => d.toISOString().slice(0, 10).replace(/-/g, "");
+
+const icsText = (s: string) => s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Content lines are folded at 75 octets, continuation lines start with a space
+function fold(line: string) {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const ch of line) {
+    const n = new TextEncoder().encode(ch).length;
+    if (size + n > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += ch;
+    size += n;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/**
+ * One all-day event per milestone, plus each use case's start and finish.
+ * UIDs are stable per project (`scope`, e.g. the workspace id), use case and
+ * milestone, so re-importing updates events without touching other projects'.
+ */
+export function toICalendar(config: RoadmapConfig, rows: RoadmapRow[], scope: string, now = new Date()): string {
+  const prefix = scope.toLowerCase().replace(/[^a-z0-9-]+/g, "-");
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  const event = (uid: string, date: Date, summary: string, description: string) => {
+    const next = new Date(date.getTime() + DAY);
+    return [
+      "BEGIN:VEVENT",
+      `UID:${prefix}-${uid}@ai-strategy`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(date)}`,
+      `DTEND;VALUE=DATE:${icsDate(next)}`,
+      `SUMMARY:${icsText(summary)}`,
+      `DESCRIPTION:${icsText(description)}`,
+      "END:VEVENT",
+    ];
+  };
+
+  const events = rows.flatMap(({ useCase, horizon, item }) => {
+    const name = useCase.name || `Use Case ${useCase.id + 1}`;
+    const about = `${horizon} · ${quarterLabel(config, item.start)}–${quarterLabel(config, item.start + item.duration - 1)}`;
+    const lastDay = new Date(monthDate(config, (item.start + item.duration) * 3).getTime() - DAY);
+    return [
+      ...event(`uc-${useCase.id}-start`, monthDate(config, item.start * 3), `${name}: start`, about),
+      ...item.milestones.flatMap((m) =>
+        event(`uc-${useCase.id}-${m.id}`, monthDate(config, m.month), `${name}: ${m.label || "Milestone"}`, about)
+      ),
+      ...event(`uc-${useCase.id}-finish`, lastDay, `${name}: finish`, about),
+    ];
+  });
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//AI Strategy//3 Horizons Roadmap//EN",
+    "CALSCALE:GREGORIAN",
+    ...events,
+    "END:VCALENDAR",
+  ]
+    .map(fold)
+    .join("\r\n")
+    .concat("\r\n");
+}
@@ -0,0 +1,128 @@
+import type { Criterion, CriterionGroup, UseCase } from "@/AISpiderCharts";
+
+// -----------------------------
+// Weighted aggregation and ranking of use cases
+// -----------------------------
+
+export type AggregationMethod = "arithmetic" | "geometric" | "product";
+
+export type ScoringConfig = {
+  method: AggregationMethod;
+  groupWeights: Record<CriterionGroup, number>;
+};
+
+export const AGGREGATION_METHODS: { value: AggregationMethod; label: string; help: string }[] = [
+  {
+    value: "arithmetic",
+    label: "Weighted mean",
+    help: "Weighted average of all criteria. Strong scores can compensate for weak ones.",
+  },
+  {
+    value: "geometric",
+    label: "Geometric mean",
+    help: "Weighted geometric mean. A single very low score pulls the total down sharply.",
+  },
+  {
+    value: "product",
+    label: "Impact × Feasibility",
+    help: "Product of the Impact and Feasibility group scores divided by 10, so it runs from 0.1 to 10. Group weights act as exponents.",
+  },
+];
+
+export const defaultScoringConfig = (): ScoringConfig => ({
+  method: "arithmetic",
+  groupWeights: { Impact: 1, Feasibility: 1 },
+});
+
+export const criterionWeight = (c: Criterion) => c.weight ?? 1;
+
+/**
+ * Effective weight of each criterion: its own weight as a share of its group,
+ * times the group weight. Groups therefore keep their share no matter how many
+ * criteria they contain.
+ */
+function effectiveWeights(criteria: Criterion[], config: ScoringConfig) {
+  const groupTotals: Record<string, number> = {};
+  criteria.forEach((c) => (groupTotals[c.group] = (groupTotals[c.group] ?? 0) + criterionWeight(c)));
+  return criteria.map((c) => {
+    const total = groupTotals[c.group];
+    return total > 0 ? (config.groupWeights[c.group] * criterionWeight(c)) / total : 0;
+  });
+}
+
+function weightedMean(values: number[], weights: number[]) {
+  const sum = weights.reduce((a, b) => a + b, 0);
+  if (sum <= 0) return 0;
+  return values.reduce((acc, v, i) => acc + v * weights[i], 0) / sum;
+}
+
+function weightedGeometricMean(values: number[], weights: number[]) {
+  const sum = weights.reduce((a, b) => a + b, 0);
+  if (sum <= 0) return 0;
+  return Math.exp(values.reduce((acc, v, i) => acc + Math.log(Math.max(v, 1e-9)) * weights[i], 0) / sum);
+}
+
+/** Weighted mean of one group's criteria (criterion weights only), on the 1–10 scale. */
+export function groupScore(u: UseCase, criteria: Criterion[], group: CriterionGroup) {
+  const inGroup = criteria.filter((c) => c.group === group);
+  return weightedMean(
+    inGroup.map((c) => u.scores[c.key] ?? 0),
+    inGroup.map(criterionWeight)
+  );
+}
+
+export function aggregateScore(u: UseCase, criteria: Criterion[], config: ScoringConfig) {
+  const values = criteria.map((c) => u.scores[c.key] ?? 0);
+  const weights = effectiveWeights(criteria, config);
+
+  switch (config.method) {
+    case "arithmetic":
+      return weightedMean(values, weights);
+    case "geometric":
+      return weightedGeometricMean(values, weights);
+    case "product": {
+      const { Impact: wi, Feasibility: wf } = config.groupWeights;
+      const total = wi + wf;
+      if (total <= 0) return 0;
+      // Exponents average to 1, so equal weights give plain I × F / 10
+      const impact = groupScore(u, criteria, "Impact") ** ((2 * wi) / total);
+      const feasibility = groupScore(u, criteria, "Feasibility") ** ((2 * wf) / total);
+      return (impact * feasibility) / 10;
+    }
+  }
+}
+
+export type RankedUseCase = {
+  id: number;
+  rank: number;
+  name: string;
+  score: number;
+  impact: number;
+  feasibility: number;
+};
+
+/**
+ * Ranks by aggregate score. Ties (to 1e-9) break on Impact, then Feasibility,
+ * then original id, so every use case gets a distinct, stable rank.
+ */
+export function rankUseCases(useCases: UseCase[], criteria: Criterion[], config: ScoringConfig): RankedUseCase[] {
+  const EPS = 1e-9;
+  return useCases
+    .map((u) => ({
+      id: u.id,
+      name: u.name || `Use Case ${u.id + 1}`,
+      score: aggregateScore(u, criteria, config),
+      impact: groupScore(u, criteria, "Impact"),
+      feasibility: groupScore(u, criteria, "Feasibility"),
+    }))
+    .sort((a, b) => {
+      if (Math.abs(b.score - a.score) > EPS) return b.score - a.score;
+      if (Math.abs(b.impact - a.impact) > EPS) return b.impact - a.impact;
+      if (Math.abs(b.feasibility - a.feasibility) > EPS) return b.feasibility - a.feasibility;
+      return a.id - b.id;
+    })
+    .map((r, idx) => ({ ...r, rank: idx + 1 }));
+}
+
+/** Display format used wherever scores are shown. */
+export const formatScore = (n: number) => n.toFixed(2);
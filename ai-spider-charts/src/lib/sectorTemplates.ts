@@ -0,0 +1,521 @@
+import type { UseCase } from "@/AISpiderCharts";
+import type { ReadinessScores } from "@/Scoring_Readiness";
+import type { Placements } from "@/lib/project";
+
+// -----------------------------
+// Built-in sector templates
+// -----------------------------
+// Each one is a realistic starting point for a workshop: typical readiness
+// for that kind of department, seeded use cases scored against the default
+// rubric (see CRITERIA) and suggested board positions keyed by use case id.
+
+export type SectorTemplate = {
+  id: string;
+  name: string;
+  sector: string;
+  description: string;
+  readiness: ReadinessScores;
+  useCases: UseCase[];
+  placements: Placements;
+};
+
+const tourism: SectorTemplate = {
+  id: "tourism",
+  name: "Tourism & Culture",
+  sector: "Tourism",
+  description: "Visitor flows, itineraries, heritage monitoring and pricing for a tourism and culture authority.",
+  readiness: {
+    dataMaturity: 3,
+    peopleSkills: 4,
+    processesWorkflows: 3,
+    governanceRisk: 2,
+    resourcesBudget: 1,
+    techInfra: 3,
+    changeReadiness: 4,
+    leadershipAlignment: 4,
+    partnerships: 3,
+    citizenOrientation: 4,
+    ethicsTrust: 3,
+    notes: "",
+  },
+  useCases: [
+    {
+      id: 0,
+      name: "Smart Visitor Forecasting",
+      description: "AI models predict visitor flows to museums, parks, and cultural sites to optimize staffing and avoid overcrowding.",
+      visible: true,
+      scores: {
+        increasesProductivity: 9, reducesCosts: 7, benefitsPublic: 9, increaseRevenue: 2, strategicImpact: 7,
+        dataReady: 8, techMature: 8, lowImplementationCost: 7, reusable: 6, noRisk: 7,
+      },
+    },
+    {
+      id: 1,
+      name: "Personalized Itineraries",
+      description: "Recommender systems suggest tailored itineraries based on visitor preferences and historical data.",
+      visible: true,
+      scores: {
+        increasesProductivity: 7, reducesCosts: 6, benefitsPublic: 9, increaseRevenue: 9, strategicImpact: 7,
+        dataReady: 7, techMature: 8, lowImplementationCost: 6, reusable: 8, noRisk: 6,
+      },
+    },
+    {
+      id: 2,
+      name: "Heritage Preservation AI",
+      description: "Computer vision detects early signs of degradation in monuments/artifacts from photos and drone scans.",
+      visible: true,
+      scores: {
+        increasesProductivity: 7, reducesCosts: 6, benefitsPublic: 8, increaseRevenue: 2, strategicImpact: 8,
+        dataReady: 5, techMature: 6, lowImplementationCost: 4, reusable: 5, noRisk: 5,
+      },
+    },
+    {
+      id: 3,
+      name: "Tourist Query Assistant",
+      description: "Multilingual chatbot answers FAQs for tourists, reducing strain on call centers.",
+      visible: true,
+      scores: {
+        increasesProductivity: 8, reducesCosts: 7, benefitsPublic: 9, increaseRevenue: 2, strategicImpact: 7,
+        dataReady: 8, techMature: 9, lowImplementationCost: 8, reusable: 7, noRisk: 7,
+      },
+    },
+    {
+      id: 4,
+      name: "Sentiment Analysis",
+      description: "Natural language processing of social media posts and reviews to gauge tourist satisfaction.",
+      visible: true,
+      scores: {
+        increasesProductivity: 7, reducesCosts: 6, benefitsPublic: 8, increaseRevenue: 6, strategicImpact: 3,
+        dataReady: 7, techMature: 8, lowImplementationCost: 7, reusable: 6, noRisk: 7,
+      },
+    },
+    {
+      id: 5,
+      name: "Fraud Detection",
+      description: "AI detects unusual booking/payment patterns to prevent fraud.",
+      visible: true,
+      scores: {
+        increasesProductivity: 8, reducesCosts: 9, benefitsPublic: 6, increaseRevenue: 1, strategicImpact: 7,
+        dataReady: 7, techMature: 8, lowImplementationCost: 7, reusable: 8, noRisk: 7,
+      },
+    },
+    {
+      id: 6,
+      name: "AR/VR Experiences",
+      description: "Immersive AI-powered VR tours for sites under renovation or with limited accessibility.",
+      visible: true,
+      scores: {
+        increasesProductivity: 7, reducesCosts: 5, benefitsPublic: 9, increaseRevenue: 8, strategicImpact: 3,
+        dataReady: 4, techMature: 6, lowImplementationCost: 4, reusable: 6, noRisk: 4,
+      },
+    },
+    {
+      id: 7,
+      name: "Dynamic Pricing",
+      description: "AI optimizes ticket pricing based on demand, seasonality, and visitor demographics.",
+      visible: true,
+      scores: {
+        increasesProductivity: 7, reducesCosts: 8, benefitsPublic: 6, increaseRevenue: 9, strategicImpact: 2,
+        dataReady: 6, techMature: 7, lowImplementationCost: 5, reusable: 7, noRisk: 6,
+      },
+    },
+  ],
+  placements: {
+    0: { x: 0.8, y: 0.7 }, // Smart Visitor Forecasting
+    3: { x: 0.85, y: 0.7 }, // Tourist Query Assistant
+    1: { x: 0.5, y: 0.8 }, // Personalized Itineraries
+    2: { x: 0.25, y: 0.9 }, // Heritage AI
+    6: { x: 0.2, y: 0.9 }, // AR/VR
+    4: { x: 0.8, y: 0.4 }, // Sentiment Analysis
+    5: { x: 0.85, y: 0.4 }, // Fraud Detection
+    7: { x: 0.4, y: 0.4 }, // Dynamic Pricing
+  },
+};
+
+const health: SectorTemplate = {
+  id: "health",
+  name: "Public Health Services",
+  sector: "Health",
+  description: "Hospital operations, triage and population health for a health ministry or hospital network.",
+  readiness: {
+    dataMaturity: 3,
+    peopleSkills: 3,
+    processesWorkflows: 4,
+    governanceRisk: 3,
+    resourcesBudget: 2,
+    techInfra: 2,
+    changeReadiness: 2,
+    leadershipAlignment: 3,
+    partnerships: 3,
+    citizenOrientation: 4,
+    ethicsTrust: 4,
+    notes: "",
+  },
+  useCases: [
+    {
+      id: 0,
+      name: "Appointment No-Show Prediction",
+      description: "Flags appointments likely to be missed so clinics can send reminders or overbook safely.",
+      visible: true,
+      scores: {
+        increasesProductivity: 8, reducesCosts: 7, benefitsPublic: 7, increaseRevenue: 3, strategicImpact: 6,
+        dataReady: 8, techMature: 9, lowImplementationCost: 8, reusable: 7, noRisk: 7,
+      },
+    },
+    {
+      id: 1,
+      name: "Bed & Capacity Forecasting",
+      description: "Forecasts admissions and discharges to plan beds, staffing and elective surgery schedules.",
+      visible: true,
+      scores: {
+        increasesProductivity: 8, reducesCosts: 8, benefitsPublic: 8, increaseRevenue: 2, strategicImpact: 8,
+        dataReady: 7, techMature: 8, lowImplementationCost: 6, reusable: 7, noRisk: 7,
+      },
+    },
+    {
+      id: 2,
+      name: "Medical Imaging Triage",
+      description: "Computer vision prioritises radiology scans with likely urgent findings for faster review.",
+      visible: true,
+      scores: {
+        increasesProductivity: 9, reducesCosts: 6, benefitsPublic: 9, increaseRevenue: 2, strategicImpact: 9,
+        dataReady: 5, techMature: 6, lowImplementationCost: 3, reusable: 4, noRisk: 3,
+      },
+    },
+    {
+      id: 3,
+      name: "Clinical Note Summarisation",
+      description: "Drafts discharge summaries and referral letters from clinical notes for clinician sign-off.",
+      visible: true,
+      scores: {
+        increasesProductivity: 9, reducesCosts: 6, benefitsPublic: 6, increaseRevenue: 1, strategicImpact: 6,
+        dataReady: 6, techMature: 7, lowImplementationCost: 6, reusable: 8, noRisk: 4,
+      },
+    },
+    {
+      id: 4,
+      name: "Patient Helpline Assistant",
+      description: "Multilingual assistant answers questions about services, opening hours and booking.",
+      visible: true,
+      scores: {
+        increasesProductivity: 7, reducesCosts: 7, benefitsPublic: 8, increaseRevenue: 1, strategicImpact: 5,
+        dataReady: 8, techMature: 9, lowImplementationCost: 8, reusable: 8, noRisk: 6,
+      },
+    },
+    {
+      id: 5,
+      name: "Outbreak Early Warning",
+      description: "Combines lab reports, pharmacy sales and syndromic data to detect unusual disease clusters.",
+      visible: true,
+      scores: {
+        increasesProductivity: 6, reducesCosts: 6, benefitsPublic: 10, increaseRevenue: 1, strategicImpact: 9,
+        dataReady: 4, techMature: 6, lowImplementationCost: 5, reusable: 6, noRisk: 6,
+      },
+    },
+    {
+      id: 6,
+      name: "Medical Supply Demand Planning",
+      description: "Predicts consumption of medicines and consumables to prevent stock-outs and waste.",
+      visible: true,
+      scores: {
+        increasesProductivity: 7, reducesCosts: 9, benefitsPublic: 6, increaseRevenue: 2, strategicImpact: 6,
+        dataReady: 7, techMature: 8, lowImplementationCost: 7, reusable: 8, noRisk: 8,
+      },
+    },
+  ],
+  placements: {
+    0: { x: 0.85, y: 0.6 }, // No-Show Prediction
+    1: { x: 0.75, y: 0.75 }, // Capacity Forecasting
+    2: { x: 0.2, y: 0.9 }, // Imaging Triage
+    3: { x: 0.45, y: 0.65 }, // Note Summarisation
+    4: { x: 0.85, y: 0.45 }, // Helpline Assistant
+    5: { x: 0.35, y: 0.85 }, // Outbreak Warning
+    6: { x: 0.8, y: 0.5 }, // Supply Planning
+  },
+};
+
+const transport: SectorTemplate = {
+  id: "transport",
+  name: "Transport & Mobility",
+  sector: "Transport",
+  description: "Traffic, public transit and road maintenance for a transport authority.",
+  readiness: {
+    dataMaturity: 4,
+    peopleSkills: 3,
+    processesWorkflows: 3,
+    governanceRisk: 2,
+    resourcesBudget: 3,
+    techInfra: 4,
+    changeReadiness: 3,
+    leadershipAlignment: 3,
+    partnerships: 4,
+    citizenOrientation: 3,
+    ethicsTrust: 2,
+    notes: "",
+  },
+  useCases: [
+    {
+      id: 0,
+      name: "Adaptive Traffic Signals",
+      description: "Adjusts signal timings from live sensor and camera counts to reduce congestion at junctions.",
+      visible: true,
+      scores: {
+        increasesProductivity: 7, reducesCosts: 6, benefitsPublic: 9, increaseRevenue: 1, strategicImpact: 8,
+        dataReady: 7, techMature: 7, lowImplementationCost: 4, reusable: 6, noRisk: 6,
+      },
+    },
+    {
+      id: 1,
+      name: "Predictive Fleet Maintenance",
+      description: "Predicts bus and train component failures from telemetry so repairs are scheduled before breakdowns.",
+      visible: true,
+      scores: {
+        increasesProductivity: 8, reducesCosts: 9, benefitsPublic: 7, increaseRevenue: 3, strategicImpact: 6,
+        dataReady: 8, techMature: 8, lowImplementationCost: 6, reusable: 7, noRisk: 8,
+      },
+    },
+    {
+      id: 2,
+      name: "Road Defect Detection",
+      description: "Vehicle-mounted cameras detect potholes and worn markings and feed the maintenance backlog.",
+      visible: true,
+      scores: {
+        increasesProductivity: 8, reducesCosts: 7, benefitsPublic: 8, increaseRevenue: 1, strategicImpact: 6,
+        dataReady: 6, techMature: 8, lowImplementationCost: 7, reusable: 7, noRisk: 7,
+      },
+    },
+    {
+      id: 3,
+      name: "Ridership Demand Forecasting",
+      description: "Forecasts passenger demand by route and hour to plan timetables and vehicle allocation.",
+      visible: true,
+      scores: {
+        increasesProductivity: 7, reducesCosts: 7, benefitsPublic: 8, increaseRevenue: 6, strategicImpact: 7,
+        dataReady: 8, techMature: 9, lowImplementationCost: 7, reusable: 8, noRisk: 8,
+      },
+    },
+    {
+      id: 4,
+      name: "Journey Planner Assistant",
+      description: "Conversational assistant for multi-modal journeys, disruptions and accessibility needs.",
+      visible: true,
+      scores: {
+        increasesProductivity: 6, reducesCosts: 5, benefitsPublic: 8, increaseRevenue: 4, strategicImpact: 5,
+        dataReady: 7, techMature: 8, lowImplementationCost: 7, reusable: 7, noRisk: 6,
+      },
+    },
+    {
+      id: 5,
+      name: "Automated Fare Evasion Analytics",
+      description: "Detects fare evasion hotspots from gate and inspection data to target enforcement.",
+      visible: true,
+      scores: {
+        increasesProductivity: 6, reducesCosts: 5, benefitsPublic: 4, increaseRevenue: 8, strategicImpact: 4,
+        dataReady: 6, techMature: 7, lowImplementationCost: 6, reusable: 5, noRisk: 3,
+      },
+    },
+    {
+      id: 6,
+      name: "Incident Detection on Highways",
+      description: "Video analytics spot stopped vehicles and debris to speed up incident response.",
+      visible: true,
+      scores: {
+        increasesProductivity: 7, reducesCosts: 6, benefitsPublic: 9, increaseRevenue: 1, strategicImpact: 8,
+        dataReady: 6, techMature: 7, lowImplementationCost: 5, reusable: 6, noRisk: 5,
+      },
+    },
+  ],
+  placements: {
+    0: { x: 0.35, y: 0.85 }, // Adaptive Signals
+    1: { x: 0.8, y: 0.7 }, // Fleet Maintenance
+    2: { x: 0.75, y: 0.65 }, // Road Defects
+    3: { x: 0.85, y: 0.7 }, // Ridership Forecasting
+    4: { x: 0.7, y: 0.45 }, // Journey Planner
+    5: { x: 0.45, y: 0.35 }, // Fare Evasion
+    6: { x: 0.45, y: 0.8 }, // Incident Detection
+  },
+};
+
+const education: SectorTemplate = {
+  id: "education",
+  name: "Education",
+  sector: "Education",
+  description: "Student support, teaching workload and school planning for an education ministry or district.",
+  readiness: {
+    dataMaturity: 2,
+    peopleSkills: 2,
+    processesWorkflows: 3,
+    governanceRisk: 2,
+    resourcesBudget: 2,
+    techInfra: 3,
+    changeReadiness: 3,
+    leadershipAlignment: 4,
+    partnerships: 3,
+    citizenOrientation: 4,
+    ethicsTrust: 3,
+    notes: "",
+  },
+  useCases: [
+    {
+      id: 0,
+      name: "Early Dropout Warning",
+      description: "Combines attendance, grades and engagement to flag students at risk of leaving school early.",
+      visible: true,
+      scores: {
+        increasesProductivity: 6, reducesCosts: 5, benefitsPublic: 10, increaseRevenue: 1, strategicImpact: 9,
+        dataReady: 5, techMature: 8, lowImplementationCost: 6, reusable: 6, noRisk: 4,
+      },
+    },
+    {
+      id: 1,
+      name: "Teacher Planning Assistant",
+      description: "Drafts lesson plans, worksheets and differentiated exercises aligned to the curriculum.",
+      visible: true,
+      scores: {
+        increasesProductivity: 9, reducesCosts: 5, benefitsPublic: 7, increaseRevenue: 1, strategicImpact: 7,
+        dataReady: 8, techMature: 8, lowImplementationCost: 8, reusable: 9, noRisk: 6,
+      },
+    },
+    {
+      id: 2,
+      name: "Adaptive Learning Tutor",
+      description: "Personalised practice that adjusts difficulty to each student's progress.",
+      visible: true,
+      scores: {
+        increasesProductivity: 6, reducesCosts: 4, benefitsPublic: 9, increaseRevenue: 2, strategicImpact: 8,
+        dataReady: 5, techMature: 6, lowImplementationCost: 4, reusable: 7, noRisk: 4,
+      },
+    },
+    {
+      id: 3,
+      name: "Enrolment & Capacity Planning",
+      description: "Projects enrolment by school and grade to plan classrooms, staffing and transport.",
+      visible: true,
+      scores: {
+        increasesProductivity: 7, reducesCosts: 8, benefitsPublic: 7, increaseRevenue: 1, strategicImpact: 7,
+        dataReady: 7, techMature: 9, lowImplementationCost: 7, reusable: 7, noRisk: 8,
+      },
+    },
+    {
+      id: 4,
+      name: "Assisted Essay Feedback",
+      description: "Gives formative feedback on written assignments for teachers to review before release.",
+      visible: true,
+      scores: {
+        increasesProductivity: 8, reducesCosts: 5, benefitsPublic: 6, increaseRevenue: 1, strategicImpact: 5,
+        dataReady: 7, techMature: 7, lowImplementationCost: 7, reusable: 7, noRisk: 4,
+      },
+    },
+    {
+      id: 5,
+      name: "Parent Enquiry Assistant",
+      description: "Answers parents' questions on admissions, calendars and transport in several languages.",
+      visible: true,
+      scores: {
+        increasesProductivity: 7, reducesCosts: 6, benefitsPublic: 7, increaseRevenue: 1, strategicImpact: 4,
+        dataReady: 8, techMature: 9, lowImplementationCost: 8, reusable: 8, noRisk: 7,
+      },
+    },
+  ],
+  placements: {
+    0: { x: 0.4, y: 0.9 }, // Dropout Warning
+    1: { x: 0.85, y: 0.7 }, // Planning Assistant
+    2: { x: 0.25, y: 0.8 }, // Adaptive Tutor
+    3: { x: 0.8, y: 0.6 }, // Capacity Planning
+    4: { x: 0.55, y: 0.45 }, // Essay Feedback
+    5: { x: 0.85, y: 0.4 }, // Parent Enquiries
+  },
+};
+
+const finance: SectorTemplate = {
+  id: "finance",
+  name: "Finance & Revenue",
+  sector: "Finance",
+  description: "Tax compliance, procurement and budgeting for a finance ministry or revenue authority.",
+  readiness: {
+    dataMaturity: 4,
+    peopleSkills: 3,
+    processesWorkflows: 4,
+    governanceRisk: 4,
+    resourcesBudget: 3,
+    techInfra: 3,
+    changeReadiness: 2,
+    leadershipAlignment: 4,
+    partnerships: 2,
+    citizenOrientation: 3,
+    ethicsTrust: 3,
+    notes: "",
+  },
+  useCases: [
+    {
+      id: 0,
+      name: "Tax Audit Risk Scoring",
+      description: "Ranks returns by likelihood of under-reporting so auditors focus on the highest-yield cases.",
+      visible: true,
+      scores: {
+        increasesProductivity: 8, reducesCosts: 6, benefitsPublic: 6, increaseRevenue: 10, strategicImpact: 9,
+        dataReady: 8, techMature: 8, lowImplementationCost: 6, reusable: 6, noRisk: 4,
+      },
+    },
+    {
+      id: 1,
+      name: "Invoice & Payment Anomaly Detection",
+      description: "Flags duplicate invoices, split purchases and unusual payments before they are released.",
+      visible: true,
+      scores: {
+        increasesProductivity: 7, reducesCosts: 9, benefitsPublic: 6, increaseRevenue: 4, strategicImpact: 7,
+        dataReady: 8, techMature: 9, lowImplementationCost: 7, reusable: 8, noRisk: 7,
+      },
+    },
+    {
+      id: 2,
+      name: "Revenue Forecasting",
+      description: "Forecasts tax and non-tax revenue under different economic scenarios for budget planning.",
+      visible: true,
+      scores: {
+        increasesProductivity: 6, reducesCosts: 4, benefitsPublic: 6, increaseRevenue: 5, strategicImpact: 9,
+        dataReady: 8, techMature: 8, lowImplementationCost: 7, reusable: 6, noRisk: 8,
+      },
+    },
+    {
+      id: 3,
+      name: "Taxpayer Help Assistant",
+      description: "Answers filing questions and guides taxpayers through forms and deadlines.",
+      visible: true,
+      scores: {
+        increasesProductivity: 7, reducesCosts: 7, benefitsPublic: 8, increaseRevenue: 4, strategicImpact: 5,
+        dataReady: 7, techMature: 9, lowImplementationCost: 8, reusable: 8, noRisk: 6,
+      },
+    },
+    {
+      id: 4,
+      name: "Procurement Document Review",
+      description: "Extracts clauses, prices and risks from tenders and contracts for faster evaluation.",
+      visible: true,
+      scores: {
+        increasesProductivity: 9, reducesCosts: 7, benefitsPublic: 5, increaseRevenue: 2, strategicImpact: 6,
+        dataReady: 6, techMature: 7, lowImplementationCost: 6, reusable: 8, noRisk: 5,
+      },
+    },
+    {
+      id: 5,
+      name: "Customs Shipment Targeting",
+      description: "Scores import declarations for inspection based on mis-declaration and smuggling risk.",
+      visible: true,
+      scores: {
+        increasesProductivity: 8, reducesCosts: 6, benefitsPublic: 7, increaseRevenue: 8, strategicImpact: 8,
+        dataReady: 6, techMature: 7, lowImplementationCost: 5, reusable: 5, noRisk: 4,
+      },
+    },
+  ],
+  placements: {
+    0: { x: 0.55, y: 0.9 }, // Audit Risk Scoring
+    1: { x: 0.85, y: 0.7 }, // Payment Anomalies
+    2: { x: 0.8, y: 0.6 }, // Revenue Forecasting
+    3: { x: 0.85, y: 0.5 }, // Help Assistant
+    4: { x: 0.6, y: 0.55 }, // Document Review
+    5: { x: 0.4, y: 0.8 }, // Customs Targeting
+  },
+};
+
+export const SECTOR_TEMPLATES: SectorTemplate[] = [health, transport, education, finance, tourism];
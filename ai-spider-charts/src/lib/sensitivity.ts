@@ -0,0 +1,118 @@
+import type { Criterion, UseCase } from "@/AISpiderCharts";
+import { criterionWeight, rankUseCases, type ScoringConfig } from "@/lib/scoring";
+
+// -----------------------------
+// Sensitivity of the ranking to criterion weights
+// -----------------------------
+// Each criterion's weight is swept over the same 0–5 range as the weight
+// sliders while every other weight stays as set. Ranks come from
+// `rankUseCases`, so the sweep honours the chosen aggregation method.
+
+export const SWEEP_MAX = 5;
+export const SWEEP_STEP = 0.25;
+
+export type SweepPoint = {
+  weight: number;
+  ranks: Record<number, number>; // use case id → rank
+};
+
+export type LeaderThreshold = {
+  weight: number; // the leader is overtaken once the weight crosses this value
+  by: number; // id of the new #1
+};
+
+export type CriterionSensitivity = {
+  key: string;
+  label: string;
+  weight: number;
+  rankRange: Record<number, { best: number; worst: number }>; // per use case id, across the sweep
+  movers: number[]; // ids whose rank changes somewhere in the sweep
+  raise: LeaderThreshold | null; // raising the weight past this point changes #1
+  lower: LeaderThreshold | null; // lowering it past this point changes #1
+};
+
+const withWeight = (criteria: Criterion[], key: string, weight: number) =>
+  criteria.map((c) => (c.key === key ? { ...c, weight } : c));
+
+function leaderAt(useCases: UseCase[], criteria: Criterion[], config: ScoringConfig, key: string, weight: number) {
+  return rankUseCases(useCases, withWeight(criteria, key, weight), config)[0]?.id;
+}
+
+/** Ranks of every use case at each weight from 0 to SWEEP_MAX for one criterion. */
+export function sweepCriterion(
+  useCases: UseCase[],
+  criteria: Criterion[],
+  config: ScoringConfig,
+  key: string
+): SweepPoint[] {
+  const points: SweepPoint[] = [];
+  for (let weight = 0; weight <= SWEEP_MAX + 1e-9; weight += SWEEP_STEP) {
+    const ranks = rankUseCases(useCases, withWeight(criteria, key, weight), config);
+    points.push({ weight, ranks: Object.fromEntries(ranks.map((r) => [r.id, r.rank])) });
+  }
+  return points;
+}
+
+/**
+ * Walks from the current weight towards `target` and returns the first weight
+ * (to 0.01) at which the current #1 loses the top spot, or null if it holds.
+ */
+function findThreshold(
+  useCases: UseCase[],
+  criteria: Criterion[],
+  config: ScoringConfig,
+  key: string,
+  from: number,
+  target: number
+): LeaderThreshold | null {
+  const leader = leaderAt(useCases, criteria, config, key, from);
+  const step = (target > from ? 1 : -1) * 0.05;
+  let inside = from;
+  for (let w = from + step; step > 0 ? w <= target + 1e-9 : w >= target - 1e-9; w += step) {
+    if (leaderAt(useCases, criteria, config, key, w) === leader) {
+      inside = w;
+      continue;
+    }
+    // Narrow the crossing down between the last weight that kept the leader and this one
+    let outside = w;
+    while (Math.abs(outside - inside) > 0.005) {
+      const mid = (inside + outside) / 2;
+      if (leaderAt(useCases, criteria, config, key, mid) === leader) inside = mid;
+      else outside = mid;
+    }
+    return {
+      weight: Math.round(outside * 100) / 100,
+      by: leaderAt(useCases, criteria, config, key, outside)!,
+    };
+  }
+  return null;
+}
+
+/** Sweep summary for every criterion, most disruptive (most use cases moving) first. */
+export function sensitivityAnalysis(
+  useCases: UseCase[],
+  criteria: Criterion[],
+  config: ScoringConfig
+): CriterionSensitivity[] {
+  return criteria
+    .map((c) => {
+      const weight = criterionWeight(c);
+      const sweep = sweepCriterion(useCases, criteria, config, c.key);
+      const rankRange = Object.fromEntries(
+        useCases.map((u) => {
+          const ranks = sweep.map((p) => p.ranks[u.id]);
+          return [u.id, { best: Math.min(...ranks), worst: Math.max(...ranks) }];
+        })
+      );
+      return {
+        key: c.key,
+        label: c.label,
+        weight,
+        rankRange,
+        movers: useCases.filter((u) => rankRange[u.id].best !== rankRange[u.id].worst).map((u) => u.id),
+        raise: findThreshold(useCases, criteria, config, c.key, weight, SWEEP_MAX),
+        lower: findThreshold(useCases, criteria, config, c.key, weight, 0),
+      };
+    })
+    .sort((a, b) => b.movers.length - a.movers.length);
+}
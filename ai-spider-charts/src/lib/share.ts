@@ -0,0 +1,115 @@
+import type { Step } from "@/Scoring_Readiness";
+import { fromProjectPayload, toProjectPayload, type ProjectState } from "@/lib/project";
+
+// -----------------------------
+// Shareable links: the whole project, deflated and base64url-encoded into the URL fragment
+// -----------------------------
+// Fragment layout (data last, so a cut-off link loses data rather than metadata):
+//   #share=1&mode=view&step=scoring&len=1234&sum=1a2b3c4d&data=…
+// `len` and `sum` let the reader tell a truncated or damaged link from a
+// project it simply can't read. The fragment never reaches a server.
+
+export type ShareMode = "view" | "edit";
+
+const SHARE_FORMAT = 1;
+const STEPS: Step[] = ["readiness", "scoring", "prioritization"];
+
+/** Links longer than this may be shortened by chat apps and email clients. */
+export const LONG_LINK = 2000;
+
+export type SharedProject = {
+  state: ProjectState;
+  mode: ShareMode;
+  step: Step;
+  sum: string; // identifies this snapshot
+};
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream) {
+  const out = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(out).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+}
+
+// FNV-1a; only needs to catch accidental damage, not tampering
+function checksum(text: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+export async function createShareLink(state: ProjectState, mode: ShareMode, step: Step, baseUrl: string) {
+  const json = JSON.stringify(toProjectPayload(state));
+  const data = toBase64Url(await transform(new TextEncoder().encode(json), new CompressionStream("deflate-raw")));
+  const meta = new URLSearchParams({
+    share: String(SHARE_FORMAT),
+    mode,
+    step,
+    len: String(data.length),
+    sum: checksum(data),
+  });
+  return `${baseUrl.split("#")[0]}#${meta.toString()}&data=${data}`;
+}
+
+/**
+ * Reads a share fragment (`location.hash`). Returns null when the fragment
+ * isn't a share link; throws with a user-facing message when it is one but
+ * can't be restored (truncated, damaged or from an incompatible version).
+ */
+export async function readShareLink(hash: string): Promise<SharedProject | null> {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  if (!params.has("share")) return null;
+
+  const format = Number(params.get("share"));
+  if (format > SHARE_FORMAT) {
+    throw new Error("This link was made with a newer version of the tool and can't be opened here.");
+  }
+  const data = params.get("data") ?? "";
+  const expected = Number(params.get("len"));
+  if (!data || (expected && data.length < expected)) {
+    throw new Error(
+      `This link is incomplete — only ${data.length} of ${expected || "?"} characters arrived. ` +
+        "It was probably cut off when it was sent; ask for the link again or for the exported project file."
+    );
+  }
+  if (params.get("sum") !== checksum(data)) {
+    throw new Error("This link is damaged (its contents don't match its checksum). Ask for the link again.");
+  }
+
+  let raw: unknown;
+  try {
+    const bytes = await transform(fromBase64Url(data), new DecompressionStream("deflate-raw"));
+    raw = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error("This link's project data could not be decoded.");
+  }
+
+  let state: ProjectState;
+  try {
+    state = fromProjectPayload(raw);
+  } catch (e) {
+    throw new Error(`This link's project uses an incompatible schema version. ${(e as Error).message}`);
+  }
+
+  const step = params.get("step") as Step;
+  return {
+    state,
+    mode: params.get("mode") === "edit" ? "edit" : "view",
+    step: STEPS.includes(step) ? step : "readiness",
+    sum: params.get("sum")!,
+  };
+}
@@ -0,0 +1,119 @@
+import { CRITERIA, defaultUseCases } from "@/lib/useCases";
+import { defaultReadiness } from "@/Scoring_Readiness";
+import { defaultScoringConfig } from "@/lib/scoring";
+import { defaultReadinessAdjustment } from "@/lib/readinessAdjustment";
+import { defaultAssessmentConfig } from "@/lib/assessors";
+import { defaultPairwiseConfig } from "@/lib/ahp";
+import { defaultRoadmap } from "@/lib/roadmap";
+import { defaultHorizonConfig } from "@/lib/horizonRules";
+import { defaultBenchmarkConfig } from "@/lib/benchmarks";
+import { defaultActionPlan } from "@/lib/actionPlan";
+import { fromProjectPayload, type ProjectPayload, type ProjectState } from "@/lib/project";
+import { SECTOR_TEMPLATES, type SectorTemplate } from "@/lib/sectorTemplates";
+
+// -----------------------------
+// Project templates: the built-in sector library plus the organization's own
+// -----------------------------
+// Saved templates store the same payload as a workspace, so they go through
+// the normal migrations when the project schema changes.
+
+export type ProjectTemplate = {
+  id: string;
+  name: string;
+  sector: string;
+  description: string;
+  builtIn: boolean;
+  state: ProjectState;
+};
+
+type SavedTemplate = {
+  id: string;
+  name: string;
+  sector: string;
+  description: string;
+  createdAt: string;
+  payload: ProjectPayload;
+};
+
+const TEMPLATES_KEY = "ai-strategy:templates";
+
+/** Default rubric, neutral readiness and eight empty use cases. */
+export function blankProject(): ProjectState {
+  return {
+    scores: defaultReadiness(),
+    criteria: CRITERIA,
+    scoring: defaultScoringConfig(),
+    readinessAdjustment: defaultReadinessAdjustment(),
+    assessment: defaultAssessmentConfig(),
+    pairwise: defaultPairwiseConfig(),
+    roadmap: defaultRoadmap(),
+    horizons: defaultHorizonConfig(),
+    benchmarks: defaultBenchmarkConfig(),
+    readinessHistory: [],
+    actionPlan: defaultActionPlan(),
+    useCases: defaultUseCases,
+    placements: {},
+  };
+}
+
+function fromSector(t: SectorTemplate): ProjectTemplate {
+  return {
+    id: t.id,
+    name: t.name,
+    sector: t.sector,
+    description: t.description,
+    builtIn: true,
+    state: { ...blankProject(), scores: t.readiness, useCases: t.useCases, placements: t.placements },
+  };
+}
+
+function readSaved(): SavedTemplate[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(TEMPLATES_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function findBuiltInTemplate(id: string): ProjectTemplate | null {
+  const t = SECTOR_TEMPLATES.find((s) => s.id === id);
+  return t ? fromSector(t) : null;
+}
+
+/** Built-in templates first, then saved ones (oldest first). Saved templates that no longer load are skipped. */
+export function listTemplates(): ProjectTemplate[] {
+  const saved = readSaved().flatMap((t): ProjectTemplate[] => {
+    try {
+      const state = fromProjectPayload(t.payload);
+      return [{ id: t.id, name: t.name, sector: t.sector, description: t.description, builtIn: false, state }];
+    } catch (e) {
+      console.error(`Template "${t.name}" could not be loaded`, e);
+      return [];
+    }
+  });
+  return [...SECTOR_TEMPLATES.map(fromSector), ...saved];
+}
+
+/** Returns false when the browser refuses the write (quota, private mode). */
+export function saveTemplate(
+  details: { name: string; sector: string; description: string },
+  payload: ProjectPayload
+): boolean {
+  const entry: SavedTemplate = {
+    ...details,
+    id: `tpl-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString(),
+    payload,
+  };
+  try {
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify([...readSaved(), entry]));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function deleteTemplate(id: string) {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(readSaved().filter((t) => t.id !== id)));
+}
@@ -0,0 +1,140 @@
+import type { Criterion, UseCase } from "@/AISpiderCharts";
+import { groupScore, rankUseCases, type ScoringConfig } from "@/lib/scoring";
+
+// -----------------------------
+// Score uncertainty: low / likely / high per criterion and Monte Carlo ranking
+// -----------------------------
+// The likely value is the use case's normal score; `UseCase.ranges` adds an
+// optional low and high around it. Each run draws every score from a
+// triangular distribution and re-ranks, all locally and with a fixed seed so
+// the same inputs always give the same figures.
+
+export const RUN_OPTIONS = [1000, 5000, 10000];
+export const DEFAULT_RUNS = 1000;
+
+export type Interval = { low: number; high: number }; // 5th and 95th percentile
+
+export type SimulatedUseCase = {
+  pTop: number; // share of runs ranked within the top N
+  meanRank: number;
+  score: Interval;
+  impact: Interval;
+  feasibility: Interval;
+};
+
+/** Low, likely and high for one criterion; all three equal the score when no range is set. */
+export function scoreRange(u: UseCase, key: string) {
+  const likely = u.scores[key];
+  const range = u.ranges?.[key];
+  return {
+    low: Math.min(range?.low ?? likely, likely),
+    likely,
+    high: Math.max(range?.high ?? likely, likely),
+  };
+}
+
+/** Sets (or with null, clears) one criterion's range; the ranges field is dropped once empty. */
+export function setRange(u: UseCase, key: string, range: { low: number; high: number } | null): UseCase {
+  const ranges = Object.fromEntries(Object.entries(u.ranges ?? {}).filter(([k]) => k !== key));
+  if (range) ranges[key] = range;
+  const next: UseCase = { ...u, ranges };
+  if (Object.keys(ranges).length === 0) delete next.ranges;
+  return next;
+}
+
+export function hasRanges(useCases: UseCase[]) {
+  return useCases.some((u) => Object.keys(u.ranges ?? {}).length > 0);
+}
+
+// Small seeded PRNG (mulberry32)
+function seeded(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function triangular(r: number, low: number, mode: number, high: number) {
+  if (high <= low) return mode;
+  const f = (mode - low) / (high - low);
+  return r < f ? low + Math.sqrt(r * (high - low) * (mode - low)) : high - Math.sqrt((1 - r) * (high - low) * (high - mode));
+}
+
+function sample(u: UseCase, criteria: Criterion[], rand: () => number): UseCase {
+  const scores = Object.fromEntries(
+    criteria.map((c) => {
+      const { low, likely, high } = scoreRange(u, c.key);
+      return [c.key, triangular(rand(), low, likely, high)];
+    })
+  );
+  return { ...u, scores };
+}
+
+function interval(values: number[]): Interval {
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+  return { low: at(0.05), high: at(0.95) };
+}
+
+/** Probability of landing in the top N, mean rank and 90% intervals for every use case, by id. */
+export function simulateRanking(
+  useCases: UseCase[],
+  criteria: Criterion[],
+  config: ScoringConfig,
+  topN: number,
+  runs = DEFAULT_RUNS
+): Record<number, SimulatedUseCase> {
+  const rand = seeded(1);
+  const tally = Object.fromEntries(
+    useCases.map((u) => [u.id, { top: 0, rankSum: 0, score: [] as number[], impact: [] as number[], feasibility: [] as number[] }])
+  );
+
+  for (let run = 0; run < runs; run++) {
+    const drawn = useCases.map((u) => sample(u, criteria, rand));
+    rankUseCases(drawn, criteria, config).forEach((r) => {
+      const t = tally[r.id];
+      if (r.rank <= topN) t.top++;
+      t.rankSum += r.rank;
+      t.score.push(r.score);
+      t.impact.push(r.impact);
+      t.feasibility.push(r.feasibility);
+    });
+  }
+
+  return Object.fromEntries(
+    useCases.map((u) => {
+      const t = tally[u.id];
+      return [
+        u.id,
+        {
+          pTop: t.top / runs,
+          meanRank: t.rankSum / runs,
+          score: interval(t.score),
+          impact: interval(t.impact),
+          feasibility: interval(t.feasibility),
+        },
+      ];
+    })
+  );
+}
+
+/** 90% intervals of the Impact and Feasibility group scores, by id (no ranking needed). */
+export function groupIntervals(useCases: UseCase[], criteria: Criterion[], runs = DEFAULT_RUNS) {
+  const rand = seeded(1);
+  return Object.fromEntries(
+    useCases.map((u) => {
+      const impact: number[] = [];
+      const feasibility: number[] = [];
+      for (let run = 0; run < runs; run++) {
+        const drawn = sample(u, criteria, rand);
+        impact.push(groupScore(drawn, criteria, "Impact"));
+        feasibility.push(groupScore(drawn, criteria, "Feasibility"));
+      }
+      return [u.id, { impact: interval(impact), feasibility: interval(feasibility) }];
+    })
+  );
+}
@@ -0,0 +1,154 @@
+// -----------------------------
+// Use cases and evaluation criteria
+// -----------------------------
+// Shared shapes and defaults for the scoring step, kept out of the component
+// files so they can be imported anywhere.
+
+export type CriterionGroup = "Impact" | "Feasibility";
+
+export type Criterion = {
+  key: string;
+  label: string;
+  group: CriterionGroup;
+  descriptions: { 0: string; 5: string; 10: string };
+  weight?: number; // relative to the other criteria in its group; defaults to 1
+};
+
+// Default rubric for new projects; each project can edit its own copy (see CriteriaEditor)
+export const CRITERIA: Criterion[] = [
+  {
+    key: "increasesProductivity",
+    label: "Increases Productivity",
+    group: "Impact",
+    descriptions: {
+      0: "Use case offers no measurable productivity improvement",
+      5: "Moderate improvement in productivity",
+      10: "Use case could offer significant productivity boost across organization",
+    },
+  },
+  {
+    key: "reducesCosts",
+    label: "Reduces Costs",
+    group: "Impact",
+    descriptions: {
+      0: "Use case offers no cost savings",
+      5: "Moderate savings in some processes",
+      10: "Use case offers major cost reductions across operations",
+    },
+  },
+  {
+    key: "benefitsPublic",
+    label: "Benefits Public",
+    group: "Impact",
+    descriptions: {
+      0: "Use case offers no public benefit",
+      5: "Some benefit for limited groups",
+      10: "Use case offers wide-reaching public benefit",
+    },
+  },
+  {
+    key: "increaseRevenue",
+    label: "Increase Revenue",
+    group: "Impact",
+    descriptions: {
+      0: "No measurable effect on revenue",
+      5: "Some revenue potential in limited areas",
+      10: "Strong potential to significantly increase revenue",
+    },
+  },
+  {
+    key: "strategicImpact",
+    label: "Strategic Impact",
+    group: "Impact",
+    descriptions: {
+      0: "No contribution to strategic objectives",
+      5: "Moderate alignment with some strategic priorities",
+      10: "High alignment with major strategic goals of the organization",
+    },
+  },
+  {
+    key: "dataReady",
+    label: "Data Ready",
+    group: "Feasibility",
+    descriptions: {
+      0: "Use case does not require much clean, structured, ready-to-use data",
+      5: "Partial / incomplete data requirements",
+      10: "Use case requires high-quality, ready-to-use data",
+    },
+  },
+  {
+    key: "techMature",
+    label: "Technology Mature",
+    group: "Feasibility",
+    descriptions: {
+      0: "Use case needs technology that is immature or still experimental and not ready to use",
+      5: "Use case requires technology that is semi-reliable but requires adaptation",
+      10: "Use case requires technology that is fully mature and reliable",
+    },
+  },
+  {
+    key: "lowImplementationCost",
+    label: "Resource-Efficient",
+    group: "Feasibility",
+    descriptions: {
+      0: "Extremely costly to implement use case",
+      5: "Moderate resources required",
+      10: "Very low implementation cost of use case",
+    },
+  },
+  {
+    key: "reusable",
+    label: "Reusable",
+    group: "Feasibility",
+    descriptions: {
+      0: "Use case is not reusable",
+      5: "Use case is reusable with modifications",
+      10: "Use case is highly reusable across multiple contexts",
+    },
+  },
+  {
+    key: "noRisk",
+    label: "No Risk",
+    group: "Feasibility",
+    descriptions: {
+      0: "High risks (legal, ethical, reputational) associated with developing and deploying use case",
+      5: "Some risks associated with developing and deploying use case but are overall manageable",
+      10: "Minimal or no risks associated with developing and deploying use case",
+    },
+  },
+];
+
+export const COLORS = [
+  "#e6194B", // Red
+  "#3cb44b", // Green
+  "#808000", // Olive
+  "#4363d8", // Blue
+  "#f58231", // Orange
+  "#911eb4", // Purple
+  "#42d4f4", // Cyan
+  "#f032e6", // Magenta
+  "#469990", // Teal
+  "#9A6324", // Brown
+];
+
+export type UseCase = {
+  id: number;
+  name: string;
+  description: string;
+  visible: boolean;
+  scores: Record<Criterion["key"], number>; // keyed by the project's criteria; the consensus when there are assessors
+  assessorScores?: Record<string, Record<Criterion["key"], number>>; // keyed by assessor id
+  ranges?: Record<Criterion["key"], { low: number; high: number }>; // optional uncertainty around `scores`
+  prerequisites?: number[]; // ids of use cases that must be delivered first
+};
+
+export const emptyScores = (criteria: Criterion[] = CRITERIA): UseCase["scores"] =>
+  Object.fromEntries(criteria.map((c) => [c.key, 5]));
+
+export const defaultUseCases: UseCase[] = new Array(8).fill(null).map((_, i) => ({
+  id: i,
+  name: `Use Case ${i + 1}`,
+  description: "",
+  visible: true,
+  scores: emptyScores(),
+}));
@@ -0,0 +1,105 @@
+import type { ProjectPayload } from "@/lib/project";
+
+// -----------------------------
+// Named workspaces persisted in localStorage
+// -----------------------------
+// Each workspace stores the same payload that "Export Project" writes, so a
+// saved workspace and an exported .json file are interchangeable.
+
+export type WorkspaceMeta = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+const INDEX_KEY = "ai-strategy:workspaces";
+const ACTIVE_KEY = "ai-strategy:active-workspace";
+const dataKey = (id: string) => `ai-strategy:workspace:${id}`;
+
+function newId() {
+  return `ws-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function writeIndex(list: WorkspaceMeta[]) {
+  localStorage.setItem(INDEX_KEY, JSON.stringify(list));
+}
+
+export function listWorkspaces(): WorkspaceMeta[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(INDEX_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function loadWorkspace(id: string): unknown | null {
+  try {
+    const raw = localStorage.getItem(dataKey(id));
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Returns false when the browser refuses the write (quota, private mode). */
+export function saveWorkspace(id: string, payload: ProjectPayload): boolean {
+  try {
+    localStorage.setItem(dataKey(id), JSON.stringify(payload));
+    writeIndex(
+      listWorkspaces().map((w) => (w.id === id ? { ...w, updatedAt: payload.exportedAt } : w))
+    );
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Stores the data first and lists the workspace only once that succeeded.
+ * Returns null when the browser refuses a write (quota, private mode).
+ */
+export function createWorkspace(name: string, payload: ProjectPayload, id = newId()): WorkspaceMeta | null {
+  const now = new Date().toISOString();
+  const meta: WorkspaceMeta = { id, name, createdAt: now, updatedAt: now };
+  const known = listWorkspaces();
+  try {
+    localStorage.setItem(dataKey(id), JSON.stringify(payload));
+  } catch {
+    return null;
+  }
+  try {
+    writeIndex([...known.filter((w) => w.id !== id), meta]);
+    return meta;
+  } catch {
+    // Unlisted data would never be shown or cleaned up
+    if (!known.some((w) => w.id === id)) localStorage.removeItem(dataKey(id));
+    return null;
+  }
+}
+
+export function renameWorkspace(id: string, name: string) {
+  writeIndex(listWorkspaces().map((w) => (w.id === id ? { ...w, name } : w)));
+}
+
+/** Returns null when the workspace has no data or the copy cannot be stored. */
+export function duplicateWorkspace(id: string, name: string): WorkspaceMeta | null {
+  const payload = loadWorkspace(id);
+  if (!payload) return null;
+  return createWorkspace(name, payload as ProjectPayload);
+}
+
+export function deleteWorkspace(id: string) {
+  localStorage.removeItem(dataKey(id));
+  writeIndex(listWorkspaces().filter((w) => w.id !== id));
+  if (getActiveWorkspaceId() === id) localStorage.removeItem(ACTIVE_KEY);
+}
+
+export function getActiveWorkspaceId(): string | null {
+  return localStorage.getItem(ACTIVE_KEY);
+}
+
+export function setActiveWorkspaceId(id: string) {
+  localStorage.setItem(ACTIVE_KEY, id);
+}